@@ -0,0 +1,23 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { ActionBudget } from "./ActionBudget";
+
+test("lets a batch of actions through, but no more than time allows", () => {
+  const budget = new ActionBudget();
+  const now = 10_000;
+
+  // Idle long enough to have banked the most time, then a batch arrives
+  const allowed = [0, 1, 2, 3, 4, 5, 6].filter(() => budget.spend(0.1, now));
+  assert.equal(allowed.length, 5);
+
+  assert.equal(budget.spend(0.1, now + 50), false);
+  assert.equal(budget.spend(0.1, now + 100), true);
+});
+
+test("allows actions slower than the time that can be banked", () => {
+  const budget = new ActionBudget();
+
+  assert.equal(budget.spend(1.5, 10_000), true);
+  assert.equal(budget.spend(1.5, 11_000), false);
+  assert.equal(budget.spend(1.5, 11_500), true);
+});
@@ -0,0 +1,39 @@
+/**
+ * Most unused time (s) a player may bank. Actions reach us in batches
+ * bunched up by the network, so several may arrive at once.
+ */
+const MAX_BANKED_TIME = 0.5;
+
+/**
+ * Spaces out one kind of player action (shots, swings, throws) on the
+ * server's own clock. Each action spends time, refilled by the wall time
+ * since the last one, so client timestamps never come into it.
+ */
+export class ActionBudget {
+  private lastAt = 0; // Wall time (ms) of the last action
+  private banked = 0; // Time (s) actions may still claim
+
+  /**
+   * Spend an action's interval (s) if enough time has passed for it
+   * @returns Whether the action may go ahead
+   */
+  public spend(interval: number, now = Date.now()): boolean {
+    const available = Math.min(
+      Math.max(interval, MAX_BANKED_TIME),
+      this.banked + (now - this.lastAt) / 1000
+    );
+    if (available < interval) return false;
+
+    this.lastAt = now;
+    this.banked = available - interval;
+    return true;
+  }
+
+  /**
+   * Forget past actions, so the next one may go ahead straight away
+   */
+  public reset(): void {
+    this.lastAt = 0;
+    this.banked = 0;
+  }
+}
@@ -0,0 +1,143 @@
+import type { FlagState, TeamId } from "../../src/events/types";
+import { GameMode, TEAM_BASES } from "./GameMode";
+import type { Point } from "./GameMode";
+import type { ServerPlayer } from "./ServerPlayer";
+
+/**
+ * How close (units) a player must get to touch a flag or their base
+ */
+const FLAG_REACH = 1.5;
+
+/**
+ * How long (ms) a dropped flag lies around before it goes home by itself
+ */
+const FLAG_RETURN_TIME = 30000;
+
+interface Flag {
+  team: TeamId;
+  position: Point;
+  carrierId: string | null;
+  droppedAt: number | null; // When its carrier fell, while it lies there
+}
+
+/**
+ * Two teams, each with a flag at their base. Grab the enemy flag and
+ * bring it to your own base, while your flag is there, to score.
+ * Carriers drop the flag where they die; its team can touch it to send it
+ * home, and otherwise it goes home after a while.
+ */
+export class CaptureTheFlagMode extends GameMode {
+  private flags: Map<TeamId, Flag> = new Map();
+
+  constructor() {
+    super("capture-the-flag", ["red", "blue"]);
+
+    for (const team of this.teamScores.keys()) {
+      this.flags.set(team, {
+        team,
+        position: { ...TEAM_BASES[team] },
+        carrierId: null,
+        droppedAt: null,
+      });
+    }
+  }
+
+  public removePlayer(player: ServerPlayer): void {
+    this.dropFlag(player, Date.now());
+    super.removePlayer(player);
+  }
+
+  public onDeath(player: ServerPlayer): void {
+    this.dropFlag(player, Date.now());
+  }
+
+  public onMove(player: ServerPlayer, _now: number): void {
+    const team = this.getTeam(player.id);
+    if (!team || player.isDead) return;
+
+    for (const flag of this.flags.values()) {
+      if (flag.carrierId !== null) continue;
+      if (!this.isWithinReach(player.position, flag.position)) continue;
+
+      if (flag.team !== team) {
+        flag.carrierId = player.id;
+        flag.droppedAt = null;
+        this.markChanged();
+      } else if (flag.droppedAt !== null) {
+        this.returnFlag(flag);
+      }
+    }
+
+    // Score by bringing the enemy flag home while ours is there
+    const carried = this.findCarriedFlag(player.id);
+    const ownFlag = this.flags.get(team);
+    if (
+      carried &&
+      ownFlag &&
+      this.isAtBase(ownFlag) &&
+      this.isWithinReach(player.position, TEAM_BASES[team])
+    ) {
+      this.returnFlag(carried);
+      this.addScore(player);
+    }
+  }
+
+  public update(now: number): void {
+    for (const flag of this.flags.values()) {
+      if (flag.droppedAt !== null && now - flag.droppedAt >= FLAG_RETURN_TIME) {
+        this.returnFlag(flag);
+      }
+    }
+  }
+
+  protected getFlags(): FlagState[] {
+    return Array.from(this.flags.values(), (flag) => {
+      const carrier = flag.carrierId
+        ? this.players.get(flag.carrierId)
+        : undefined;
+      return {
+        team: flag.team,
+        position: { ...(carrier?.position ?? flag.position) },
+        carrierId: flag.carrierId,
+        atBase: this.isAtBase(flag),
+      };
+    });
+  }
+
+  /**
+   * Leave the flag a player carries where they are
+   */
+  private dropFlag(player: ServerPlayer, now: number): void {
+    const flag = this.findCarriedFlag(player.id);
+    if (!flag) return;
+
+    flag.carrierId = null;
+    flag.position = { ...player.position };
+    flag.droppedAt = now;
+    this.markChanged();
+  }
+
+  private returnFlag(flag: Flag): void {
+    flag.carrierId = null;
+    flag.position = { ...TEAM_BASES[flag.team] };
+    flag.droppedAt = null;
+    this.markChanged();
+  }
+
+  private findCarriedFlag(userId: string): Flag | undefined {
+    return Array.from(this.flags.values()).find(
+      (flag) => flag.carrierId === userId
+    );
+  }
+
+  private isAtBase(flag: Flag): boolean {
+    return flag.carrierId === null && flag.droppedAt === null;
+  }
+
+  /**
+   * Flags are touched by walking over them, so height doesn't count
+   */
+  private isWithinReach(a: Point, b: Point): boolean {
+    return Math.hypot(a.x - b.x, a.z - b.z) <= FLAG_REACH;
+  }
+}
@@ -0,0 +1,17 @@
+import { GameMode } from "./GameMode";
+import type { ServerPlayer } from "./ServerPlayer";
+
+/**
+ * Free for all: every kill scores a point
+ */
+export class DeathmatchMode extends GameMode {
+  constructor() {
+    super("deathmatch", []);
+  }
+
+  public onKill(killer: ServerPlayer, victim: ServerPlayer): void {
+    if (killer !== victim) {
+      this.addScore(killer);
+    }
+  }
+}
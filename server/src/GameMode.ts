@@ -0,0 +1,304 @@
+import { GAME_MODES } from "../../src/events/constants";
+import type {
+  FlagState,
+  GameModeId,
+  MatchEndEvent,
+  MatchPlayer,
+  MatchStateEvent,
+  MatchWinner,
+  TeamId,
+  TeamScore,
+} from "../../src/events/types";
+import {
+  pickSpawnPoint,
+  SPAWN_POINTS,
+} from "../../src/environment/spawnPoints";
+import type { SpawnPoint } from "../../src/environment/spawnPoints";
+import type { ServerPlayer } from "./ServerPlayer";
+
+export type Point = { x: number; y: number; z: number };
+
+/**
+ * Where each team spawns and keeps its flag
+ */
+export const TEAM_BASES: Record<TeamId, Point> = {
+  red: { x: -30, y: 1, z: 0 },
+  blue: { x: 30, y: 1, z: 0 },
+};
+
+/**
+ * How far (units) a position may be off a spawn point and still count as
+ * it, for rounding on the way over the network
+ */
+const SPAWN_POINT_TOLERANCE = 0.1;
+
+/**
+ * The rules of a match: who is on which team, where players spawn, what
+ * scores and when the match is over. The game server tells the mode what
+ * happens in the match through the on* hooks.
+ */
+export abstract class GameMode {
+  public readonly scoreLimit: number;
+  public readonly timeLimit: number; // ms
+  protected players: Map<string, ServerPlayer> = new Map();
+  protected scores: Map<string, number> = new Map();
+  protected teams: Map<string, TeamId> = new Map(); // User id to team
+  protected teamScores: Map<TeamId, number>;
+  private endsAt = 0;
+  private changed = true;
+
+  constructor(
+    public readonly id: GameModeId,
+    teamIds: TeamId[]
+  ) {
+    this.scoreLimit = GAME_MODES[id].scoreLimit;
+    this.timeLimit = GAME_MODES[id].timeLimitSeconds * 1000;
+    this.teamScores = new Map(teamIds.map((team) => [team, 0]));
+  }
+
+  /**
+   * Start the round timer
+   */
+  public start(now = Date.now()): void {
+    this.endsAt = now + this.timeLimit;
+    this.changed = true;
+  }
+
+  public isTeamMode(): boolean {
+    return this.teamScores.size > 0;
+  }
+
+  /**
+   * Take a player into the match, on the smallest team in team modes
+   */
+  public addPlayer(player: ServerPlayer): void {
+    this.players.set(player.id, player);
+    this.scores.set(player.id, 0);
+    if (this.isTeamMode()) {
+      this.teams.set(player.id, this.pickTeam());
+    }
+    this.changed = true;
+  }
+
+  public removePlayer(player: ServerPlayer): void {
+    this.players.delete(player.id);
+    this.scores.delete(player.id);
+    this.teams.delete(player.id);
+    this.changed = true;
+  }
+
+  public getTeam(userId: string): TeamId | null {
+    return this.teams.get(userId) ?? null;
+  }
+
+  /**
+   * Whether two players are on the same team (never in free-for-all modes)
+   */
+  public areTeammates(a: string, b: string): boolean {
+    const team = this.getTeam(a);
+    return team !== null && a !== b && team === this.getTeam(b);
+  }
+
+  /**
+   * Move a player to the smallest team if theirs outnumbers it by two or
+   * more, as happens when players leave. Done while they wait to respawn,
+   * so switching costs them nothing.
+   * @returns Whether the player changed teams
+   */
+  public balanceTeams(player: ServerPlayer): boolean {
+    const team = this.getTeam(player.id);
+    if (!team) return false;
+
+    const sizes = this.getTeamSizes();
+    const smallest = this.pickTeam();
+    if ((sizes.get(team) ?? 0) - (sizes.get(smallest) ?? 0) < 2) return false;
+
+    this.teams.set(player.id, smallest);
+    this.changed = true;
+    return true;
+  }
+
+  /**
+   * The map's spawn points a player may use: their team's in team modes,
+   * the free-for-all ones otherwise
+   */
+  public getSpawnPoints(player: ServerPlayer): SpawnPoint[] {
+    const team = this.getTeam(player.id);
+    return SPAWN_POINTS.filter((point) => (point.team ?? null) === team);
+  }
+
+  /**
+   * Where a player enters the match or comes back after dying: the spawn
+   * point furthest from their enemies. The server doesn't know the map's
+   * cover, so clients pick their own spawn when they can (see
+   * isSpawnPoint).
+   */
+  public getSpawnPosition(player: ServerPlayer): Point {
+    const enemies = Array.from(this.players.values())
+      .filter(
+        (other) =>
+          other !== player &&
+          !other.isDead &&
+          !this.areTeammates(player.id, other.id)
+      )
+      .map((other) => other.position);
+
+    return { ...pickSpawnPoint(this.getSpawnPoints(player), enemies).position };
+  }
+
+  /**
+   * Whether a position is one of a player's spawn points
+   */
+  public isSpawnPoint(player: ServerPlayer, position: Point): boolean {
+    return this.getSpawnPoints(player).some(
+      (point) =>
+        Math.hypot(
+          point.position.x - position.x,
+          point.position.y - position.y,
+          point.position.z - position.z
+        ) < SPAWN_POINT_TOLERANCE
+    );
+  }
+
+  /**
+   * A player killed another
+   */
+  public onKill(_killer: ServerPlayer, _victim: ServerPlayer): void {}
+
+  /**
+   * A player died, whether or not someone killed them
+   */
+  public onDeath(_player: ServerPlayer): void {}
+
+  /**
+   * A player moved
+   */
+  public onMove(_player: ServerPlayer, _now: number): void {}
+
+  /**
+   * Time passed, for rules that run on a timer
+   */
+  public update(_now: number): void {}
+
+  /**
+   * Why the match is over, or null while it goes on
+   */
+  public getEndReason(now = Date.now()): MatchEndEvent["reason"] | null {
+    const scores = this.isTeamMode()
+      ? this.teamScores.values()
+      : this.scores.values();
+    if (Math.max(0, ...scores) >= this.scoreLimit) return "score";
+    if (now >= this.endsAt) return "time";
+    return null;
+  }
+
+  /**
+   * Whoever has the top score, or null if it's shared
+   */
+  public getWinner(): MatchWinner | null {
+    if (this.isTeamMode()) {
+      const team = this.findLeader(this.teamScores);
+      return team ? { type: "team", team } : null;
+    }
+
+    const userId = this.findLeader(this.scores);
+    return userId ? { type: "player", userId } : null;
+  }
+
+  /**
+   * Whether anything changed since the last call
+   */
+  public takeChanges(): boolean {
+    const changed = this.changed;
+    this.changed = false;
+    return changed;
+  }
+
+  public toState(now = Date.now()): Omit<MatchStateEvent, "timestamp"> {
+    return {
+      mode: this.id,
+      scoreLimit: this.scoreLimit,
+      timeLeftMs: Math.max(0, this.endsAt - now),
+      players: this.getPlayers(),
+      teams: this.getTeamScores(),
+      flags: this.getFlags(),
+    };
+  }
+
+  public getPlayers(): MatchPlayer[] {
+    return Array.from(this.players.values())
+      .map((player) => ({
+        userId: player.id,
+        name: player.profile.name,
+        score: this.scores.get(player.id) ?? 0,
+        team: this.getTeam(player.id) ?? undefined,
+      }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  public getTeamScores(): TeamScore[] {
+    return Array.from(this.teamScores, ([id, score]) => ({ id, score }));
+  }
+
+  protected getFlags(): FlagState[] {
+    return [];
+  }
+
+  /**
+   * Score for a player, and for their team in team modes
+   */
+  protected addScore(player: ServerPlayer, points = 1): void {
+    this.scores.set(player.id, (this.scores.get(player.id) ?? 0) + points);
+
+    const team = this.getTeam(player.id);
+    if (team) {
+      this.teamScores.set(team, (this.teamScores.get(team) ?? 0) + points);
+    }
+    this.changed = true;
+  }
+
+  protected markChanged(): void {
+    this.changed = true;
+  }
+
+  /**
+   * The team with the fewest players (the first one on a tie)
+   */
+  private pickTeam(): TeamId {
+    const sizes = this.getTeamSizes();
+    let smallest: TeamId | null = null;
+    for (const [team, size] of sizes) {
+      if (smallest === null || size < (sizes.get(smallest) ?? 0)) {
+        smallest = team;
+      }
+    }
+    return smallest as TeamId;
+  }
+
+  private getTeamSizes(): Map<TeamId, number> {
+    const sizes = new Map(
+      Array.from(this.teamScores.keys(), (team) => [team, 0])
+    );
+    for (const team of this.teams.values()) {
+      sizes.set(team, (sizes.get(team) ?? 0) + 1);
+    }
+    return sizes;
+  }
+
+  private findLeader<K>(scores: Map<K, number>): K | null {
+    let leader: K | null = null;
+    let best = -Infinity;
+    let shared = false;
+
+    for (const [key, score] of scores) {
+      if (score > best) {
+        leader = key;
+        best = score;
+        shared = false;
+      } else if (score === best) {
+        shared = true;
+      }
+    }
+    return shared ? null : leader;
+  }
+}
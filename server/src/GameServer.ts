@@ -0,0 +1,1060 @@
+import { randomUUID } from "node:crypto";
+import type { Server, Socket } from "socket.io";
+import {
+  FRIENDLY_FIRE,
+  GAME_EVENTS,
+  HEALTH_PICKUP,
+  SPAWN,
+} from "../../src/events/constants";
+import {
+  decodeBatch,
+  encodeBatch,
+  PROTOCOL_VERSION,
+} from "../../src/events/protocol";
+import type {
+  GameEventMap,
+  GameEventName,
+  ProtocolHandshake,
+} from "../../src/events/protocol";
+import { dequantizeState, quantizeState } from "../../src/events/stateCodec";
+import type { QuantizedState } from "../../src/events/stateCodec";
+import type {
+  BaseEvent,
+  CombatEvent,
+  GrenadeExplodeEvent,
+  GrenadeThrowEvent,
+  MatchEndEvent,
+  MeleeSwingEvent,
+  PlayerHealthEvent,
+  PlayerInputAckEvent,
+  PlayerPositionEvent,
+  PlayerStatusEvent,
+  RemoteEvent,
+  UserConnectionEvent,
+  UserWelcomeEvent,
+  WeaponEvent,
+} from "../../src/events/types";
+import { GRENADE } from "../../src/weapons/grenades";
+import { KNIFE } from "../../src/weapons/melee";
+import { HitValidator } from "./HitValidator";
+import { Lobby } from "./Lobby";
+import { MovementValidator } from "./MovementValidator";
+import type { Room } from "./Room";
+import { MAX_HEALTH, ServerPlayer } from "./ServerPlayer";
+import { getWeaponStats } from "./weapons";
+
+/**
+ * Fraction of a weapon's fire interval two shots may be apart.
+ * Client timers are not perfectly regular, so allow some leeway.
+ */
+const FIRE_RATE_LEEWAY = 0.8;
+
+/**
+ * Fraction of a grenade's fuse that must have burnt before it goes off,
+ * for the same reason
+ */
+const FUSE_LEEWAY = 0.8;
+
+/**
+ * How much faster than the fastest throw a grenade may fly, to absorb
+ * rounding on the client
+ */
+const THROW_SPEED_LEEWAY = 1.1;
+
+/**
+ * Farthest (units) from the thrower a grenade may leave their hand
+ */
+const THROW_REACH = 3;
+
+/**
+ * Slack (units) around a blast within which players may be pushed away.
+ * Clients see everyone a little out of date.
+ */
+const BLAST_SLACK = 1;
+
+/**
+ * Fraction of the respawn delay a player must have waited. Clients may
+ * report their own death a little after the fact, so allow some leeway.
+ */
+const RESPAWN_DELAY_LEEWAY = 0.8;
+
+/**
+ * Fraction of the interval between heals two heals may be apart, as
+ * network delay bunches reports up
+ */
+const HEAL_INTERVAL_LEEWAY = 0.8;
+
+/**
+ * How often (ms) player states are streamed to clients
+ */
+const STATE_INTERVAL = 100;
+
+/**
+ * How often (ms) changed scoreboards are sent
+ */
+const SCOREBOARD_INTERVAL = 500;
+
+/**
+ * How often (ms) match rules and timers are checked, and changed match
+ * states sent
+ */
+const MATCH_INTERVAL = 250;
+
+/**
+ * Net ids are sent as uint16
+ */
+const MAX_NET_ID = 65535;
+
+/**
+ * Authoritative game server. Assigns user ids, runs a match in each
+ * playing room, validates and relays client events within it, and is the
+ * only one that decides hits and deaths.
+ */
+export class GameServer {
+  private players: Map<string, ServerPlayer> = new Map();
+  private hitValidator = new HitValidator();
+  private movementValidator = new MovementValidator();
+  private lastNetId = 0;
+  private lobby: Lobby;
+
+  constructor(private io: Server) {
+    this.lobby = new Lobby(io, {
+      onMatchStart: (room) => this.startMatch(room),
+      onMatchJoin: (player, room) => this.joinMatch(player, room),
+      onMatchLeave: (player, room) => this.leaveMatch(player, room),
+    });
+
+    this.io.use((socket, next) => this.checkProtocol(socket, next));
+    this.io.on("connection", (socket) => this.handleConnection(socket));
+    setInterval(() => this.sendStates(), STATE_INTERVAL);
+    setInterval(() => this.sendScoreboards(), SCOREBOARD_INTERVAL);
+    setInterval(() => this.updateMatches(), MATCH_INTERVAL);
+  }
+
+  /**
+   * Number of currently connected players
+   */
+  public getPlayerCount(): number {
+    return this.players.size;
+  }
+
+  /**
+   * Refuse clients that speak a different protocol version
+   */
+  private checkProtocol(socket: Socket, next: (error?: Error) => void): void {
+    const { protocolVersion } = (socket.handshake.auth ??
+      {}) as Partial<ProtocolHandshake>;
+
+    if (protocolVersion !== PROTOCOL_VERSION) {
+      console.warn(
+        `[server] Refused client on protocol v${protocolVersion ?? "?"}`
+      );
+      next(
+        new Error(
+          `Protocol version mismatch: server speaks v${PROTOCOL_VERSION}, client v${protocolVersion ?? "?"}`
+        )
+      );
+      return;
+    }
+
+    next();
+  }
+
+  /**
+   * Register a new client, wire up its event handlers and send it to the
+   * lobby. Until its room's match starts, it plays alone.
+   */
+  private handleConnection(socket: Socket): void {
+    const userId = randomUUID();
+    const { stateEncoding } = socket.handshake.auth as ProtocolHandshake;
+    const player = new ServerPlayer(
+      userId,
+      this.allocateNetId(),
+      socket,
+      stateEncoding === "json" ? "json" : "binary"
+    );
+
+    // Tell the new client who it is
+    this.sendWelcome(player, null);
+
+    this.players.set(userId, player);
+    console.log(
+      `[server] ${userId} connected (${this.players.size} online, ${player.stateEncoding} state)`
+    );
+
+    socket.on(GAME_EVENTS.PLAYER.INPUT, (payload: unknown) =>
+      this.handleInputs(player, payload)
+    );
+
+    socket.on(GAME_EVENTS.PLAYER.STATUS, (payload: unknown) =>
+      this.forEachEvent(player, GAME_EVENTS.PLAYER.STATUS, payload, (event) =>
+        this.handleStatus(player, event)
+      )
+    );
+
+    socket.on(GAME_EVENTS.PLAYER.HEALTH, (payload: unknown) =>
+      this.forEachEvent(player, GAME_EVENTS.PLAYER.HEALTH, payload, (event) =>
+        this.handleHealth(player, event)
+      )
+    );
+
+    socket.on(GAME_EVENTS.WEAPON.SHOOT, (payload: unknown) =>
+      this.forEachEvent(player, GAME_EVENTS.WEAPON.SHOOT, payload, (event) =>
+        this.handleShoot(player, event)
+      )
+    );
+
+    for (const eventName of [
+      GAME_EVENTS.WEAPON.RELOAD,
+      GAME_EVENTS.WEAPON.SWITCH,
+      GAME_EVENTS.WEAPON.PICKUP,
+      GAME_EVENTS.WEAPON.DROP,
+      GAME_EVENTS.WEAPON.AIM,
+    ]) {
+      socket.on(eventName, (payload: unknown) =>
+        this.forEachEvent(player, eventName, payload, (event) =>
+          this.handleWeaponEvent(player, eventName, event)
+        )
+      );
+    }
+
+    socket.on(GAME_EVENTS.COMBAT.HIT, (payload: unknown) =>
+      this.forEachEvent(player, GAME_EVENTS.COMBAT.HIT, payload, (event) =>
+        this.handleHitClaim(player, event)
+      )
+    );
+
+    socket.on(GAME_EVENTS.COMBAT.MELEE, (payload: unknown) =>
+      this.forEachEvent(player, GAME_EVENTS.COMBAT.MELEE, payload, (event) =>
+        this.handleMelee(player, event)
+      )
+    );
+
+    socket.on(GAME_EVENTS.GRENADE.THROW, (payload: unknown) =>
+      this.forEachEvent(player, GAME_EVENTS.GRENADE.THROW, payload, (event) =>
+        this.handleGrenadeThrow(player, event)
+      )
+    );
+
+    socket.on(GAME_EVENTS.GRENADE.EXPLODE, (payload: unknown) =>
+      this.forEachEvent(player, GAME_EVENTS.GRENADE.EXPLODE, payload, (event) =>
+        this.handleGrenadeExplode(player, event)
+      )
+    );
+
+    // Positions, damage and kills are decided here, never accepted from clients
+    for (const eventName of [
+      GAME_EVENTS.PLAYER.POSITION,
+      GAME_EVENTS.PLAYER.STATE,
+      GAME_EVENTS.COMBAT.DAMAGE,
+      GAME_EVENTS.COMBAT.KILL,
+    ]) {
+      socket.on(eventName, () => {
+        console.warn(`[server] ${userId} tried to send ${eventName}`);
+      });
+    }
+
+    socket.on("disconnect", () => this.handleDisconnect(player));
+
+    this.lobby.connect(player);
+  }
+
+  /**
+   * Start a room's match: everyone in it begins afresh and learns who
+   * they are playing with
+   */
+  private startMatch(room: Room): void {
+    room.mode.start();
+    for (const player of room.players.values()) {
+      room.mode.addPlayer(player);
+      player.joinMatch(room.mode.getSpawnPosition(player));
+    }
+    for (const player of room.players.values()) {
+      this.sendWelcome(player, room);
+    }
+    room.stats.markChanged();
+  }
+
+  /**
+   * Drop a player into a room's match in progress
+   */
+  private joinMatch(player: ServerPlayer, room: Room): void {
+    room.mode.addPlayer(player);
+    player.joinMatch(room.mode.getSpawnPosition(player));
+    this.sendWelcome(player, room);
+
+    const connected: UserConnectionEvent = {
+      userId: player.id,
+      netId: player.netId,
+      ...player.profile,
+      loadout: player.equipped,
+      message: `${player.profile.name} joined`,
+      timestamp: Date.now(),
+    };
+    this.relay(player, GAME_EVENTS.USER.CONNECTED, connected);
+    room.stats.markChanged();
+  }
+
+  /**
+   * Take a player out of a room's match, while they are still in the room
+   */
+  private leaveMatch(player: ServerPlayer, room: Room): void {
+    for (const other of room.players.values()) {
+      other.stateStream.forget(player.netId);
+    }
+    room.stats.forget(player.id);
+    room.mode.removePlayer(player);
+
+    const disconnected: UserConnectionEvent = {
+      userId: player.id,
+      netId: player.netId,
+      ...player.profile,
+      loadout: player.equipped,
+      message: `${player.profile.name} left`,
+      timestamp: Date.now(),
+    };
+    this.relay(player, GAME_EVENTS.USER.DISCONNECTED, disconnected);
+
+    // Back to playing alone in the lobby
+    if (player.socket.connected) {
+      this.sendWelcome(player, null);
+    }
+  }
+
+  /**
+   * Run each match's rules, send changed match states, and end the
+   * matches that are over
+   */
+  private updateMatches(): void {
+    const now = Date.now();
+    for (const room of this.getPlayingRooms()) {
+      room.mode.update(now);
+
+      const reason = room.mode.getEndReason(now);
+      if (reason) {
+        this.endMatch(room, reason);
+      } else if (room.mode.takeChanges()) {
+        this.broadcast(room, GAME_EVENTS.MATCH.STATE, {
+          ...room.mode.toState(now),
+          timestamp: now,
+        });
+      }
+    }
+  }
+
+  /**
+   * Send everyone the results and take them out of the match, back to
+   * their room's lobby
+   */
+  private endMatch(room: Room, reason: MatchEndEvent["reason"]): void {
+    const results: MatchEndEvent = {
+      mode: room.mode.id,
+      reason,
+      winner: room.mode.getWinner(),
+      players: room.mode.getPlayers(),
+      teams: room.mode.getTeamScores(),
+      stats: room.stats.toScoreboard(room.players.values()),
+      timestamp: Date.now(),
+    };
+    this.broadcast(room, GAME_EVENTS.MATCH.END, results);
+
+    for (const player of room.players.values()) {
+      this.sendWelcome(player, null);
+    }
+    this.lobby.endMatch(room);
+  }
+
+  /**
+   * Tell a client who it is and who else is in its match, if any
+   */
+  private sendWelcome(player: ServerPlayer, room: Room | null): void {
+    const others = room
+      ? Array.from(room.players.values()).filter((p) => p !== player)
+      : [];
+
+    const welcome: UserWelcomeEvent = {
+      userId: player.id,
+      self: player.toSnapshot(),
+      players: others.map((p) => p.toSnapshot()),
+      timestamp: Date.now(),
+    };
+    this.sendTo(player, GAME_EVENTS.USER.WELCOME, welcome, room);
+  }
+
+  /**
+   * Validate a batch of events and run a handler for each valid one.
+   * Only events for the match the player is in are handled.
+   * Handlers return the reason an event was rejected, or null if accepted.
+   */
+  private forEachEvent<K extends GameEventName>(
+    player: ServerPlayer,
+    eventName: K,
+    payload: unknown,
+    handler: (event: GameEventMap[K]) => string | null
+  ): void {
+    const batch = decodeBatch(eventName, payload);
+
+    for (const error of batch.errors) {
+      console.warn(`[server] Dropped ${error} from ${player.id}`);
+    }
+
+    for (const event of batch.events) {
+      const rejection = this.checkRoom(player, event) ?? handler(event);
+      if (rejection) {
+        console.warn(
+          `[server] Rejected ${eventName} from ${player.id} (${rejection}):`,
+          JSON.stringify(event)
+        );
+      }
+    }
+  }
+
+  /**
+   * Why an event can't be played in the player's match, if it can't
+   */
+  private checkRoom(player: ServerPlayer, event: BaseEvent): string | null {
+    if (!player.room?.isPlaying()) return "not in a match";
+    // Sent before the player changed rooms
+    if (event.roomId !== player.room.id) return "wrong room";
+    return null;
+  }
+
+  /**
+   * Apply a batch of movement inputs and acknowledge the last one to the
+   * sender. Everyone else gets the resulting state with the next stream tick.
+   */
+  private handleInputs(player: ServerPlayer, payload: unknown): void {
+    let lastSeq = 0;
+    let corrected = false;
+
+    this.forEachEvent(player, GAME_EVENTS.PLAYER.INPUT, payload, (input) => {
+      player.observeClientTime(input.timestamp);
+
+      // Dead players don't move
+      if (player.isDead) return null;
+      if (input.seq <= player.lastProcessedInput) return "stale input";
+
+      const result = this.movementValidator.validate(player, input);
+      player.moveTo(result.position);
+      player.room?.mode.onMove(player, Date.now());
+      player.rotation = input.rotation;
+      player.crouching = input.crouching;
+      player.lastProcessedInput = input.seq;
+      // The sender's clock, so others can space out its snapshots
+      player.stateTimestamp = input.timestamp;
+
+      lastSeq = input.seq;
+      corrected = result.corrected;
+      return result.reason ?? null;
+    });
+
+    if (lastSeq === 0) return;
+
+    const ack: PlayerInputAckEvent = {
+      seq: lastSeq,
+      position: { ...player.position },
+      corrected,
+      timestamp: Date.now(),
+    };
+    this.sendTo(player, GAME_EVENTS.PLAYER.INPUT_ACK, ack);
+  }
+
+  /**
+   * Stream every player's state to the others in their match
+   */
+  private sendStates(): void {
+    for (const room of this.getPlayingRooms()) {
+      this.sendRoomStates(room);
+    }
+  }
+
+  /**
+   * Send each match's scoreboard to everyone in it, when it changed
+   */
+  private sendScoreboards(): void {
+    for (const room of this.getPlayingRooms()) {
+      if (!room.stats.takeChanges()) continue;
+
+      this.broadcast(room, GAME_EVENTS.MATCH.SCOREBOARD, {
+        players: room.stats.toScoreboard(room.players.values()),
+        timestamp: Date.now(),
+      });
+    }
+  }
+
+  /**
+   * Binary clients get a delta against the last packet they acknowledged;
+   * JSON clients get full states. Either way, players who haven't changed
+   * are left out.
+   */
+  private sendRoomStates(room: Room): void {
+    const states = new Map<number, QuantizedState>();
+    const userIds = new Map<number, string>();
+    for (const player of room.players.values()) {
+      // Nothing to share until the first input arrives
+      if (player.stateTimestamp === 0) continue;
+      states.set(player.netId, quantizeState(player.toPositionEvent()));
+      userIds.set(player.netId, player.id);
+    }
+
+    for (const recipient of room.players.values()) {
+      const others = new Map(states);
+      others.delete(recipient.netId);
+
+      const stream = recipient.stateStream;
+      const changed = stream.collect(others);
+      if (changed.size === 0) continue;
+
+      if (recipient.stateEncoding === "json") {
+        const events: RemoteEvent<PlayerPositionEvent>[] = [];
+        for (const [netId, state] of changed) {
+          const userId = userIds.get(netId);
+          if (userId) {
+            events.push({ ...dequantizeState(state), userId, roomId: room.id });
+          }
+        }
+        recipient.socket.emit(GAME_EVENTS.PLAYER.POSITION, encodeBatch(events));
+        continue;
+      }
+
+      const packet = stream.encode(changed);
+      recipient.socket.emit(
+        GAME_EVENTS.PLAYER.STATE,
+        packet.bytes,
+        (decoded: unknown) => stream.acknowledge(packet.seq, decoded === true)
+      );
+    }
+  }
+
+  private handleStatus(
+    player: ServerPlayer,
+    event: PlayerStatusEvent
+  ): string | null {
+    const { room } = player;
+    if (!room) return "not in a match";
+
+    if (event.status === "alive") {
+      if (!player.isDead) return null;
+
+      const now = Date.now();
+      const delay = SPAWN.respawnDelaySeconds * 1000 * RESPAWN_DELAY_LEEWAY;
+      if (now - player.diedAt < delay) return "respawned too early";
+
+      // After evening out the teams, the player comes back at the spawn
+      // they picked if the mode allows it there, or where the mode picks.
+      // Everyone (the player included) is told.
+      room.mode.balanceTeams(player);
+      const position =
+        event.position && room.mode.isSpawnPoint(player, event.position)
+          ? { ...event.position }
+          : room.mode.getSpawnPosition(player);
+      player.respawn(position);
+      player.spawnProtectedUntil = now + SPAWN.protectionSeconds * 1000;
+      const respawned: RemoteEvent<PlayerStatusEvent> = {
+        userId: player.id,
+        status: "alive",
+        position,
+        loadout: player.equipped,
+        timestamp: now,
+      };
+      this.broadcast(room, GAME_EVENTS.PLAYER.STATUS, respawned);
+      return null;
+    }
+
+    // Players may report their own death (e.g. run over by a car)
+    if (player.isDead) return null;
+    this.recordOwnDeath(player, room);
+
+    this.relay(player, GAME_EVENTS.PLAYER.STATUS, event);
+    return null;
+  }
+
+  /**
+   * A death no other player caused
+   */
+  private recordOwnDeath(player: ServerPlayer, room: Room): void {
+    player.die();
+    room.stats.recordDeath(player.id);
+    room.mode.onDeath(player);
+  }
+
+  /**
+   * Apply health changes from pickups and the environment, which only the
+   * client knows about, to our own view of the player's health. Heals are
+   * held to what a pickup could give.
+   */
+  private handleHealth(
+    player: ServerPlayer,
+    event: PlayerHealthEvent
+  ): string | null {
+    const { room } = player;
+    if (!room) return "not in a match";
+    if (player.isDead) return "player is dead";
+
+    const now = Date.now();
+    if (event.reason === "heal") {
+      if (event.amount > HEALTH_PICKUP.maxHeal) {
+        return "heal larger than any pickup";
+      }
+      const interval = now - player.lastHealAt;
+      if (
+        interval <
+        HEALTH_PICKUP.intervalSeconds * 1000 * HEAL_INTERVAL_LEEWAY
+      ) {
+        return "healing faster than pickups allow";
+      }
+      player.lastHealAt = now;
+      player.health = Math.min(MAX_HEALTH, player.health + event.amount);
+    } else {
+      const damage = Math.min(player.health, event.amount);
+      room.stats.recordDamage(null, player.id, damage);
+      player.health -= damage;
+    }
+
+    // Hits the client hadn't heard of yet may leave nothing for the
+    // environment, so everyone (the player included) is told they died
+    if (player.health <= 0) {
+      this.recordOwnDeath(player, room);
+      const died: RemoteEvent<PlayerStatusEvent> = {
+        userId: player.id,
+        status: "dead",
+        timestamp: now,
+      };
+      this.broadcast(room, GAME_EVENTS.PLAYER.STATUS, died);
+      return null;
+    }
+
+    this.relay(player, GAME_EVENTS.PLAYER.HEALTH, {
+      ...event,
+      health: player.health,
+    });
+    return null;
+  }
+
+  private handleShoot(player: ServerPlayer, event: WeaponEvent): string | null {
+    if (event.action !== "shoot") return "not a shoot action";
+    if (!event.data?.position || !event.data?.direction) {
+      return "missing position or direction";
+    }
+    if (player.isDead) return "shooter is dead";
+
+    const stats = getWeaponStats(
+      event.weaponType,
+      player.getAttachments(event.weaponType)
+    );
+    if (!stats) return `unknown weapon ${event.weaponType}`;
+    if (!player.carries(event.weaponType)) {
+      return `not carrying ${event.weaponType}`;
+    }
+
+    // Enforce the weapon's fire rate on our own clock
+    if (!player.shots.spend(stats.fireRate * FIRE_RATE_LEEWAY)) {
+      return "firing faster than the weapon allows";
+    }
+
+    player.weaponType = event.weaponType;
+    // Firing gives up spawn protection
+    player.spawnProtectedUntil = 0;
+    player.room?.stats.recordShot(player.id, stats.pellets);
+
+    // Every bullet fired earns the right to claim one hit
+    const credits = player.hitCredits.get(event.weaponType) ?? 0;
+    player.hitCredits.set(
+      event.weaponType,
+      Math.min(credits + stats.pellets, stats.pellets * 5)
+    );
+
+    this.relay(player, GAME_EVENTS.WEAPON.SHOOT, event);
+    return null;
+  }
+
+  private handleWeaponEvent(
+    player: ServerPlayer,
+    eventName: GameEventName,
+    event: WeaponEvent
+  ): string | null {
+    if (event.action === "switch") {
+      if (!player.carries(event.weaponType)) {
+        return `not carrying ${event.weaponType}`;
+      }
+      player.weaponType = event.weaponType;
+    }
+
+    this.relay(player, eventName, event);
+    return null;
+  }
+
+  /**
+   * Decide whether a shooter's hit claim stands, and apply its damage
+   */
+  private handleHitClaim(
+    shooter: ServerPlayer,
+    claim: CombatEvent
+  ): string | null {
+    if (claim.type !== "hit") return "not a hit claim";
+
+    const target = shooter.room?.players.get(claim.targetId);
+    if (!target) return "unknown target";
+
+    const verdict = this.hitValidator.validate(shooter, target, claim);
+    if (!verdict.valid) return verdict.reason;
+    if (target.isSpawnProtected()) return "target is spawn protected";
+
+    const damageScale = this.getDamageScale(shooter, target);
+    if (damageScale === 0) return "friendly fire is off";
+
+    const { weaponType } = verdict;
+    shooter.hitCredits.set(
+      weaponType,
+      (shooter.hitCredits.get(weaponType) ?? 0) - 1
+    );
+    shooter.room?.stats.recordHit(shooter.id);
+    this.applyDamage(
+      shooter,
+      target,
+      Math.round(verdict.damage * damageScale),
+      {
+        headshot: verdict.zone === "head",
+        wallbang: claim.wallbang === true,
+      },
+      weaponType
+    );
+    return null;
+  }
+
+  /**
+   * Pass a knife swing on for everyone to see, and decide whether the
+   * player the attacker saw it strike was in reach
+   */
+  private handleMelee(
+    attacker: ServerPlayer,
+    swing: MeleeSwingEvent
+  ): string | null {
+    if (attacker.isDead) return "attacker is dead";
+
+    // Swings are spaced out like shots, on our own clock
+    if (!attacker.swings.spend(KNIFE.swingInterval * FIRE_RATE_LEEWAY)) {
+      return "swinging faster than allowed";
+    }
+
+    attacker.weaponType = KNIFE.name;
+    // Swinging gives up spawn protection, like firing
+    attacker.spawnProtectedUntil = 0;
+    this.relay(attacker, GAME_EVENTS.COMBAT.MELEE, swing);
+
+    if (swing.targetId === null) return null;
+    const target = attacker.room?.players.get(swing.targetId);
+    if (!target) return "unknown target";
+
+    const verdict = this.hitValidator.validateMelee(
+      attacker,
+      target,
+      swing.direction
+    );
+    if (!verdict.valid) return verdict.reason;
+    if (target.isSpawnProtected()) return "target is spawn protected";
+
+    const damageScale = this.getDamageScale(attacker, target);
+    if (damageScale === 0) return "friendly fire is off";
+
+    this.applyDamage(
+      attacker,
+      target,
+      Math.round(verdict.damage * damageScale),
+      { backstab: verdict.backstab },
+      KNIFE.name
+    );
+    return null;
+  }
+
+  /**
+   * Accept a thrown grenade if the thrower has one left and could have
+   * thrown it like that, and remember it until it goes off
+   */
+  private handleGrenadeThrow(
+    player: ServerPlayer,
+    event: GrenadeThrowEvent
+  ): string | null {
+    if (player.isDead) return "thrower is dead";
+    if (player.grenadesLeft <= 0) return "no grenades left";
+    if (player.liveGrenades.has(event.grenadeId))
+      return "grenade already thrown";
+
+    const { position, velocity } = event;
+    const speed = Math.hypot(velocity.x, velocity.y, velocity.z);
+    if (speed > GRENADE.maxThrowSpeed * THROW_SPEED_LEEWAY) {
+      return "thrown too hard";
+    }
+    const reach = Math.hypot(
+      position.x - player.position.x,
+      position.y - player.position.y,
+      position.z - player.position.z
+    );
+    if (reach > THROW_REACH) return "thrown from too far away";
+
+    // Throws are spaced out like shots, on our own clock. Checked last, so
+    // a rejected throw doesn't use up the time for the next one.
+    if (!player.throws.spend(GRENADE.throwInterval * FIRE_RATE_LEEWAY)) {
+      return "throwing faster than allowed";
+    }
+
+    player.grenadesLeft--;
+    player.liveGrenades.set(event.grenadeId, {
+      thrownAt: Date.now(),
+      position: { ...position },
+    });
+    // Throwing gives up spawn protection, like firing
+    player.spawnProtectedUntil = 0;
+
+    this.relay(player, GAME_EVENTS.GRENADE.THROW, event);
+    return null;
+  }
+
+  /**
+   * Set off a grenade where its thrower saw it go off: everyone near it
+   * may be pushed away, the players the thrower saw it reach are hurt,
+   * and everyone else sees the explosion
+   */
+  private handleGrenadeExplode(
+    player: ServerPlayer,
+    event: GrenadeExplodeEvent
+  ): string | null {
+    const grenade = player.liveGrenades.get(event.grenadeId);
+    if (!grenade) return "unknown grenade";
+    player.liveGrenades.delete(event.grenadeId);
+
+    const now = Date.now();
+    if (now - grenade.thrownAt < GRENADE.fuseSeconds * 1000 * FUSE_LEEWAY) {
+      return "went off before its fuse burnt";
+    }
+
+    // No grenade flies faster than it was thrown
+    const center = event.position;
+    const travelled = Math.hypot(
+      center.x - grenade.position.x,
+      center.y - grenade.position.y,
+      center.z - grenade.position.z
+    );
+    const maxTravel =
+      GRENADE.maxThrowSpeed * THROW_SPEED_LEEWAY * GRENADE.fuseSeconds;
+    if (travelled > maxTravel) return "went off out of reach";
+
+    const { room } = player;
+    if (!room) return "not in a match";
+
+    // Cover or not, the blast may push anyone near it around
+    for (const other of room.players.values()) {
+      const distance = Math.hypot(
+        other.position.x - center.x,
+        other.position.y - center.y,
+        other.position.z - center.z
+      );
+      if (distance <= GRENADE.blastRadius + BLAST_SLACK) {
+        other.allowKnockback(GRENADE.knockback, now);
+      }
+    }
+
+    for (const targetId of new Set(event.targetIds)) {
+      const rejection = this.applyBlast(player, targetId, center, now);
+      if (rejection) {
+        console.warn(
+          `[server] Blast from ${player.id} spared ${targetId} (${rejection})`
+        );
+      }
+    }
+
+    this.relay(player, GAME_EVENTS.GRENADE.EXPLODE, event);
+    return null;
+  }
+
+  /**
+   * Hurt a player the thrower claims a blast reached, if it could have
+   * @returns Why the player was spared, or null if they were hurt
+   */
+  private applyBlast(
+    thrower: ServerPlayer,
+    targetId: string,
+    center: { x: number; y: number; z: number },
+    now: number
+  ): string | null {
+    // Throwers are only pushed by their own grenades
+    if (targetId === thrower.id) return "thrower's own grenade";
+
+    const target = thrower.room?.players.get(targetId);
+    if (!target) return "unknown target";
+
+    const verdict = this.hitValidator.validateBlast(target, center, now);
+    if (!verdict.valid) return verdict.reason;
+    if (target.isSpawnProtected(now)) return "target is spawn protected";
+
+    const damageScale = this.getDamageScale(thrower, target);
+    if (damageScale === 0) return "friendly fire is off";
+
+    this.applyDamage(
+      thrower,
+      target,
+      Math.round(verdict.damage * damageScale),
+      {},
+      GRENADE.name
+    );
+    return null;
+  }
+
+  /**
+   * Share of the damage a target takes from a source: teammates take only
+   * the room's share of friendly fire
+   */
+  private getDamageScale(source: ServerPlayer, target: ServerPlayer): number {
+    const { room } = target;
+    return room && room.mode.areTeammates(source.id, target.id)
+      ? FRIENDLY_FIRE[room.friendlyFire].damageScale
+      : 1;
+  }
+
+  /**
+   * Apply damage, count it in the match stats and broadcast the result to
+   * everyone in the match
+   * @param weaponType What dealt the damage, the source's weapon by default
+   */
+  private applyDamage(
+    source: ServerPlayer,
+    target: ServerPlayer,
+    damage: number,
+    hit: Pick<CombatEvent, "headshot" | "wallbang" | "backstab">,
+    weaponType = source.weaponType
+  ): void {
+    const { room } = target;
+    if (!room) return;
+
+    const healthBefore = target.health;
+    const killed = target.applyDamage(damage);
+    const timestamp = Date.now();
+
+    // Hurting a teammate earns nothing: no damage dealt, no assists, and
+    // no kill, but it still costs them the health and the death
+    const friendly = room.mode.areTeammates(source.id, target.id);
+    room.stats.recordDamage(
+      friendly ? null : source.id,
+      target.id,
+      healthBefore - target.health,
+      timestamp
+    );
+    if (killed) {
+      if (friendly) {
+        room.stats.recordDeath(target.id);
+      } else {
+        room.stats.recordKill(source.id, target.id, timestamp);
+      }
+      room.mode.onKill(source, target);
+      room.mode.onDeath(target);
+    }
+
+    const damageEvent: CombatEvent = {
+      type: "damage",
+      sourceId: source.id,
+      targetId: target.id,
+      damage,
+      health: target.health,
+      weaponType,
+      ...hit,
+      timestamp,
+    };
+    this.broadcast(room, GAME_EVENTS.COMBAT.DAMAGE, damageEvent);
+
+    if (killed) {
+      const killEvent: CombatEvent = {
+        type: "kill",
+        sourceId: source.id,
+        targetId: target.id,
+        weaponType,
+        ...hit,
+        position: { ...target.position },
+        timestamp,
+      };
+      this.broadcast(room, GAME_EVENTS.COMBAT.KILL, killEvent);
+
+      const deathEvent: RemoteEvent<PlayerStatusEvent> = {
+        userId: target.id,
+        status: "dead",
+        position: { ...target.position },
+        timestamp,
+      };
+      this.broadcast(room, GAME_EVENTS.PLAYER.STATUS, deathEvent);
+    }
+  }
+
+  private handleDisconnect(player: ServerPlayer): void {
+    this.lobby.disconnect(player);
+    this.players.delete(player.id);
+    console.log(
+      `[server] ${player.id} disconnected (${this.players.size} online)`
+    );
+  }
+
+  /**
+   * Send an event to a single client, scoped to a room (their own by default)
+   */
+  private sendTo<K extends GameEventName>(
+    player: ServerPlayer,
+    eventName: K,
+    event: GameEventMap[K],
+    room: Room | null = player.room
+  ): void {
+    player.socket.emit(eventName, encodeBatch({ ...event, roomId: room?.id }));
+  }
+
+  /**
+   * Send an event to everyone in a room's match
+   */
+  private broadcast<K extends GameEventName>(
+    room: Room,
+    eventName: K,
+    event: GameEventMap[K]
+  ): void {
+    this.io
+      .to(room.id)
+      .emit(eventName, encodeBatch({ ...event, roomId: room.id }));
+  }
+
+  /**
+   * Forward a validated event to everyone else in the sender's match,
+   * tagged with its sender
+   */
+  private relay<K extends GameEventName>(
+    player: ServerPlayer,
+    eventName: K,
+    event: GameEventMap[K]
+  ): void {
+    if (!player.room) return;
+    const remoteEvent: RemoteEvent<GameEventMap[K]> = {
+      ...event,
+      userId: player.id,
+    };
+    remoteEvent.roomId = player.room.id;
+    player.socket.to(player.room.id).emit(eventName, encodeBatch(remoteEvent));
+  }
+
+  /**
+   * Rooms with a match going on
+   */
+  private getPlayingRooms(): Set<Room> {
+    const rooms = new Set<Room>();
+    for (const player of this.players.values()) {
+      if (player.room?.isPlaying()) rooms.add(player.room);
+    }
+    return rooms;
+  }
+
+  /**
+   * Pick the next free net id, wrapping around when they run out
+   */
+  private allocateNetId(): number {
+    const inUse = new Set(
+      Array.from(this.players.values()).map((player) => player.netId)
+    );
+    do {
+      this.lastNetId = this.lastNetId >= MAX_NET_ID ? 1 : this.lastNetId + 1;
+    } while (inUse.has(this.lastNetId));
+    return this.lastNetId;
+  }
+}
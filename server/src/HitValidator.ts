@@ -0,0 +1,253 @@
+import type { CombatEvent } from "../../src/events/types";
+import { getHitDamage, getHitZone } from "../../src/weapons/damage";
+import type { HitZone } from "../../src/weapons/damage";
+import { GRENADE, getBlastDamage } from "../../src/weapons/grenades";
+import {
+  getMeleeDamage,
+  isBackstab,
+  isInMeleeReach,
+} from "../../src/weapons/melee";
+import { getPenetrationDamageScale } from "../../src/weapons/surfaceMaterials";
+import type { PositionSample } from "./PositionHistory";
+import type { ServerPlayer } from "./ServerPlayer";
+import { getWeaponStats } from "./weapons";
+
+/**
+ * Player hitbox, matching PLAYER_DIMENSIONS on the client
+ */
+const HITBOX = { width: 1, height: 2, depth: 1 };
+
+export interface HitValidatorOptions {
+  maxRewind: number; // How far back (ms) targets may be rewound for a shot
+  tolerance: number; // Slack (units) around a hitbox to absorb jitter
+}
+
+type Rejection = { valid: false; reason: string };
+
+export type HitVerdict =
+  | { valid: true; damage: number; zone: HitZone; weaponType: string }
+  | Rejection;
+
+export type BlastVerdict = { valid: true; damage: number } | Rejection;
+
+export type MeleeVerdict =
+  { valid: true; damage: number; backstab: boolean } | Rejection;
+
+type Point = { x: number; y: number; z: number };
+
+/**
+ * Checks a shooter's hit claim against where the target was when the shot
+ * was fired. Clients only see remote players after a network delay, so a
+ * fair hit may land on a spot the target left a few hundred milliseconds ago.
+ */
+export class HitValidator {
+  private maxRewind: number;
+  private tolerance: number;
+
+  constructor(options?: Partial<HitValidatorOptions>) {
+    this.maxRewind = options?.maxRewind ?? 1000;
+    this.tolerance = options?.tolerance ?? 0.5;
+  }
+
+  public validate(
+    shooter: ServerPlayer,
+    target: ServerPlayer,
+    claim: Omit<CombatEvent, "sourceId">,
+    now = Date.now()
+  ): HitVerdict {
+    if (target === shooter) return this.reject("shooter targeted itself");
+    if (shooter.isDead) return this.reject("shooter is dead");
+    if (target.isDead) return this.reject("target is already dead");
+    const impact = claim.position;
+    if (!impact) return this.reject("missing impact position");
+
+    // Judge the hit by the weapon that fired it, which may no longer be
+    // the one in hand
+    const { weaponType } = claim;
+    if (!weaponType) return this.reject("missing weapon");
+    if (!shooter.carries(weaponType)) {
+      return this.reject(`not carrying ${weaponType}`);
+    }
+    if ((shooter.hitCredits.get(weaponType) ?? 0) <= 0) {
+      return this.reject("no shots left to claim");
+    }
+
+    const stats = getWeaponStats(
+      weaponType,
+      shooter.getAttachments(weaponType)
+    );
+    if (!stats) return this.reject(`unknown weapon ${weaponType}`);
+
+    // Rewind to the shooter's fire time, but never further than maxRewind.
+    // The shooter saw targets as they were some time before firing, so
+    // anywhere the target was between the window start and the shot counts.
+    const fireTime = Math.min(now, shooter.toServerTime(claim.timestamp, now));
+    const since = now - this.maxRewind;
+    if (fireTime < since) return this.reject("shot is too old to rewind");
+
+    // The impact point must lie on a hitbox the target occupied by then
+    const targetSamples = target.history.getSamplesBetween(since, fireTime);
+    const center = this.findCenterOnPath(impact, targetSamples);
+    if (!center) {
+      return this.reject("impact point not near target's recent positions");
+    }
+
+    // And be within bullet range of somewhere the shooter recently stood.
+    // Damage falls off from the closest of those.
+    const shooterSamples = shooter.history.getSamplesBetween(since, fireTime);
+    const origins =
+      shooterSamples.length > 0 ? shooterSamples : [shooter.position];
+    const distance = Math.min(
+      ...origins.map((origin) => this.distance(origin, impact))
+    );
+    if (distance > stats.range + this.tolerance) {
+      return this.reject("target out of range");
+    }
+
+    // Where on the body the hit landed decides how much it hurts, less
+    // for any cover the bullet went through first, in whole points of health
+    const feet = center.y - HITBOX.height / 2;
+    const zone = getHitZone((impact.y - feet) / HITBOX.height);
+    const damage = Math.round(
+      getHitDamage(stats, distance, zone) *
+        getPenetrationDamageScale(claim.penetrated ?? [])
+    );
+    return { valid: true, damage, zone, weaponType };
+  }
+
+  /**
+   * Check that a grenade blast reached a target: they must have been within
+   * its radius at some point in the last maxRewind ms. Whether cover stood
+   * in the way was up to the thrower's client, which knows the level.
+   */
+  public validateBlast(
+    target: ServerPlayer,
+    center: Point,
+    now = Date.now()
+  ): BlastVerdict {
+    if (target.isDead) return this.reject("target is already dead");
+
+    const samples = target.history.getSamplesBetween(now - this.maxRewind, now);
+    const path = samples.length > 0 ? samples : [target.position];
+    const distance = this.distanceToPath(center, path);
+    if (distance > GRENADE.blastRadius + this.tolerance) {
+      return this.reject("target out of the blast");
+    }
+
+    const damage = getBlastDamage(Math.min(distance, GRENADE.blastRadius));
+    return { valid: true, damage: Math.round(damage) };
+  }
+
+  /**
+   * Check that a knife swing reached a target: somewhere the attacker
+   * recently stood must have had the target in reach along the swing.
+   * Whether it was a backstab is decided by the way the target faces now.
+   */
+  public validateMelee(
+    attacker: ServerPlayer,
+    target: ServerPlayer,
+    direction: Point,
+    now = Date.now()
+  ): MeleeVerdict {
+    if (target === attacker) return this.reject("attacker targeted itself");
+    if (attacker.isDead) return this.reject("attacker is dead");
+    if (target.isDead) return this.reject("target is already dead");
+
+    const since = now - this.maxRewind;
+    const attackerSamples = attacker.history.getSamplesBetween(since, now);
+    const targetSamples = target.history.getSamplesBetween(since, now);
+    const origins = [...attackerSamples, attacker.position];
+    const positions = [...targetSamples, target.position];
+
+    const origin = origins.find((from) =>
+      positions.some((to) =>
+        isInMeleeReach(from, to, direction, this.tolerance)
+      )
+    );
+    if (!origin) return this.reject("target out of reach");
+
+    const backstab = isBackstab(origin, target.position, target.rotation);
+    return { valid: true, damage: getMeleeDamage(backstab), backstab };
+  }
+
+  /**
+   * Closest a target came to a point along its path
+   */
+  private distanceToPath(point: Point, samples: Point[]): number {
+    if (samples.length === 1) return this.distance(point, samples[0]);
+
+    let closest = Infinity;
+    for (let i = 1; i < samples.length; i++) {
+      const onPath = this.closestPointOnSegment(
+        point,
+        samples[i - 1],
+        samples[i]
+      );
+      closest = Math.min(closest, this.distance(point, onPath));
+    }
+    return closest;
+  }
+
+  /**
+   * Check a point against the hitbox swept along the target's path, and
+   * find where the hitbox was centered when it took the point.
+   * Positions arrive every 100ms, so the target also occupied the space
+   * between two consecutive samples.
+   */
+  private findCenterOnPath(
+    point: Point,
+    samples: PositionSample[]
+  ): Point | null {
+    if (samples.length === 1) {
+      return this.isInsideHitbox(point, samples[0]) ? samples[0] : null;
+    }
+
+    for (let i = 1; i < samples.length; i++) {
+      const center = this.closestPointOnSegment(
+        point,
+        samples[i - 1],
+        samples[i]
+      );
+      if (this.isInsideHitbox(point, center)) {
+        return center;
+      }
+    }
+    return null;
+  }
+
+  private closestPointOnSegment(point: Point, a: Point, b: Point): Point {
+    const abx = b.x - a.x;
+    const aby = b.y - a.y;
+    const abz = b.z - a.z;
+    const lengthSq = abx * abx + aby * aby + abz * abz;
+    if (lengthSq === 0) return a;
+
+    const t = Math.max(
+      0,
+      Math.min(
+        1,
+        ((point.x - a.x) * abx +
+          (point.y - a.y) * aby +
+          (point.z - a.z) * abz) /
+          lengthSq
+      )
+    );
+    return { x: a.x + abx * t, y: a.y + aby * t, z: a.z + abz * t };
+  }
+
+  private isInsideHitbox(point: Point, center: Point): boolean {
+    return (
+      Math.abs(point.x - center.x) <= HITBOX.width / 2 + this.tolerance &&
+      Math.abs(point.y - center.y) <= HITBOX.height / 2 + this.tolerance &&
+      Math.abs(point.z - center.z) <= HITBOX.depth / 2 + this.tolerance
+    );
+  }
+
+  private distance(a: Point, b: Point): number {
+    return Math.sqrt((a.x - b.x) ** 2 + (a.y - b.y) ** 2 + (a.z - b.z) ** 2);
+  }
+
+  private reject(reason: string): Rejection {
+    return { valid: false, reason };
+  }
+}
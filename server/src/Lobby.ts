@@ -0,0 +1,303 @@
+import { randomUUID } from "node:crypto";
+import type { Server } from "socket.io";
+import { GAME_EVENTS } from "../../src/events/constants";
+import { decodeBatch, encodeBatch } from "../../src/events/protocol";
+import type { GameEventMap, GameEventName } from "../../src/events/protocol";
+import type {
+  LobbyCreateEvent,
+  LobbyJoinEvent,
+  LobbyLoadoutEvent,
+  LobbyProfileEvent,
+  LobbyReadyEvent,
+  RoomSummary,
+} from "../../src/events/types";
+import { isLoadoutAllowed } from "../../src/weapons/loadouts";
+import { Room } from "./Room";
+import type { ServerPlayer } from "./ServerPlayer";
+
+/**
+ * socket.io room holding every player who isn't in a game room
+ */
+const LOBBY_CHANNEL = "lobby";
+
+/**
+ * How the game server learns that a player enters or leaves a match
+ */
+export interface LobbyHooks {
+  onMatchStart(room: Room): void;
+  onMatchJoin(player: ServerPlayer, room: Room): void;
+  onMatchLeave(player: ServerPlayer, room: Room): void;
+}
+
+/**
+ * Where players wait between matches. Keeps the list of rooms, lets
+ * players set their profile, create, join and leave rooms and ready up,
+ * and hands them to the game server once their room's match is on.
+ */
+export class Lobby {
+  private rooms: Map<string, Room> = new Map();
+
+  constructor(
+    private io: Server,
+    private hooks: LobbyHooks
+  ) {}
+
+  /**
+   * Put a newly connected player in the lobby and wire up its requests
+   */
+  public connect(player: ServerPlayer): void {
+    const { socket } = player;
+    socket.join(LOBBY_CHANNEL);
+
+    socket.on(GAME_EVENTS.LOBBY.PROFILE, (payload: unknown) =>
+      this.forEachRequest(player, GAME_EVENTS.LOBBY.PROFILE, payload, (event) =>
+        this.handleProfile(player, event)
+      )
+    );
+    socket.on(GAME_EVENTS.LOBBY.LOADOUT, (payload: unknown) =>
+      this.forEachRequest(player, GAME_EVENTS.LOBBY.LOADOUT, payload, (event) =>
+        this.handleLoadout(player, event)
+      )
+    );
+    socket.on(GAME_EVENTS.LOBBY.CREATE, (payload: unknown) =>
+      this.forEachRequest(player, GAME_EVENTS.LOBBY.CREATE, payload, (event) =>
+        this.handleCreate(player, event)
+      )
+    );
+    socket.on(GAME_EVENTS.LOBBY.JOIN, (payload: unknown) =>
+      this.forEachRequest(player, GAME_EVENTS.LOBBY.JOIN, payload, (event) =>
+        this.handleJoin(player, event)
+      )
+    );
+    socket.on(GAME_EVENTS.LOBBY.LEAVE, (payload: unknown) =>
+      this.forEachRequest(player, GAME_EVENTS.LOBBY.LEAVE, payload, () =>
+        this.handleLeave(player)
+      )
+    );
+    socket.on(GAME_EVENTS.LOBBY.READY, (payload: unknown) =>
+      this.forEachRequest(player, GAME_EVENTS.LOBBY.READY, payload, (event) =>
+        this.handleReady(player, event)
+      )
+    );
+
+    this.sendTo(player, GAME_EVENTS.LOBBY.ROOMS, { rooms: this.listRooms() });
+  }
+
+  /**
+   * Take a player who lost their connection out of their room
+   */
+  public disconnect(player: ServerPlayer): void {
+    if (player.room) {
+      this.leaveRoom(player, player.room);
+    }
+  }
+
+  /**
+   * The match is over, so the room goes back to waiting for everyone to
+   * ready up
+   */
+  public endMatch(room: Room): void {
+    console.log(`[lobby] Match in room ${room.id} ended`);
+    room.end();
+    this.sendRoom(room);
+    this.sendRoomList();
+  }
+
+  /**
+   * Validate a batch of lobby requests and handle each valid one.
+   * Handlers return the reason a request was turned down, or null.
+   */
+  private forEachRequest<K extends GameEventName>(
+    player: ServerPlayer,
+    eventName: K,
+    payload: unknown,
+    handler: (event: GameEventMap[K]) => string | null
+  ): void {
+    const batch = decodeBatch(eventName, payload);
+
+    for (const error of batch.errors) {
+      console.warn(`[lobby] Dropped ${error} from ${player.id}`);
+    }
+
+    for (const event of batch.events) {
+      const rejection = handler(event);
+      if (rejection) {
+        console.warn(
+          `[lobby] Rejected ${eventName} from ${player.id} (${rejection})`
+        );
+        this.sendTo(player, GAME_EVENTS.LOBBY.ERROR, { message: rejection });
+      }
+    }
+  }
+
+  private handleProfile(
+    player: ServerPlayer,
+    event: LobbyProfileEvent
+  ): string | null {
+    // Others in the match already know us by the old one
+    if (player.room?.isPlaying()) return "can't change profile during a match";
+
+    player.profile = { name: event.name, color: event.color };
+    if (player.room) {
+      this.sendRoom(player.room);
+    }
+    return null;
+  }
+
+  /**
+   * Pick the loadout to spawn with. During a match it applies from the
+   * next respawn.
+   */
+  private handleLoadout(
+    player: ServerPlayer,
+    event: LobbyLoadoutEvent
+  ): string | null {
+    if (!isLoadoutAllowed(event.loadout)) return "loadout not allowed";
+
+    player.loadout = event.loadout;
+    return null;
+  }
+
+  private handleCreate(
+    player: ServerPlayer,
+    event: LobbyCreateEvent
+  ): string | null {
+    if (player.room) return "already in a room";
+
+    const room = new Room(
+      randomUUID().slice(0, 8),
+      event.name,
+      event.maxPlayers,
+      event.mode,
+      event.friendlyFire,
+      (started) => this.startMatch(started)
+    );
+    this.rooms.set(room.id, room);
+    console.log(
+      `[lobby] ${player.id} created ${room.modeId} room ${room.id} "${room.name}"`
+    );
+
+    this.joinRoom(player, room);
+    return null;
+  }
+
+  private handleJoin(
+    player: ServerPlayer,
+    event: LobbyJoinEvent
+  ): string | null {
+    if (player.room) return "already in a room";
+
+    const room = this.rooms.get(event.id);
+    if (!room) return "that room no longer exists";
+    if (room.isFull()) return "that room is full";
+
+    this.joinRoom(player, room);
+    return null;
+  }
+
+  private handleLeave(player: ServerPlayer): string | null {
+    if (!player.room) return "not in a room";
+
+    this.leaveRoom(player, player.room);
+    return null;
+  }
+
+  private handleReady(
+    player: ServerPlayer,
+    event: LobbyReadyEvent
+  ): string | null {
+    const { room } = player;
+    if (!room) return "not in a room";
+    if (room.isPlaying()) return "match already started";
+
+    room.setReady(player, event.ready);
+    this.sendRoom(room);
+    this.sendRoomList();
+    return null;
+  }
+
+  private joinRoom(player: ServerPlayer, room: Room): void {
+    room.add(player);
+    player.socket.leave(LOBBY_CHANNEL);
+    player.socket.join(room.id);
+    // Before anything scoped to the room, which the client drops until then
+    this.sendRoom(room);
+
+    // Matches in progress can be dropped into straight away
+    if (room.isPlaying()) {
+      this.hooks.onMatchJoin(player, room);
+    }
+    this.sendRoomList();
+  }
+
+  private leaveRoom(player: ServerPlayer, room: Room): void {
+    if (room.isPlaying()) {
+      this.hooks.onMatchLeave(player, room);
+    }
+
+    room.remove(player);
+    player.socket.leave(room.id);
+    player.socket.join(LOBBY_CHANNEL);
+    this.sendTo(player, GAME_EVENTS.LOBBY.ROOM, { room: null });
+
+    if (room.isEmpty()) {
+      room.dispose();
+      this.rooms.delete(room.id);
+      console.log(`[lobby] Closed empty room ${room.id}`);
+    } else {
+      this.sendRoom(room);
+    }
+    this.sendRoomList();
+  }
+
+  /**
+   * The countdown ran out, so everyone in the room enters the match
+   */
+  private startMatch(room: Room): void {
+    console.log(
+      `[lobby] Match in room ${room.id} started with ${room.players.size} players`
+    );
+    this.hooks.onMatchStart(room);
+    this.sendRoom(room);
+    this.sendRoomList();
+  }
+
+  private listRooms(): RoomSummary[] {
+    return Array.from(this.rooms.values()).map((room) => room.toSummary());
+  }
+
+  /**
+   * Tell everyone in a room how it looks now
+   */
+  private sendRoom(room: Room): void {
+    this.io
+      .to(room.id)
+      .emit(
+        GAME_EVENTS.LOBBY.ROOM,
+        encodeBatch({ room: room.toDetails(), timestamp: Date.now() })
+      );
+  }
+
+  /**
+   * Tell everyone browsing the lobby which rooms there are
+   */
+  private sendRoomList(): void {
+    this.io
+      .to(LOBBY_CHANNEL)
+      .emit(
+        GAME_EVENTS.LOBBY.ROOMS,
+        encodeBatch({ rooms: this.listRooms(), timestamp: Date.now() })
+      );
+  }
+
+  private sendTo<K extends GameEventName>(
+    player: ServerPlayer,
+    eventName: K,
+    event: Omit<GameEventMap[K], "timestamp">
+  ): void {
+    player.socket.emit(
+      eventName,
+      encodeBatch({ ...event, timestamp: Date.now() })
+    );
+  }
+}
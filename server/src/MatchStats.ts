@@ -0,0 +1,158 @@
+import type { PlayerStats } from "../../src/events/types";
+import type { ServerPlayer } from "./ServerPlayer";
+
+/**
+ * Points for each kill and assist
+ */
+const KILL_SCORE = 100;
+const ASSIST_SCORE = 50;
+
+/**
+ * How long (ms) damage to a player still earns an assist if they die
+ */
+const ASSIST_WINDOW = 10000;
+
+type StatLine = Omit<PlayerStats, "userId" | "name" | "color" | "score">;
+
+function emptyLine(): StatLine {
+  return {
+    kills: 0,
+    deaths: 0,
+    assists: 0,
+    damageDealt: 0,
+    damageTaken: 0,
+    shotsFired: 0,
+    shotsHit: 0,
+  };
+}
+
+/**
+ * Kills, deaths, assists, damage and accuracy for one match, built from
+ * the combat the server decides
+ */
+export class MatchStats {
+  private lines: Map<string, StatLine> = new Map();
+  // Victim id to attacker id to when (ms) they last did damage
+  private recentDamage: Map<string, Map<string, number>> = new Map();
+  private changed = true;
+
+  public recordShot(shooterId: string, bullets: number): void {
+    this.getLine(shooterId).shotsFired += bullets;
+    this.changed = true;
+  }
+
+  public recordHit(shooterId: string): void {
+    this.getLine(shooterId).shotsHit++;
+    this.changed = true;
+  }
+
+  /**
+   * Record damage taken, from another player or (with no source) the
+   * environment or a teammate, which earns nobody anything
+   */
+  public recordDamage(
+    sourceId: string | null,
+    targetId: string,
+    amount: number,
+    now = Date.now()
+  ): void {
+    this.getLine(targetId).damageTaken += amount;
+
+    if (sourceId && sourceId !== targetId) {
+      this.getLine(sourceId).damageDealt += amount;
+
+      let attackers = this.recentDamage.get(targetId);
+      if (!attackers) {
+        attackers = new Map();
+        this.recentDamage.set(targetId, attackers);
+      }
+      attackers.set(sourceId, now);
+    }
+    this.changed = true;
+  }
+
+  /**
+   * Credit a kill, and an assist to everyone else who recently hurt the
+   * victim
+   */
+  public recordKill(
+    killerId: string,
+    victimId: string,
+    now = Date.now()
+  ): void {
+    this.getLine(killerId).kills++;
+
+    for (const [attackerId, at] of this.recentDamage.get(victimId) ?? []) {
+      if (attackerId !== killerId && now - at <= ASSIST_WINDOW) {
+        this.getLine(attackerId).assists++;
+      }
+    }
+    this.recordDeath(victimId);
+  }
+
+  /**
+   * Record a death nobody gets credit for (e.g. run over by a car)
+   */
+  public recordDeath(victimId: string): void {
+    this.getLine(victimId).deaths++;
+    this.recentDamage.delete(victimId);
+    this.changed = true;
+  }
+
+  /**
+   * Drop a player who left the match
+   */
+  public forget(userId: string): void {
+    this.lines.delete(userId);
+    this.recentDamage.delete(userId);
+    for (const attackers of this.recentDamage.values()) {
+      attackers.delete(userId);
+    }
+    this.changed = true;
+  }
+
+  /**
+   * Note that the scoreboard needs sending, e.g. because someone joined
+   */
+  public markChanged(): void {
+    this.changed = true;
+  }
+
+  /**
+   * Whether anything changed since the last call
+   */
+  public takeChanges(): boolean {
+    const changed = this.changed;
+    this.changed = false;
+    return changed;
+  }
+
+  /**
+   * The scoreboard for these players, best score first
+   */
+  public toScoreboard(players: Iterable<ServerPlayer>): PlayerStats[] {
+    const rows: PlayerStats[] = [];
+    for (const player of players) {
+      const line = this.lines.get(player.id) ?? emptyLine();
+      rows.push({
+        userId: player.id,
+        ...player.profile,
+        ...line,
+        score: line.kills * KILL_SCORE + line.assists * ASSIST_SCORE,
+      });
+    }
+
+    return rows.sort(
+      (a, b) => b.score - a.score || b.kills - a.kills || a.deaths - b.deaths
+    );
+  }
+
+  private getLine(userId: string): StatLine {
+    let line = this.lines.get(userId);
+    if (!line) {
+      line = emptyLine();
+      this.lines.set(userId, line);
+    }
+    return line;
+  }
+}
@@ -0,0 +1,112 @@
+import { MOVEMENT } from "../../src/events/constants";
+import type { PlayerInputEvent } from "../../src/events/types";
+import type { ServerPlayer } from "./ServerPlayer";
+
+/**
+ * Furthest distance from the origin a player may be (the ground is 100x100)
+ */
+const WORLD_LIMIT = 60;
+
+/**
+ * Lowest a player's center can be (crouched on the ground)
+ */
+const MIN_HEIGHT = 0.5;
+
+/**
+ * Highest a player's center can be (standing at the top of a jump)
+ */
+const MAX_HEIGHT = 1 + MOVEMENT.jumpStrength ** 2 / (2 * MOVEMENT.gravity);
+
+export interface MovementValidatorOptions {
+  speedTolerance: number; // Multiplier on the fastest movement speed
+  slack: number; // Extra distance (units) allowed per input to absorb jitter
+  maxTimeBudget: number; // Most unused movement time (s) a player may bank
+}
+
+export interface MovementResult {
+  position: { x: number; y: number; z: number };
+  corrected: boolean;
+  reason?: string; // Why the position was corrected
+}
+
+/**
+ * Checks the position a client predicted for an input against how far it
+ * could have moved. The server has no level geometry, so it doesn't re-run
+ * the simulation; it only clamps moves that no honest client could make.
+ */
+export class MovementValidator {
+  private speedTolerance: number;
+  private slack: number;
+  private maxTimeBudget: number;
+
+  constructor(options?: Partial<MovementValidatorOptions>) {
+    this.speedTolerance = options?.speedTolerance ?? 1.25;
+    this.slack = options?.slack ?? 0.1;
+    this.maxTimeBudget = options?.maxTimeBudget ?? 1;
+  }
+
+  /**
+   * Decide where an input leaves the player. Also spends the player's
+   * movement time, so inputs can't claim more time than has passed.
+   */
+  public validate(
+    player: ServerPlayer,
+    input: PlayerInputEvent,
+    now = Date.now()
+  ): MovementResult {
+    // Refill the time budget with the wall time since the last input
+    const elapsed = player.lastInputAt
+      ? (now - player.lastInputAt) / 1000
+      : this.maxTimeBudget;
+    player.movementTimeBudget = Math.min(
+      this.maxTimeBudget,
+      player.movementTimeBudget + Math.max(0, elapsed)
+    );
+    player.lastInputAt = now;
+
+    const delta = Math.min(
+      input.delta,
+      MOVEMENT.maxFrameDelta,
+      player.movementTimeBudget
+    );
+    player.movementTimeBudget -= delta;
+
+    const from = player.position;
+    const position = { ...input.position };
+    let reason: string | undefined;
+
+    // Horizontal movement is limited by the run speed, plus any push
+    // from a blast
+    const maxSpeed =
+      MOVEMENT.runSpeed * this.speedTolerance +
+      player.getKnockbackAllowance(now);
+    const maxDistance = maxSpeed * delta + this.slack;
+    const dx = position.x - from.x;
+    const dz = position.z - from.z;
+    const distance = Math.sqrt(dx * dx + dz * dz);
+    if (distance > maxDistance) {
+      const scale = maxDistance / distance;
+      position.x = from.x + dx * scale;
+      position.z = from.z + dz * scale;
+      reason = "moved faster than allowed";
+    }
+
+    // Players can only be as high as a jump takes them
+    if (position.y < MIN_HEIGHT || position.y > MAX_HEIGHT + this.slack) {
+      position.y = Math.max(MIN_HEIGHT, Math.min(MAX_HEIGHT, position.y));
+      reason = reason ?? "height out of range";
+    }
+
+    // And never leave the world
+    if (
+      Math.abs(position.x) > WORLD_LIMIT ||
+      Math.abs(position.z) > WORLD_LIMIT
+    ) {
+      position.x = Math.max(-WORLD_LIMIT, Math.min(WORLD_LIMIT, position.x));
+      position.z = Math.max(-WORLD_LIMIT, Math.min(WORLD_LIMIT, position.z));
+      reason = reason ?? "left the world";
+    }
+
+    return { position, corrected: reason !== undefined, reason };
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * A player position recorded at a point in server time
+ */
+export interface PositionSample {
+  time: number;
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * Rolling record of where a player has been over the last stretch of time
+ */
+export class PositionHistory {
+  private samples: PositionSample[] = [];
+
+  /**
+   * @param maxAge How long samples are kept, in milliseconds
+   */
+  constructor(private maxAge = 1000) {}
+
+  /**
+   * Record a position at the given server time
+   */
+  public record(
+    position: { x: number; y: number; z: number },
+    time = Date.now()
+  ): void {
+    this.samples.push({ time, x: position.x, y: position.y, z: position.z });
+    this.prune(time);
+  }
+
+  /**
+   * Get every position the player occupied from the given time onwards,
+   * oldest first. This includes the last sample recorded before that time,
+   * since the player was still standing there when the window started.
+   */
+  public getSamplesSince(time: number): PositionSample[] {
+    const firstIndex = this.samples.findIndex((sample) => sample.time >= time);
+    if (firstIndex === -1) {
+      return this.samples.slice(-1);
+    }
+    return this.samples.slice(Math.max(0, firstIndex - 1));
+  }
+
+  /**
+   * Get every position the player occupied between two times, oldest first,
+   * including the last sample recorded before the window started
+   */
+  public getSamplesBetween(from: number, to: number): PositionSample[] {
+    return this.getSamplesSince(from).filter(
+      (sample, index) => index === 0 || sample.time <= to
+    );
+  }
+
+  /**
+   * Get the most recent sample, if any
+   */
+  public getLatest(): PositionSample | null {
+    return this.samples[this.samples.length - 1] ?? null;
+  }
+
+  /**
+   * Forget all samples (e.g. after a respawn teleport)
+   */
+  public clear(): void {
+    this.samples = [];
+  }
+
+  private prune(now: number): void {
+    const cutoff = now - this.maxAge;
+    // Keep the newest sample older than the cutoff, since it tells us where
+    // the player stood when the window began
+    while (this.samples.length > 1 && this.samples[1].time < cutoff) {
+      this.samples.shift();
+    }
+  }
+}
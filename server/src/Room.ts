@@ -0,0 +1,150 @@
+import { LOBBY } from "../../src/events/constants";
+import type {
+  FriendlyFire,
+  GameModeId,
+  RoomDetails,
+  RoomPhase,
+  RoomSummary,
+} from "../../src/events/types";
+import type { GameMode } from "./GameMode";
+import { createGameMode } from "./gameModes";
+import { MatchStats } from "./MatchStats";
+import type { ServerPlayer } from "./ServerPlayer";
+
+/**
+ * A match and the players in it. Players ready up while it waits; once
+ * everyone is ready a countdown runs, and then the match is played until
+ * its mode says it's over, after which the room waits again. Players may
+ * still drop in while it plays.
+ */
+export class Room {
+  public phase: RoomPhase = "waiting";
+  public readonly players: Map<string, ServerPlayer> = new Map();
+  public stats = new MatchStats();
+  public mode: GameMode;
+  private countdownTimer: ReturnType<typeof setTimeout> | null = null;
+  private countdownEndsAt = 0;
+
+  constructor(
+    public readonly id: string,
+    public readonly name: string,
+    public readonly maxPlayers: number,
+    public readonly modeId: GameModeId,
+    public readonly friendlyFire: FriendlyFire,
+    private onStart: (room: Room) => void
+  ) {
+    this.mode = createGameMode(modeId);
+  }
+
+  public isFull(): boolean {
+    return this.players.size >= this.maxPlayers;
+  }
+
+  public isEmpty(): boolean {
+    return this.players.size === 0;
+  }
+
+  public isPlaying(): boolean {
+    return this.phase === "playing";
+  }
+
+  public add(player: ServerPlayer): void {
+    this.players.set(player.id, player);
+    player.room = this;
+    player.ready = false;
+    this.updateCountdown();
+  }
+
+  public remove(player: ServerPlayer): void {
+    this.players.delete(player.id);
+    player.room = null;
+    player.ready = false;
+    this.updateCountdown();
+  }
+
+  public setReady(player: ServerPlayer, ready: boolean): void {
+    player.ready = ready;
+    this.updateCountdown();
+  }
+
+  /**
+   * The match is over: everyone has to ready up again for the next one
+   */
+  public end(): void {
+    this.phase = "waiting";
+    for (const player of this.players.values()) {
+      player.ready = false;
+    }
+  }
+
+  /**
+   * Stop the countdown, e.g. when the room is closed
+   */
+  public dispose(): void {
+    this.cancelCountdown();
+  }
+
+  public toSummary(): RoomSummary {
+    return {
+      id: this.id,
+      name: this.name,
+      playerCount: this.players.size,
+      maxPlayers: this.maxPlayers,
+      mode: this.modeId,
+      friendlyFire: this.friendlyFire,
+      phase: this.phase,
+    };
+  }
+
+  public toDetails(now = Date.now()): RoomDetails {
+    return {
+      ...this.toSummary(),
+      members: Array.from(this.players.values()).map((player) =>
+        player.toRoomMember()
+      ),
+      countdownMs:
+        this.phase === "countdown"
+          ? Math.max(0, this.countdownEndsAt - now)
+          : undefined,
+    };
+  }
+
+  /**
+   * Start counting down once everyone is ready, and stop as soon as
+   * someone isn't (including a newcomer)
+   */
+  private updateCountdown(): void {
+    if (this.isPlaying()) return;
+
+    const everyoneReady =
+      !this.isEmpty() &&
+      Array.from(this.players.values()).every((player) => player.ready);
+
+    if (everyoneReady && this.phase === "waiting") {
+      this.phase = "countdown";
+      this.countdownEndsAt = Date.now() + LOBBY.countdownSeconds * 1000;
+      this.countdownTimer = setTimeout(
+        () => this.start(),
+        LOBBY.countdownSeconds * 1000
+      );
+    } else if (!everyoneReady && this.phase === "countdown") {
+      this.cancelCountdown();
+      this.phase = "waiting";
+    }
+  }
+
+  private cancelCountdown(): void {
+    if (this.countdownTimer) {
+      clearTimeout(this.countdownTimer);
+      this.countdownTimer = null;
+    }
+  }
+
+  private start(): void {
+    this.countdownTimer = null;
+    this.phase = "playing";
+    this.stats = new MatchStats();
+    this.mode = createGameMode(this.modeId);
+    this.onStart(this);
+  }
+}
@@ -0,0 +1,262 @@
+import type { Socket } from "socket.io";
+import type { StateEncoding } from "../../src/events/protocol";
+import type {
+  Loadout,
+  PlayerPositionEvent,
+  PlayerProfile,
+  PlayerSnapshot,
+  RoomMember,
+} from "../../src/events/types";
+import { GRENADE } from "../../src/weapons/grenades";
+import { KNIFE } from "../../src/weapons/melee";
+import { DEFAULT_LOADOUT } from "../../src/weapons/weaponDefinitions";
+import { ActionBudget } from "./ActionBudget";
+import { PositionHistory } from "./PositionHistory";
+import type { Room } from "./Room";
+import { StateStream } from "./StateStream";
+import { getWeaponIndex } from "./weapons";
+
+export const MAX_HEALTH = 100;
+
+/**
+ * Colors handed out until a player picks their own
+ */
+const DEFAULT_COLORS = [
+  "#e6194b",
+  "#3cb44b",
+  "#ffe119",
+  "#4363d8",
+  "#f58231",
+  "#911eb4",
+  "#46f0f0",
+  "#f032e6",
+];
+
+/**
+ * Authoritative state the server keeps for each connected player
+ */
+export class ServerPlayer {
+  public profile: PlayerProfile;
+  public room: Room | null = null;
+  public ready = false; // Ready for the room's match to start
+
+  public position = { x: 0, y: 1, z: 0 };
+  public rotation = 0;
+  public crouching = false;
+  public health = MAX_HEALTH;
+  public isDead = false;
+  public diedAt = 0; // Wall time (ms) of the last death
+  public spawnProtectedUntil = 0; // Wall time (ms) spawn protection ends
+  public loadout: Loadout = DEFAULT_LOADOUT; // Picked for the next spawn
+  public equipped: Loadout = DEFAULT_LOADOUT; // Spawned with
+  public weaponType = DEFAULT_LOADOUT.primary.weapon;
+  // Weapons spawned with this match. Weapons on the ground are only ever
+  // ones players dropped themselves, so these are all they can pick up.
+  public carriedThisMatch: Set<string> = new Set();
+
+  // Anti-cheat bookkeeping
+  public shots = new ActionBudget();
+  public swings = new ActionBudget();
+  public lastHealAt = 0; // Wall time (ms) of the last heal
+  // Hits this player may still claim from shots fired, by weapon
+  public hitCredits: Map<string, number> = new Map();
+  public history = new PositionHistory();
+  public lastProcessedInput = 0; // Sequence number of the last movement input
+  public lastInputAt = 0; // Wall time (ms) the last movement input arrived
+  public movementTimeBudget = 0; // Movement time (s) inputs may still claim
+  public stateTimestamp = 0; // Client time (ms) of the last applied input
+  public grenadesLeft: number = GRENADE.carried;
+  public throws = new ActionBudget();
+  // Grenades in flight, by id: when (wall time, ms) and where thrown
+  public liveGrenades: Map<
+    number,
+    { thrownAt: number; position: { x: number; y: number; z: number } }
+  > = new Map();
+  public knockbackSpeed = 0; // Extra speed a blast allows moves to have
+  public knockbackUntil = 0; // Wall time (ms) that allowance runs out
+  private clockOffset: number | null = null; // Server time minus client time
+
+  // Other players' states streamed to this client
+  public stateStream = new StateStream();
+
+  constructor(
+    public readonly id: string,
+    public readonly netId: number,
+    public readonly socket: Socket,
+    public readonly stateEncoding: StateEncoding = "binary"
+  ) {
+    this.profile = {
+      name: `Player ${id.slice(0, 8)}`,
+      color: DEFAULT_COLORS[netId % DEFAULT_COLORS.length],
+    };
+    this.history.record(this.position);
+  }
+
+  /**
+   * Start a match from scratch: alive, at the spawn, with nothing streamed
+   */
+  public joinMatch(spawn: { x: number; y: number; z: number }): void {
+    this.carriedThisMatch.clear();
+    this.respawn(spawn);
+    this.rotation = 0;
+    this.crouching = false;
+    this.shots.reset();
+    this.swings.reset();
+    this.throws.reset();
+    this.liveGrenades.clear();
+    this.stateTimestamp = 0;
+    this.stateStream = new StateStream();
+  }
+
+  /**
+   * Move the player and remember where they were
+   */
+  public moveTo(position: { x: number; y: number; z: number }): void {
+    this.position = { ...position };
+    this.history.record(this.position);
+  }
+
+  /**
+   * Learn how this client's clock relates to ours from a timestamped event.
+   * The smallest offset seen comes from the least delayed packet.
+   */
+  public observeClientTime(timestamp: number, now = Date.now()): void {
+    const offset = now - timestamp;
+    if (this.clockOffset === null || offset < this.clockOffset) {
+      this.clockOffset = offset;
+    }
+  }
+
+  /**
+   * Convert a client timestamp to server time (at the earliest it could
+   * have reached us). Unknown offsets are treated as no delay.
+   */
+  public toServerTime(timestamp: number, now = Date.now()): number {
+    return this.clockOffset === null ? now : timestamp + this.clockOffset;
+  }
+
+  /**
+   * Apply damage and return true if this killed the player
+   */
+  public applyDamage(amount: number): boolean {
+    if (this.isDead) return false;
+
+    this.health = Math.max(0, this.health - amount);
+    if (this.health <= 0) {
+      this.die();
+      return true;
+    }
+    return false;
+  }
+
+  public die(now = Date.now()): void {
+    this.health = 0;
+    this.isDead = true;
+    this.diedAt = now;
+    this.spawnProtectedUntil = 0;
+  }
+
+  /**
+   * Whether hits can't hurt this player yet, having just respawned
+   */
+  public isSpawnProtected(now = Date.now()): boolean {
+    return now < this.spawnProtectedUntil;
+  }
+
+  /**
+   * Let the player's moves be faster for a while, as a blast pushes them
+   * away. Their client applies the push a network delay later, so the
+   * allowance lasts a little longer than the push.
+   */
+  public allowKnockback(speed: number, now = Date.now()): void {
+    const duration = (speed / GRENADE.knockbackDecay) * 1000 + 1000;
+    this.knockbackSpeed =
+      now < this.knockbackUntil ? Math.max(this.knockbackSpeed, speed) : speed;
+    this.knockbackUntil = Math.max(this.knockbackUntil, now + duration);
+  }
+
+  /**
+   * Extra speed moves may have right now, from being knocked back
+   */
+  public getKnockbackAllowance(now = Date.now()): number {
+    return now < this.knockbackUntil ? this.knockbackSpeed : 0;
+  }
+
+  /**
+   * Bring the player back to full health, carrying the loadout they picked
+   */
+  public respawn(position?: { x: number; y: number; z: number }): void {
+    this.equipped = this.loadout;
+    this.weaponType = this.equipped.primary.weapon;
+    this.carriedThisMatch.add(this.equipped.primary.weapon);
+    this.carriedThisMatch.add(this.equipped.secondary.weapon);
+    this.health = MAX_HEALTH;
+    this.isDead = false;
+    this.hitCredits.clear();
+    this.grenadesLeft = GRENADE.carried;
+    this.spawnProtectedUntil = 0;
+    this.knockbackUntil = 0;
+    if (position) {
+      // A respawn is a teleport, so the old path no longer applies
+      this.history.clear();
+      this.moveTo(position);
+    }
+  }
+
+  /**
+   * Frequently changing state streamed to other clients
+   */
+  public toPositionEvent(): PlayerPositionEvent {
+    return {
+      position: { ...this.position },
+      rotation: this.rotation,
+      crouching: this.crouching,
+      weaponIndex: getWeaponIndex(this.weaponType, this.equipped),
+      timestamp: this.stateTimestamp,
+    };
+  }
+
+  /**
+   * Public view of this player sent to other clients
+   */
+  public toSnapshot(): PlayerSnapshot {
+    return {
+      userId: this.id,
+      netId: this.netId,
+      ...this.profile,
+      position: { ...this.position },
+      rotation: this.rotation,
+      health: this.health,
+      isDead: this.isDead,
+      weaponType: this.weaponType,
+      loadout: this.equipped,
+    };
+  }
+
+  /**
+   * Whether this player may be holding a weapon: the knife, one they spawned
+   * with, or one they could have picked up
+   */
+  public carries(weaponType: string): boolean {
+    return weaponType === KNIFE.name || this.carriedThisMatch.has(weaponType);
+  }
+
+  /**
+   * Attachments fitted to a weapon this player carries. Weapons picked up
+   * off the ground count as bare.
+   */
+  public getAttachments(weaponType: string): string[] {
+    const { primary, secondary } = this.equipped;
+    const carried = [primary, secondary].find(
+      ({ weapon }) => weapon === weaponType
+    );
+    return carried?.attachments ?? [];
+  }
+
+  /**
+   * How this player is listed in their room
+   */
+  public toRoomMember(): RoomMember {
+    return { userId: this.id, ...this.profile, ready: this.ready };
+  }
+}
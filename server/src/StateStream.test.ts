@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { decodeStatePacket } from "../../src/events/stateCodec";
+import type { QuantizedState } from "../../src/events/stateCodec";
+import { StateStream } from "./StateStream";
+
+function state(x: number): QuantizedState {
+  return {
+    x,
+    y: 100,
+    z: 0,
+    rotation: 0,
+    crouching: false,
+    weaponIndex: 0,
+    timestamp: 1000,
+  };
+}
+
+test("resends players standing still after a packet fails to decode", () => {
+  const stream = new StateStream();
+  const states = new Map([
+    [1, state(0)],
+    [2, state(500)],
+  ]);
+
+  const first = stream.encode(stream.collect(states));
+  stream.acknowledge(first.seq, true);
+
+  // Nobody moved, so there is nothing new to send
+  assert.equal(stream.collect(states).size, 0);
+
+  const lost = stream.encode(new Map());
+  stream.acknowledge(lost.seq, false);
+
+  const resent = stream.collect(states);
+  assert.deepEqual([...resent.keys()], [1, 2]);
+
+  // Sent as full states, decodable without any baseline
+  const packet = decodeStatePacket(
+    stream.encode(resent).bytes,
+    () => undefined
+  );
+  assert.ok(packet);
+  assert.equal(packet.baselineSeq, 0);
+  assert.deepEqual(packet.states, states);
+});
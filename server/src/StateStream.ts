@@ -0,0 +1,130 @@
+import {
+  applyStates,
+  encodeStatePacket,
+  isSameState,
+  nextStateSeq,
+} from "../../src/events/stateCodec";
+import type { QuantizedState, StateWorld } from "../../src/events/stateCodec";
+
+/**
+ * Most unacknowledged packets kept around as possible baselines
+ */
+const MAX_PENDING = 32;
+
+interface SentPacket {
+  seq: number;
+  world: StateWorld; // What the client knows once it has this packet
+}
+
+interface SentState {
+  state: QuantizedState;
+  settled: boolean; // A resting update has gone out since it last changed
+}
+
+/**
+ * Player states already encoded for sending, and the seq to acknowledge
+ */
+export interface EncodedStates {
+  seq: number;
+  bytes: Uint8Array;
+}
+
+/**
+ * The stream of other players' states sent to one client. Decides which
+ * players need an update and delta-encodes them against the last packet
+ * the client acknowledged.
+ */
+export class StateStream {
+  private seq = 0;
+  private baseline: SentPacket | null = null;
+  private pending: SentPacket[] = [];
+  private lastSent: Map<number, SentState> = new Map();
+
+  /**
+   * Pick the states that changed since they were last sent.
+   * A player who stops gets one more update with a later timestamp, so
+   * clients stop extrapolating, and then nothing until they move again.
+   */
+  public collect(
+    states: ReadonlyMap<number, QuantizedState>
+  ): Map<number, QuantizedState> {
+    const changed = new Map<number, QuantizedState>();
+
+    for (const [netId, state] of states) {
+      const sent = this.lastSent.get(netId);
+      let settled = false;
+
+      if (sent && isSameState(sent.state, state)) {
+        if (sent.settled || sent.state.timestamp === state.timestamp) continue;
+        settled = true;
+      }
+
+      changed.set(netId, state);
+      this.lastSent.set(netId, { state, settled });
+    }
+
+    return changed;
+  }
+
+  /**
+   * Encode states as a delta against the acknowledged baseline
+   */
+  public encode(states: ReadonlyMap<number, QuantizedState>): EncodedStates {
+    const baselineWorld = this.baseline?.world ?? new Map();
+    const baselineSeq = this.baseline?.seq ?? 0;
+
+    this.seq = nextStateSeq(this.seq);
+    const bytes = encodeStatePacket(
+      this.seq,
+      baselineSeq,
+      baselineWorld,
+      states
+    );
+
+    this.pending.push({
+      seq: this.seq,
+      world: applyStates(baselineWorld, states),
+    });
+    if (this.pending.length > MAX_PENDING) {
+      this.pending.shift();
+    }
+
+    return { seq: this.seq, bytes };
+  }
+
+  /**
+   * Handle the client's answer to a packet. A packet it couldn't decode
+   * means the baselines no longer match, so start over with full states.
+   */
+  public acknowledge(seq: number, decoded: boolean): void {
+    const index = this.pending.findIndex((packet) => packet.seq === seq);
+
+    if (!decoded) {
+      // Players standing still would otherwise never be sent again
+      this.baseline = null;
+      this.pending = [];
+      this.lastSent.clear();
+      return;
+    }
+    if (index === -1) return;
+
+    // Anything older can no longer become the baseline
+    this.baseline = this.pending[index];
+    this.pending = this.pending.slice(index + 1);
+  }
+
+  /**
+   * Stop tracking a player who left
+   */
+  public forget(netId: number): void {
+    this.lastSent.delete(netId);
+
+    const withoutPlayer = (packet: SentPacket): SentPacket => {
+      const world = new Map(packet.world);
+      world.delete(netId);
+      return { seq: packet.seq, world };
+    };
+    this.baseline = this.baseline && withoutPlayer(this.baseline);
+    this.pending = this.pending.map(withoutPlayer);
+  }
+}
@@ -0,0 +1,17 @@
+import { GameMode } from "./GameMode";
+import type { ServerPlayer } from "./ServerPlayer";
+
+/**
+ * Two teams, and every kill of an enemy scores a point for the team
+ */
+export class TeamDeathmatchMode extends GameMode {
+  constructor() {
+    super("team-deathmatch", ["red", "blue"]);
+  }
+
+  public onKill(killer: ServerPlayer, victim: ServerPlayer): void {
+    if (this.getTeam(killer.id) !== this.getTeam(victim.id)) {
+      this.addScore(killer);
+    }
+  }
+}
@@ -0,0 +1,19 @@
+import type { GameModeId } from "../../src/events/types";
+import { CaptureTheFlagMode } from "./CaptureTheFlagMode";
+import { DeathmatchMode } from "./DeathmatchMode";
+import type { GameMode } from "./GameMode";
+import { TeamDeathmatchMode } from "./TeamDeathmatchMode";
+
+/**
+ * Set up the rules for a new match of a mode
+ */
+export function createGameMode(id: GameModeId): GameMode {
+  switch (id) {
+    case "deathmatch":
+      return new DeathmatchMode();
+    case "team-deathmatch":
+      return new TeamDeathmatchMode();
+    case "capture-the-flag":
+      return new CaptureTheFlagMode();
+  }
+}
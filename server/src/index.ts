@@ -0,0 +1,22 @@
+import { createServer } from "node:http";
+import { Server } from "socket.io";
+import { GameServer } from "./GameServer";
+
+const port = Number(process.env.PORT) || 3000;
+const clientOrigin = process.env.CLIENT_ORIGIN || "*";
+
+const httpServer = createServer((_req, res) => {
+  // Simple health check so it's easy to see the server is up
+  res.writeHead(200, { "Content-Type": "text/plain" });
+  res.end("threejs-shooter server\n");
+});
+
+const io = new Server(httpServer, {
+  cors: { origin: clientOrigin },
+});
+
+new GameServer(io);
+
+httpServer.listen(port, () => {
+  console.log(`--- Game server listening on http://localhost:${port}`);
+});
@@ -0,0 +1,44 @@
+import type { Loadout } from "../../src/events/types";
+import { fitAttachments } from "../../src/weapons/loadouts";
+import { getWeaponDefinition } from "../../src/weapons/weaponDefinitions";
+import type { DamageFalloff } from "../../src/weapons/weaponDefinitions";
+import { KNIFE, MELEE_SLOT } from "../../src/weapons/melee";
+
+/**
+ * Server-side weapon stats used to rate-limit shots and decide damage.
+ * Clients never get to choose how much damage a hit does.
+ */
+export interface ServerWeaponStats {
+  damage: number; // Per pellet, before falloff and hit zones
+  falloff: DamageFalloff;
+  fireRate: number; // Seconds between shots
+  pellets: number; // Bullets spawned per shot
+  range: number; // How far bullets fly
+}
+
+/**
+ * Inventory slot of a weapon: its slot in the loadout the player spawned
+ * with, or the knife's own slot (other weapons fall back to the first slot)
+ */
+export function getWeaponIndex(weaponType: string, loadout: Loadout): number {
+  if (weaponType === KNIFE.name) return MELEE_SLOT;
+  return loadout.secondary.weapon === weaponType ? 1 : 0;
+}
+
+/**
+ * Get stats for a weapon by its display name, with the attachments fitted
+ * to it, or null for unknown weapons
+ */
+export function getWeaponStats(
+  weaponType: string,
+  attachments: string[] = []
+): ServerWeaponStats | null {
+  const definition = getWeaponDefinition(weaponType);
+  if (!definition) return null;
+
+  const { damage, falloff, fireRate, pellets, range } = fitAttachments(
+    definition,
+    attachments
+  );
+  return { damage, falloff, fireRate, pellets, range };
+}
@@ -0,0 +1,114 @@
+import socket from "./socket";
+
+/**
+ * Where the connection to the game server stands
+ */
+export type ConnectionState =
+  | "connecting" // First attempt, nothing received yet
+  | "connected"
+  | "reconnecting" // Lost the server, socket.io is retrying
+  | "offline"; // Gave up, or the server turned us away
+
+export interface ConnectionStatus {
+  state: ConnectionState;
+  session: number; // Goes up with every successful (re)connect
+  attempt: number; // Reconnect attempts since the connection dropped
+  reason?: string; // Why we went offline or are reconnecting
+}
+
+type ConnectionListener = (status: ConnectionStatus) => void;
+
+/**
+ * Tracks the socket's connection state. Each successful connect starts a new
+ * session; the server forgets us in between, so anything tied to an older
+ * session is stale.
+ */
+export class ConnectionMonitor {
+  private static instance: ConnectionMonitor;
+  private status: ConnectionStatus = {
+    state: socket.connected ? "connected" : "connecting",
+    session: socket.connected ? 1 : 0,
+    attempt: 0,
+  };
+  private listeners: ConnectionListener[] = [];
+
+  private constructor() {
+    socket.on("connect", () => {
+      this.setStatus({
+        state: "connected",
+        session: this.status.session + 1,
+        attempt: 0,
+      });
+    });
+
+    socket.on("disconnect", (reason) => {
+      // The server (or our own code) closed the socket on purpose, so
+      // socket.io won't retry
+      const state = socket.active ? "reconnecting" : "offline";
+      this.setStatus({ ...this.status, state, attempt: 0, reason });
+    });
+
+    socket.on("connect_error", (error) => {
+      // Refused by the server (e.g. protocol mismatch) rather than unreachable
+      const state = socket.active ? this.status.state : "offline";
+      this.setStatus({ ...this.status, state, reason: error.message });
+    });
+
+    socket.io.on("reconnect_attempt", (attempt) => {
+      this.setStatus({ ...this.status, state: "reconnecting", attempt });
+    });
+
+    socket.io.on("reconnect_failed", () => {
+      this.setStatus({ ...this.status, state: "offline" });
+    });
+  }
+
+  public static getInstance(): ConnectionMonitor {
+    if (!ConnectionMonitor.instance) {
+      ConnectionMonitor.instance = new ConnectionMonitor();
+    }
+    return ConnectionMonitor.instance;
+  }
+
+  public getStatus(): ConnectionStatus {
+    return this.status;
+  }
+
+  public isConnected(): boolean {
+    return this.status.state === "connected";
+  }
+
+  /**
+   * Current session number, for tagging work that shouldn't outlive it
+   */
+  public getSession(): number {
+    return this.status.session;
+  }
+
+  /**
+   * Be told about every state change, starting with the current state
+   */
+  public onChange(listener: ConnectionListener): void {
+    this.listeners.push(listener);
+    listener(this.status);
+  }
+
+  private setStatus(status: ConnectionStatus): void {
+    const previous = this.status;
+    this.status = status;
+
+    if (
+      previous.state !== status.state ||
+      previous.session !== status.session ||
+      previous.attempt !== status.attempt
+    ) {
+      console.log(
+        `[connection] ${status.state} (session ${status.session}` +
+          (status.reason ? `, ${status.reason})` : ")")
+      );
+      for (const listener of this.listeners) {
+        listener(status);
+      }
+    }
+  }
+}
@@ -0,0 +1,230 @@
+import socket from "./socket";
+import { GAME_EVENTS, LOBBY } from "../events/constants";
+import { EventEmitter } from "../events/eventEmitter";
+import { EventListener } from "../events/eventListener";
+import { encodeBatch } from "../events/protocol";
+import type { GameEventName, OutgoingEvent } from "../events/protocol";
+import type {
+  FriendlyFire,
+  GameModeId,
+  Loadout,
+  PlayerProfile,
+  RoomDetails,
+  RoomSummary,
+} from "../events/types";
+import { isColor, isName, parseLoadout } from "../events/validation";
+import { isLoadoutAllowed } from "../weapons/loadouts";
+import { DEFAULT_LOADOUT } from "../weapons/weaponDefinitions";
+
+const PROFILE_STORAGE_KEY = "playerProfile";
+const LOADOUT_STORAGE_KEY = "loadout";
+
+/**
+ * What the lobby looks like from here
+ */
+export interface LobbyState {
+  userId: string | null; // Our id, as the server knows us
+  profile: PlayerProfile;
+  loadout: Loadout; // What we spawn with
+  rooms: RoomSummary[]; // Rooms to pick from while not in one
+  room: RoomDetails | null; // The room we are in
+  inMatch: boolean; // Whether our room's match has us playing
+  error: string | null; // Last request the server turned down
+}
+
+type LobbyListener = (state: LobbyState) => void;
+
+/**
+ * Client end of the lobby: sends our profile, loadout and room requests,
+ * and keeps track of the rooms and the one we are in. Game events are
+ * scoped to that room once its match has us playing.
+ */
+export class LobbyClient {
+  private static instance: LobbyClient;
+  private state: LobbyState = {
+    userId: null,
+    profile: loadProfile(),
+    loadout: loadLoadout(),
+    rooms: [],
+    room: null,
+    inMatch: false,
+    error: null,
+  };
+  private listeners: LobbyListener[] = [];
+
+  private constructor() {
+    const events = EventListener.getInstance();
+    const emitter = EventEmitter.getInstance();
+
+    // The server forgets us between connections, profile and loadout
+    // included
+    const introduce = () => {
+      this.sendProfile();
+      this.sendLoadout();
+    };
+    socket.on("connect", introduce);
+    if (socket.connected) {
+      introduce();
+    }
+
+    socket.on("disconnect", () => {
+      events.setRoom(null);
+      emitter.setRoom(null);
+      this.setState({ userId: null, rooms: [], room: null, inMatch: false });
+    });
+
+    events.on(GAME_EVENTS.LOBBY.ROOMS, ({ rooms }) => {
+      this.setState({ rooms });
+    });
+
+    events.on(GAME_EVENTS.LOBBY.ROOM, ({ room }) => {
+      events.setRoom(room?.id ?? null);
+      this.setState({ room, inMatch: room ? this.state.inMatch : false });
+    });
+
+    events.on(GAME_EVENTS.LOBBY.ERROR, ({ message }) => {
+      this.setState({ error: message });
+    });
+
+    // A welcome for a room puts us in its match; one without takes us out
+    events.on(GAME_EVENTS.USER.WELCOME, ({ userId, roomId }) => {
+      emitter.setRoom(roomId ?? null);
+      this.setState({ userId, inMatch: roomId !== undefined });
+    });
+  }
+
+  public static getInstance(): LobbyClient {
+    if (!LobbyClient.instance) {
+      LobbyClient.instance = new LobbyClient();
+    }
+    return LobbyClient.instance;
+  }
+
+  public getState(): LobbyState {
+    return this.state;
+  }
+
+  /**
+   * Be told about every change, starting with the current state
+   */
+  public onChange(listener: LobbyListener): void {
+    this.listeners.push(listener);
+    listener(this.state);
+  }
+
+  /**
+   * Change our name and color, and remember them for next time
+   */
+  public setProfile(profile: PlayerProfile): void {
+    this.setState({ profile });
+    try {
+      localStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(profile));
+    } catch {
+      // Storage may be unavailable (e.g. private browsing)
+    }
+    this.sendProfile();
+  }
+
+  /**
+   * Change what we spawn with, and remember it for next time. During a
+   * match it applies from the next respawn.
+   */
+  public setLoadout(loadout: Loadout): void {
+    this.setState({ loadout });
+    try {
+      localStorage.setItem(LOADOUT_STORAGE_KEY, JSON.stringify(loadout));
+    } catch {
+      // Storage may be unavailable (e.g. private browsing)
+    }
+    this.sendLoadout();
+  }
+
+  public createRoom(
+    name: string,
+    maxPlayers: number,
+    mode: GameModeId,
+    friendlyFire: FriendlyFire
+  ): void {
+    this.send(GAME_EVENTS.LOBBY.CREATE, {
+      name,
+      maxPlayers,
+      mode,
+      friendlyFire,
+    });
+  }
+
+  public joinRoom(id: string): void {
+    this.send(GAME_EVENTS.LOBBY.JOIN, { id });
+  }
+
+  public leaveRoom(): void {
+    this.send(GAME_EVENTS.LOBBY.LEAVE, {});
+  }
+
+  public setReady(ready: boolean): void {
+    this.send(GAME_EVENTS.LOBBY.READY, { ready });
+  }
+
+  private sendProfile(): void {
+    this.send(GAME_EVENTS.LOBBY.PROFILE, this.state.profile);
+  }
+
+  private sendLoadout(): void {
+    this.send(GAME_EVENTS.LOBBY.LOADOUT, { loadout: this.state.loadout });
+  }
+
+  /**
+   * Lobby requests go out straight away. They aren't part of any match,
+   * so they skip the EventEmitter's buffer and room scoping.
+   */
+  private send<K extends GameEventName>(
+    eventName: K,
+    data: OutgoingEvent<K>
+  ): void {
+    this.setState({ error: null });
+    socket.emit(eventName, encodeBatch({ ...data, timestamp: Date.now() }));
+  }
+
+  private setState(changes: Partial<LobbyState>): void {
+    this.state = { ...this.state, ...changes };
+    for (const listener of this.listeners) {
+      listener(this.state);
+    }
+  }
+}
+
+/**
+ * The profile saved last time, or a random one
+ */
+function loadProfile(): PlayerProfile {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PROFILE_STORAGE_KEY) ?? "");
+    if (isName(saved?.name, LOBBY.maxNameLength) && isColor(saved?.color)) {
+      return { name: saved.name, color: saved.color };
+    }
+  } catch {
+    // Nothing saved yet, or unreadable
+  }
+
+  const color = Math.floor(Math.random() * 0x1000000);
+  return {
+    name: `Player ${Math.floor(Math.random() * 1000)}`,
+    color: `#${color.toString(16).padStart(6, "0")}`,
+  };
+}
+
+/**
+ * The loadout saved last time, if weapons.json still allows it, or the
+ * default one
+ */
+function loadLoadout(): Loadout {
+  try {
+    const saved = parseLoadout(
+      JSON.parse(localStorage.getItem(LOADOUT_STORAGE_KEY) ?? "")
+    );
+    if (saved && isLoadoutAllowed(saved)) return saved;
+  } catch {
+    // Nothing saved yet, or unreadable
+  }
+  return DEFAULT_LOADOUT;
+}
@@ -1,6 +1,20 @@
 import { io } from "socket.io-client";
+import { PROTOCOL_VERSION } from "../events/protocol";
+import type { ProtocolHandshake } from "../events/protocol";
 
 const url = import.meta.env.VITE_SERVER_URL || "http://localhost:3000";
-const socket = io(url);
+const handshake: ProtocolHandshake = {
+  protocolVersion: PROTOCOL_VERSION,
+  // Set VITE_STATE_ENCODING=json to read player state in the network tab
+  stateEncoding:
+    import.meta.env.VITE_STATE_ENCODING === "json" ? "json" : "binary",
+};
+const socket = io(url, { auth: { ...handshake } });
 console.log(`--- URL = ${url}`);
+
+// The server refuses clients speaking a different protocol version
+socket.on("connect_error", (error) => {
+  console.error(`Could not connect to ${url}: ${error.message}`);
+});
+
 export default socket;
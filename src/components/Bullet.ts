@@ -1,11 +1,39 @@
 import * as THREE from "three";
+import { getHitDamage } from "../weapons/damage";
+import type { DamageFalloff } from "../weapons/weaponDefinitions";
+import {
+  MAX_PENETRATIONS,
+  MAX_RICOCHETS,
+  RICOCHET_DAMAGE_SCALE,
+  SURFACE_MATERIALS,
+  canRicochet,
+} from "../weapons/surfaceMaterials";
+import type { SurfaceMaterial } from "../weapons/surfaceMaterials";
+
+/**
+ * How a bullet flies and how hard it hits
+ */
+export interface BulletSettings {
+  speed: number; // Units per second
+  lifespan: number; // Seconds before the bullet is removed
+  damage: number; // Before falloff
+  falloff: DamageFalloff;
+}
 
 // Bullet class to manage bullet behavior
 export class Bullet {
   private mesh: THREE.Mesh;
   private velocity: THREE.Vector3;
-  private lifespan = 3.0; // Seconds before bullet is removed
-  private speed = 30.0;
+  private lifespan: number; // Seconds before bullet is removed
+  private speed: number;
+  private damage: number;
+  private falloff: DamageFalloff;
+  private distanceTravelled = 0;
+  private previousDistance = 0; // distanceTravelled at previousPosition
+  private penetrations = 0; // Pieces of cover the bullet went through
+  private ricochets = 0; // Times the bullet glanced off a surface
+  private damageScale = 1; // Share of damage left after cover and ricochets
+  private clearDistance = 0; // distanceTravelled where it left that cover
   private alive = true;
   private tracer: THREE.Line | null = null;
   private previousPosition: THREE.Vector3;
@@ -13,8 +41,18 @@ export class Bullet {
   constructor(
     position: THREE.Vector3,
     direction: THREE.Vector3,
-    scene: THREE.Scene
+    scene: THREE.Scene,
+    settings?: Partial<BulletSettings>
   ) {
+    this.speed = settings?.speed || 30;
+    this.lifespan = settings?.lifespan || 3;
+    this.damage = settings?.damage || 25;
+    this.falloff = settings?.falloff || {
+      start: Infinity,
+      end: Infinity,
+      minDamage: this.damage,
+    };
+
     // Create bullet geometry - small cylinder for better visibility
     const geometry = new THREE.CylinderGeometry(0.05, 0.05, 0.3, 8);
 
@@ -90,11 +128,13 @@ export class Bullet {
 
     // Store previous position for tracer
     this.previousPosition.copy(this.mesh.position);
+    this.previousDistance = this.distanceTravelled;
 
     // Update position
     this.mesh.position.x += this.velocity.x * delta;
     this.mesh.position.y += this.velocity.y * delta;
     this.mesh.position.z += this.velocity.z * delta;
+    this.distanceTravelled += this.speed * delta;
 
     // Update tracer
     if (this.tracer) {
@@ -122,6 +162,99 @@ export class Bullet {
     return true;
   }
 
+  /**
+   * Damage the bullet does to what it hits, less the further it flew
+   */
+  getDamage(distance = this.distanceTravelled): number {
+    return (
+      getHitDamage({ damage: this.damage, falloff: this.falloff }, distance) *
+      this.damageScale
+    );
+  }
+
+  /**
+   * Let the bullet through cover, losing damage for its material
+   * @param exitDistanceIntoStep How far past the previous position the
+   * bullet comes out the other side
+   * @returns False if the bullet has gone through all the cover it can
+   */
+  penetrate(material: SurfaceMaterial, exitDistanceIntoStep: number): boolean {
+    this.penetrations++;
+    this.damageScale *= SURFACE_MATERIALS[material].damageScale;
+    // Start just past the far side, so the cover isn't struck again
+    this.clearDistance = this.previousDistance + exitDistanceIntoStep + 0.01;
+    return this.penetrations <= MAX_PENETRATIONS;
+  }
+
+  /**
+   * Glance off a surface if the bullet struck it at a shallow enough
+   * angle, carrying on along the reflection for the rest of its step
+   * @param distanceIntoStep How far past the previous position it struck
+   * @returns False if the bullet stops there instead
+   */
+  ricochet(
+    point: THREE.Vector3,
+    normal: THREE.Vector3,
+    material: SurfaceMaterial,
+    distanceIntoStep: number
+  ): boolean {
+    const direction = this.velocity.clone().normalize();
+    const grazingAngle = THREE.MathUtils.radToDeg(
+      Math.asin(Math.min(1, -direction.dot(normal)))
+    );
+    if (
+      this.ricochets >= MAX_RICOCHETS ||
+      !canRicochet(material, grazingAngle)
+    ) {
+      return false;
+    }
+
+    this.ricochets++;
+    this.damageScale *= RICOCHET_DAMAGE_SCALE;
+    this.velocity.reflect(normal);
+    direction.copy(this.velocity).normalize();
+    this.mesh.quaternion.setFromUnitVectors(
+      new THREE.Vector3(0, 1, 0),
+      direction
+    );
+
+    // The step now bends at the surface, lifted a little off it so the
+    // bullet doesn't strike it again
+    const remaining =
+      this.distanceTravelled - this.previousDistance - distanceIntoStep;
+    this.previousDistance += distanceIntoStep;
+    this.previousPosition.copy(point).addScaledVector(normal, 0.01);
+    this.mesh.position
+      .copy(this.previousPosition)
+      .addScaledVector(direction, remaining);
+    return true;
+  }
+
+  /**
+   * The part of the last step still to be checked for hits: from the
+   * previous position, or from where the bullet came out of cover.
+   * Null while the bullet is still inside that cover.
+   */
+  getUncheckedStep(): { from: THREE.Vector3; offset: number } | null {
+    if (this.clearDistance >= this.distanceTravelled) return null;
+
+    const offset = Math.max(0, this.clearDistance - this.previousDistance);
+    const from = this.previousPosition
+      .clone()
+      .addScaledVector(this.velocity.clone().normalize(), offset);
+    return { from, offset };
+  }
+
+  /**
+   * How far the bullet had flown at a point on its last step, given how
+   * far past the previous position that point is
+   */
+  getDistanceTravelled(distanceIntoStep?: number): number {
+    return distanceIntoStep === undefined
+      ? this.distanceTravelled
+      : this.previousDistance + distanceIntoStep;
+  }
+
   remove(scene: THREE.Scene) {
     // Remove bullet mesh
     scene.remove(this.mesh);
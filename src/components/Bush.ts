@@ -90,7 +90,7 @@ export class Bush {
   }
 
   private addToCollisionSystem(): void {
-    this.collisionSystem?.addCustomObstacle(this.collisionBox);
+    this.collisionSystem?.addCustomObstacle(this.collisionBox, "foliage");
   }
 
   public getPosition(): THREE.Vector3 {
@@ -1,4 +1,5 @@
 import * as THREE from "three";
+import type { WeaponScopeDefinition } from "../weapons/weaponDefinitions";
 
 /**
  * Camera settings interface
@@ -8,6 +9,7 @@ interface CameraSettings {
   crouchCameraHeight: number;
   cameraDistance: number;
   angle: number; // Camera angle in radians (default: PI/4)
+  scopeEase: number; // Share of the way into or out of a scope moved each frame
 }
 
 /**
@@ -23,6 +25,14 @@ export class CameraController {
   private crouchCameraHeight: number;
   private cameraDistance: number;
   private angle: number;
+  private scopeEase: number;
+
+  // Aiming down a scope: how far into it the view is (0 to 1), the scope
+  // it is easing into or out of, and where the player aims
+  private scopeAmount = 0;
+  private scope: WeaponScopeDefinition | null = null;
+  private scoped = false;
+  private aimDirection = new THREE.Vector3(0, 0, -1);
 
   constructor(
     camera: THREE.Camera,
@@ -37,6 +47,7 @@ export class CameraController {
     this.crouchCameraHeight = settings?.crouchCameraHeight || 8;
     this.cameraDistance = settings?.cameraDistance || 20;
     this.angle = settings?.angle || Math.PI / 4; // 45 degrees
+    this.scopeEase = settings?.scopeEase || 0.15;
 
     // Initial camera setup
     this.setupIsometricView();
@@ -53,10 +64,43 @@ export class CameraController {
     this.camera.lookAt(this.player.position);
   }
 
+  /**
+   * Aim down a scope, or stop with null. While scoped the view moves ahead
+   * along the aim and pulls back, so distant targets come into sight.
+   * @param aimDirection Which way the player aims, along the ground
+   */
+  public setScope(
+    scope: WeaponScopeDefinition | null,
+    aimDirection: THREE.Vector3
+  ): void {
+    this.scoped = scope !== null;
+    // Keep the last scope while easing out of it
+    if (scope) this.scope = scope;
+    this.aimDirection.copy(aimDirection).setY(0).normalize();
+  }
+
   /**
    * Update camera position to follow the player
    */
   public updateCameraPosition(isCrouching: boolean): void {
+    // Ease into or out of the scope
+    const target = this.scoped ? 1 : 0;
+    this.scopeAmount += (target - this.scopeAmount) * this.scopeEase;
+    if (Math.abs(target - this.scopeAmount) < 0.001) {
+      this.scopeAmount = target;
+    }
+
+    // Look at a point ahead of the player while scoped, from further away
+    const focus = this.player.position.clone();
+    let zoom = 1;
+    if (this.scope && this.scopeAmount > 0) {
+      focus.addScaledVector(
+        this.aimDirection,
+        this.scope.lookAhead * this.scopeAmount
+      );
+      zoom += this.scope.zoomOut * this.scopeAmount;
+    }
+
     // Determine camera height based on crouch state
     const currentCameraHeight = isCrouching
       ? this.crouchCameraHeight
@@ -64,13 +108,13 @@ export class CameraController {
 
     // Calculate camera position based on player position
     this.camera.position.set(
-      this.player.position.x + this.cameraDistance * Math.sin(this.angle),
-      this.player.position.y + currentCameraHeight,
-      this.player.position.z + this.cameraDistance * Math.cos(this.angle)
+      focus.x + this.cameraDistance * zoom * Math.sin(this.angle),
+      this.player.position.y + currentCameraHeight * zoom,
+      focus.z + this.cameraDistance * zoom * Math.cos(this.angle)
     );
 
-    // Make the camera look at the player
-    this.camera.lookAt(this.player.position);
+    // Make the camera look at the player, or ahead of them while scoped
+    this.camera.lookAt(focus);
   }
 
   /**
@@ -0,0 +1,146 @@
+import * as THREE from "three";
+import type { PlayerInputEvent } from "../events/types";
+
+/**
+ * An input frame before it is sent (timestamp is added by the EventEmitter)
+ */
+export type InputFrame = Omit<PlayerInputEvent, "timestamp">;
+
+/**
+ * Physics state that isn't part of the position but is needed to replay inputs
+ */
+export interface MovementState {
+  velocityY: number;
+  canJump: boolean;
+  knockbackX: number; // What is left of a blast's push
+  knockbackZ: number;
+}
+
+interface PendingInput {
+  frame: InputFrame;
+  state: MovementState; // State after the frame was applied
+}
+
+/**
+ * Prediction settings
+ */
+interface PredictionSettings {
+  snapDistance: number; // Errors larger than this are applied instantly
+  smoothingRate: number; // How quickly smaller errors are blended away (1/s)
+  maxPendingInputs: number; // Oldest inputs are dropped past this count
+}
+
+/**
+ * Keeps the inputs the server hasn't acknowledged yet, so the local player
+ * can be moved immediately and corrected later without visible snapping
+ */
+export class ClientPrediction {
+  private nextSeq = 1;
+  private resetSeq = 0; // Acks older than this belong to a previous life
+  private pendingInputs: PendingInput[] = [];
+  private correction = new THREE.Vector3(); // Displayed minus predicted position
+
+  private snapDistance: number;
+  private smoothingRate: number;
+  private maxPendingInputs: number;
+
+  constructor(settings?: Partial<PredictionSettings>) {
+    this.snapDistance = settings?.snapDistance ?? 3;
+    this.smoothingRate = settings?.smoothingRate ?? 10;
+    this.maxPendingInputs = settings?.maxPendingInputs ?? 300;
+  }
+
+  /**
+   * Assign the next sequence number to a frame of input
+   */
+  public createFrame(input: Omit<InputFrame, "seq">): InputFrame {
+    return { ...input, seq: this.nextSeq++ };
+  }
+
+  /**
+   * Remember a frame until the server acknowledges it
+   */
+  public record(frame: InputFrame, state: MovementState): void {
+    this.pendingInputs.push({ frame, state: { ...state } });
+
+    if (this.pendingInputs.length > this.maxPendingInputs) {
+      this.pendingInputs.shift();
+    }
+  }
+
+  /**
+   * Drop every input up to and including the acknowledged one
+   * @returns The state after the acknowledged input and the inputs to replay,
+   * or null if the ack is stale
+   */
+  public acknowledge(
+    seq: number
+  ): { state: MovementState | null; pending: InputFrame[] } | null {
+    if (seq < this.resetSeq) return null;
+
+    let ackedState: MovementState | null = null;
+    while (
+      this.pendingInputs.length > 0 &&
+      this.pendingInputs[0].frame.seq <= seq
+    ) {
+      ackedState = this.pendingInputs.shift()!.state;
+    }
+
+    return {
+      state: ackedState,
+      pending: this.pendingInputs.map((input) => input.frame),
+    };
+  }
+
+  /**
+   * Update the stored post-frame state after a replay
+   */
+  public updateState(seq: number, state: MovementState): void {
+    const input = this.pendingInputs.find((p) => p.frame.seq === seq);
+    if (input) {
+      input.state = { ...state };
+    }
+  }
+
+  /**
+   * Start blending from where the player was shown to the corrected position
+   * @param offset Displayed position minus the corrected position
+   * @returns False if the error is too large and should be applied at once
+   */
+  public setCorrection(offset: THREE.Vector3): boolean {
+    if (offset.length() > this.snapDistance) {
+      this.correction.set(0, 0, 0);
+      return false;
+    }
+
+    this.correction.copy(offset);
+    return true;
+  }
+
+  /**
+   * Offset between the displayed and the predicted position
+   */
+  public getCorrection(): THREE.Vector3 {
+    return this.correction;
+  }
+
+  /**
+   * Shrink the correction offset as time passes
+   */
+  public decayCorrection(delta: number): THREE.Vector3 {
+    this.correction.multiplyScalar(Math.exp(-this.smoothingRate * delta));
+    if (this.correction.lengthSq() < 1e-6) {
+      this.correction.set(0, 0, 0);
+    }
+    return this.correction;
+  }
+
+  /**
+   * Forget pending inputs, e.g. after a respawn teleport
+   */
+  public reset(): void {
+    this.pendingInputs = [];
+    this.correction.set(0, 0, 0);
+    this.resetSeq = this.nextSeq;
+  }
+}
@@ -1,13 +1,74 @@
 import type * as THREE from "three";
+import type { SurfaceMaterial } from "../weapons/surfaceMaterials";
+
+/**
+ * Where a bullet struck something on its way between two frames
+ */
+export interface BulletHit {
+  point: THREE.Vector3;
+  normal: THREE.Vector3; // Of the surface that was struck, facing the bullet
+  distance: number; // From the start of the bullet's step to the point
+  material: SurfaceMaterial; // What was struck
+  object: THREE.Object3D | null; // The crate, car or light struck, if any
+  exit: THREE.Vector3 | null; // Where the bullet comes out, if it goes through
+}
+
+/**
+ * Cover a shot went through on its way to a target
+ */
+export interface ShotCover {
+  distance: number; // From the shot's origin to where it entered
+  material: SurfaceMaterial;
+}
 
 /**
  * Interface for objects that can check for collisions
  */
 export interface CollisionDetector {
   /**
-   * Check if a bullet collides with any collidable object
-   * @param bulletPosition Position of the bullet
-   * @returns True if collision detected, false otherwise
+   * Check the path a bullet flew this frame against every collidable
+   * object, so fast bullets can't pass through thin ones between frames
+   * @param from Where the bullet was last frame
+   * @param to Where the bullet is now
+   * @param shooter The player object that fired the bullet, if known
+   * @param getDamage What the bullet does to breakable objects it hits,
+   * given how far along the step they are
+   * @returns The nearest hit, or null if the path is clear
+   */
+  checkForBulletCollision(
+    from: THREE.Vector3,
+    to: THREE.Vector3,
+    shooter?: THREE.Object3D,
+    getDamage?: (distance: number) => number
+  ): BulletHit | null;
+
+  /**
+   * Resolve a shot instantly along a ray, as it was aimed when fired
+   * @param origin Where the shot starts (the gun barrel)
+   * @param direction Direction of the shot
+   * @param range How far the shot can reach
+   * @param shooter The player object that fired the shot, if known
+   * @param weaponType The weapon that fired the shot, if known
+   * @returns True if the shot hit a player
+   */
+  resolveHitscan?(
+    origin: THREE.Vector3,
+    direction: THREE.Vector3,
+    range: number,
+    shooter?: THREE.Object3D,
+    weaponType?: string
+  ): boolean;
+
+  /**
+   * Resolve a knife swing: the nearest crate in reach takes the blow
+   * @param origin Where the attacker stands
+   * @param direction The way they swing
+   * @param attacker The player object swinging, if known
+   * @returns The id of the nearest remote player the swing strikes, if any
    */
-  checkForBulletCollision(bulletPosition: THREE.Vector3): boolean;
+  resolveMelee?(
+    origin: THREE.Vector3,
+    direction: THREE.Vector3,
+    attacker?: THREE.Object3D
+  ): string | null;
 }
@@ -3,9 +3,16 @@ import { Car } from "./Car";
 import { StreetLight } from "./StreetLight";
 import { WoodenCrate } from "./WoodenCrate";
 import type { DestructibleCrate } from "./WoodenCrate";
-import type { CollisionDetector } from "./CollisionInterface";
+import type {
+  BulletHit,
+  CollisionDetector,
+  ShotCover,
+} from "./CollisionInterface";
 import type { RemotePlayerManager } from "./RemotePlayerManager";
 import { PlayerCollider } from "./PlayerCollider";
+import { KNIFE, isInMeleeReach } from "../weapons/melee";
+import { MAX_PENETRATIONS, canPenetrate } from "../weapons/surfaceMaterials";
+import type { SurfaceMaterial } from "../weapons/surfaceMaterials";
 
 /**
  * Type for car collision data
@@ -43,6 +50,22 @@ interface WoodenCrateCollider {
  */
 interface CustomObstacleCollider {
   box: THREE.Box3;
+  material: SurfaceMaterial;
+}
+
+/**
+ * Where a segment enters a box
+ */
+type SurfaceHit = Pick<BulletHit, "point" | "normal" | "distance">;
+
+/**
+ * Something a bullet can strike, and what it is made of
+ */
+interface BulletTarget {
+  box: THREE.Box3;
+  material: SurfaceMaterial;
+  object?: THREE.Object3D;
+  crate?: WoodenCrateCollider;
 }
 
 /**
@@ -61,7 +84,7 @@ export class CollisionSystem implements CollisionDetector {
   private remotePlayerManager?: RemotePlayerManager;
   private player?: THREE.Mesh;
 
-  private bulletDamage = 25; // Damage per bullet hit
+  private bulletDamage = 25; // Damage to crates from bullets that don't say
 
   constructor(remotePlayerManager?: RemotePlayerManager, player?: THREE.Mesh) {
     this.remotePlayerManager = remotePlayerManager;
@@ -118,10 +141,15 @@ export class CollisionSystem implements CollisionDetector {
 
   /**
    * Add a custom obstacle to the collision system
+   * @param material What the obstacle is made of, for bullets that hit it
    */
-  public addCustomObstacle(obstacleBox: THREE.Box3): void {
+  public addCustomObstacle(
+    obstacleBox: THREE.Box3,
+    material: SurfaceMaterial = "concrete"
+  ): void {
     this.customObstacleColliders.push({
       box: obstacleBox.clone(), // Clone to prevent outside modifications
+      material,
     });
   }
 
@@ -281,102 +309,390 @@ export class CollisionSystem implements CollisionDetector {
   }
 
   /**
-   * Check for bullet collision with any collidable object
+   * Check the segment a bullet flew this frame against every collidable
+   * object and return the nearest hit. Testing the whole segment rather
+   * than the bullet's position keeps fast bullets from tunneling through
+   * thin objects like street light poles.
+   * Player hits only stop the bullet here; hits are resolved when the shot
+   * is fired (see resolveHitscan) and damage is decided by the server.
    */
-  public checkForBulletCollision(bulletPosition: THREE.Vector3): boolean {
-    // Check collision with wooden crates
-    for (const crate of this.woodenCrateColliders) {
-      if (crate.box.containsPoint(bulletPosition)) {
-        const wasDestroyed =
-          crate.crateObj.takeDamage?.(this.bulletDamage) ?? false;
+  public checkForBulletCollision(
+    from: THREE.Vector3,
+    to: THREE.Vector3,
+    shooter?: THREE.Object3D,
+    getDamage: (distance: number) => number = () => this.bulletDamage
+  ): BulletHit | null {
+    const direction = to.clone().sub(from);
+    const length = direction.length();
+    const ray = new THREE.Ray(from.clone(), direction.normalize());
+
+    const targets = this.getObstacles();
+
+    // The local player (ignoring our own bullets, and teammates' while
+    // friendly fire is off)
+    const canHitPlayer =
+      this.remotePlayerManager?.canDamage(
+        shooter,
+        this.remotePlayerManager.getLocalUserId()
+      ) ?? true;
+    if (this.player) {
+      if (
+        shooter !== this.player &&
+        !this.player.userData.controller?.getHealth().isDead &&
+        canHitPlayer
+      ) {
+        // The shooter's client claims the hit, we only stop the bullet
+        const playerBox = PlayerCollider.createCollisionBox(
+          this.player.position,
+          PlayerCollider.getPlayerHeight(this.player)
+        );
+        targets.push({ box: playerBox, material: "flesh" });
+      }
+    } else {
+      console.warn("No local player reference in CollisionSystem");
+    }
 
-        // If the crate was destroyed, update colliders
-        if (wasDestroyed) {
-          this.updateWoodenCrateColliders();
-        }
+    // Remote players (if remotePlayerManager is available)
+    const remoteBoxes =
+      this.remotePlayerManager?.getBulletTargets(shooter) ?? [];
+    for (const box of remoteBoxes) {
+      targets.push({ box, material: "flesh" });
+    }
 
-        return true; // Bullet hit the crate
+    let nearest: SurfaceHit | null = null;
+    let struck: BulletTarget | undefined;
+    for (const target of targets) {
+      const hit = this.intersectSegmentWithBox(ray, length, target.box);
+      if (hit && (!nearest || hit.distance < nearest.distance)) {
+        nearest = hit;
+        struck = target;
+      }
+    }
+    if (!nearest || !struck) return null;
+
+    // Thin enough cover lets the bullet through, coming out the far side
+    const exit = this.getExitPoint(ray, struck.box, nearest.distance);
+    const hit: BulletHit = {
+      ...nearest,
+      material: struck.material,
+      object: struck.object ?? null,
+      exit: canPenetrate(struck.material, exit.distanceTo(nearest.point))
+        ? exit
+        : null,
+    };
+
+    // ...or just short of cover inside it, like a trunk among the leaves
+    const entry = new THREE.Vector3();
+    for (const target of targets) {
+      if (target === struck || !ray.intersectBox(target.box, entry)) continue;
+      const distance = entry.distanceTo(ray.origin);
+      if (
+        distance > nearest.distance &&
+        distance < exit.distanceTo(ray.origin)
+      ) {
+        ray.at(Math.max(nearest.distance, distance - 0.02), exit);
       }
     }
 
-    // Check collision with local player first
-    if (this.player) {
-      // Get player height using PlayerCollider utility
-      const playerHeight = PlayerCollider.getPlayerHeight(this.player);
-      const playerController = this.player.userData.controller;
-
-      // Create player collision box at current position using PlayerCollider
-      const playerBox = PlayerCollider.createCollisionBox(
-        this.player.position,
-        playerHeight
-      );
+    // Only the nearest crate along the segment takes the bullet's damage
+    if (struck.crate) {
+      const wasDestroyed =
+        struck.crate.crateObj.takeDamage?.(getDamage(hit.distance)) ?? false;
 
-      if (playerBox.containsPoint(bulletPosition)) {
-        if (playerController) {
-          playerController.takeDamage(this.bulletDamage);
-        } else {
-          console.warn("No player controller found in userData");
-        }
-        return true;
+      // If the crate was destroyed, update colliders
+      if (wasDestroyed) {
+        this.updateWoodenCrateColliders();
       }
-    } else {
-      console.warn("No local player reference in CollisionSystem");
     }
 
-    // Check collision with remote players (if remotePlayerManager is available)
-    if (this.remotePlayerManager) {
-      if (this.remotePlayerManager.checkBulletCollision(bulletPosition)) {
-        return true;
+    return hit;
+  }
+
+  /**
+   * Where something moving between two points first strikes an obstacle,
+   * for thrown grenades to bounce off. Players don't stop them.
+   */
+  public checkObstacleCollision(
+    from: THREE.Vector3,
+    to: THREE.Vector3
+  ): SurfaceHit | null {
+    const direction = to.clone().sub(from);
+    const length = direction.length();
+    if (length === 0) return null;
+    const ray = new THREE.Ray(from.clone(), direction.normalize());
+
+    let nearest: SurfaceHit | null = null;
+    for (const { box } of this.getObstacles()) {
+      const hit = this.intersectSegmentWithBox(ray, length, box);
+      if (hit && (!nearest || hit.distance < nearest.distance)) {
+        nearest = hit;
       }
     }
+    return nearest;
+  }
 
-    // Check collision with cars
-    for (const carData of this.carColliders) {
-      // Get the car's world-space box adjusted for rotation
-      const carBox = this.getRotatedCarBox(carData);
+  /**
+   * Damage every crate within reach of a blast, by how far it is from the
+   * blast's center
+   */
+  public damageCratesInBlast(
+    center: THREE.Vector3,
+    radius: number,
+    getDamage: (distance: number) => number
+  ): void {
+    let destroyed = false;
+    for (const crate of this.woodenCrateColliders) {
+      const distance = crate.box.distanceToPoint(center);
+      if (distance > radius) continue;
 
-      // Check if the bullet's position is inside the car's box
-      if (carBox.containsPoint(bulletPosition)) {
-        return true;
+      destroyed =
+        (crate.crateObj.takeDamage?.(getDamage(distance)) ?? false) ||
+        destroyed;
+    }
+
+    if (destroyed) {
+      this.updateWoodenCrateColliders();
+    }
+  }
+
+  /**
+   * Where a segment, given as a ray and its length, first enters a box.
+   * A segment starting inside the box hits it straight away, facing back
+   * along the segment.
+   */
+  private intersectSegmentWithBox(
+    ray: THREE.Ray,
+    length: number,
+    box: THREE.Box3
+  ): SurfaceHit | null {
+    if (box.containsPoint(ray.origin)) {
+      return {
+        point: ray.origin.clone(),
+        normal: ray.direction.clone().negate(),
+        distance: 0,
+      };
+    }
+
+    const point = ray.intersectBox(box, new THREE.Vector3());
+    if (!point) return null;
+
+    const distance = point.distanceTo(ray.origin);
+    if (distance > length) return null;
+
+    return { point, normal: this.getBoxNormal(box, point), distance };
+  }
+
+  /**
+   * Where a ray that entered a box at some distance comes out again
+   */
+  private getExitPoint(
+    ray: THREE.Ray,
+    box: THREE.Box3,
+    entryDistance: number
+  ): THREE.Vector3 {
+    // Look back along the ray from beyond the far side of the box
+    const diagonal = box.getSize(new THREE.Vector3()).length();
+    const beyond = ray.at(entryDistance + diagonal, new THREE.Vector3());
+    const back = new THREE.Ray(beyond, ray.direction.clone().negate());
+    return (
+      back.intersectBox(box, new THREE.Vector3()) ??
+      ray.at(entryDistance, new THREE.Vector3())
+    );
+  }
+
+  /**
+   * Outward normal of the box face a point on its surface lies on
+   */
+  private getBoxNormal(box: THREE.Box3, point: THREE.Vector3): THREE.Vector3 {
+    const normal = new THREE.Vector3();
+    let closest = Infinity;
+
+    for (const axis of ["x", "y", "z"] as const) {
+      const toMin = Math.abs(point[axis] - box.min[axis]);
+      const toMax = Math.abs(box.max[axis] - point[axis]);
+      if (toMin < closest) {
+        closest = toMin;
+        normal.set(0, 0, 0)[axis] = -1;
+      }
+      if (toMax < closest) {
+        closest = toMax;
+        normal.set(0, 0, 0)[axis] = 1;
       }
     }
+    return normal;
+  }
 
-    // Check collision with street lights
-    for (const lightData of this.streetLightColliders) {
-      // Create a box for the street light using its dimensions and position
-      const lightPosition = lightData.lightObj.position;
-      this.tempBox.min.set(
-        lightPosition.x - lightData.dimensions.x / 2,
-        lightPosition.y,
-        lightPosition.z - lightData.dimensions.z / 2
-      );
-      this.tempBox.max.set(
-        lightPosition.x + lightData.dimensions.x / 2,
-        lightPosition.y + lightData.dimensions.y,
-        lightPosition.z + lightData.dimensions.z / 2
-      );
+  /**
+   * Resolve a shot instantly along a ray. Obstacles block the shot, and the
+   * first remote player in its path is claimed as a hit with the server.
+   * Remote players are drawn where the shooter saw them when firing, so
+   * this needs no leading for the shooter's ping.
+   */
+  public resolveHitscan(
+    origin: THREE.Vector3,
+    direction: THREE.Vector3,
+    range: number,
+    shooter?: THREE.Object3D,
+    weaponType?: string
+  ): boolean {
+    // Only shots fired by the local player produce hit claims
+    if (
+      !this.remotePlayerManager ||
+      !shooter ||
+      shooter !== this.player ||
+      !weaponType
+    ) {
+      return false;
+    }
 
-      // Check if the bullet's position is inside the light's box
-      if (this.tempBox.containsPoint(bulletPosition)) {
-        return true;
+    const ray = new THREE.Ray(origin.clone(), direction.clone().normalize());
+    const { distance, cover } = this.traceShot(ray, range);
+
+    return this.remotePlayerManager.resolveHitscan(
+      ray,
+      distance,
+      weaponType,
+      shooter,
+      cover
+    );
+  }
+
+  /**
+   * Resolve a knife swing: the nearest crate in reach takes the blow, and
+   * the nearest remote player in reach, with nothing in between, is struck
+   */
+  public resolveMelee(
+    origin: THREE.Vector3,
+    direction: THREE.Vector3,
+    attacker?: THREE.Object3D
+  ): string | null {
+    const aim = { x: direction.x, z: direction.z };
+
+    let nearestCrate: WoodenCrateCollider | null = null;
+    let nearestDistance = Infinity;
+    for (const crate of this.woodenCrateColliders) {
+      const closest = crate.box.clampPoint(origin, new THREE.Vector3());
+      const distance = closest.distanceTo(origin);
+      if (distance < nearestDistance && isInMeleeReach(origin, closest, aim)) {
+        nearestCrate = crate;
+        nearestDistance = distance;
       }
     }
+    if (nearestCrate?.crateObj.takeDamage?.(KNIFE.damage)) {
+      this.updateWoodenCrateColliders();
+    }
 
-    // Check collision with custom obstacles
-    for (const obstacleData of this.customObstacleColliders) {
-      // Create a small box around the bullet for collision check
-      this.tempBox.setFromCenterAndSize(
-        bulletPosition,
-        new THREE.Vector3(0.1, 0.1, 0.1)
+    if (!this.remotePlayerManager) return null;
+    const target = this.remotePlayerManager
+      .getMeleeTargets(origin, aim, attacker)
+      .find(
+        ({ position }) =>
+          position.distanceTo(origin) < nearestDistance &&
+          !this.isLineOfSightBlocked(origin, position)
       );
+    return target?.userId ?? null;
+  }
 
-      if (this.tempBox.intersectsBox(obstacleData.box)) {
-        return true;
+  /**
+   * How far a shot along a ray gets before cover stops it, and the thinner
+   * cover it goes through on the way
+   */
+  private traceShot(
+    ray: THREE.Ray,
+    range: number
+  ): { distance: number; cover: ShotCover[] } {
+    const entries: (ShotCover & { box: THREE.Box3 })[] = [];
+    const hitPoint = new THREE.Vector3();
+    for (const { box, material } of this.getObstacles()) {
+      if (!ray.intersectBox(box, hitPoint)) continue;
+
+      const distance = hitPoint.distanceTo(ray.origin);
+      if (distance < range) entries.push({ distance, material, box });
+    }
+    entries.sort((a, b) => a.distance - b.distance);
+
+    const cover: ShotCover[] = [];
+    for (const { distance, material, box } of entries) {
+      const exit = this.getExitPoint(ray, box, distance);
+      const thickness = exit.distanceTo(ray.origin) - distance;
+      if (
+        cover.length >= MAX_PENETRATIONS ||
+        !canPenetrate(material, thickness)
+      ) {
+        return { distance, cover };
       }
+      cover.push({ distance, material });
     }
+    return { distance: range, cover };
+  }
 
-    // No collision detected
-    return false;
+  /**
+   * The remote player a shot along a ray would reach first, or null if an
+   * obstacle or nothing is in the way
+   */
+  public findAimedPlayer(ray: THREE.Ray, range: number): string | null {
+    if (!this.remotePlayerManager) return null;
+
+    const maxDistance = Math.min(range, this.getObstacleDistance(ray));
+    return this.remotePlayerManager.findAimedPlayer(
+      ray,
+      maxDistance,
+      this.player
+    );
+  }
+
+  /**
+   * Whether an obstacle stands between two points
+   */
+  public isLineOfSightBlocked(from: THREE.Vector3, to: THREE.Vector3): boolean {
+    const direction = to.clone().sub(from);
+    const distance = direction.length();
+    if (distance === 0) return false;
+
+    const ray = new THREE.Ray(from.clone(), direction.normalize());
+    return this.getObstacleDistance(ray) < distance;
+  }
+
+  /**
+   * Distance along a ray to the nearest obstacle, or Infinity if none
+   */
+  private getObstacleDistance(ray: THREE.Ray): number {
+    let nearest = Infinity;
+    const hitPoint = new THREE.Vector3();
+    for (const { box } of this.getObstacles()) {
+      if (ray.intersectBox(box, hitPoint)) {
+        nearest = Math.min(nearest, hitPoint.distanceTo(ray.origin));
+      }
+    }
+    return nearest;
+  }
+
+  /**
+   * Every static obstacle bullets can strike, with cars' boxes adjusted
+   * for rotation
+   */
+  private getObstacles(): BulletTarget[] {
+    return [
+      ...this.woodenCrateColliders.map((crate): BulletTarget => ({
+        box: crate.box,
+        material: "wood",
+        object: crate.crateObj,
+        crate,
+      })),
+      ...this.carColliders.map((carData): BulletTarget => ({
+        box: this.getRotatedCarBox(carData),
+        material: "metal",
+        object: carData.carObj,
+      })),
+      ...this.streetLightColliders.map((lightData): BulletTarget => ({
+        box: lightData.box,
+        material: "metal",
+        object: lightData.lightObj,
+      })),
+      ...this.customObstacleColliders.map(
+        ({ box, material }): BulletTarget => ({ box, material })
+      ),
+    ];
   }
 
   /**
@@ -2,6 +2,16 @@ import * as THREE from "three";
 import type { CollisionSystem } from "./CollisionSystem";
 import type { RemotePlayerManager } from "./RemotePlayerManager";
 import { PlayerCollider } from "./PlayerCollider";
+import type { HitZone } from "../weapons/damage";
+
+/**
+ * Outline colors of the hit zones
+ */
+const HIT_ZONE_COLORS: Record<HitZone, number> = {
+  head: 0xffff00,
+  torso: 0xff8800,
+  legs: 0x00ffff,
+};
 
 /**
  * Handles debug visualization for the game
@@ -276,6 +286,24 @@ export class DebugVisualizer {
 
     this.scene.add(playerMesh);
     this.debugHelpers.push(playerMesh);
+    this.createHitZoneVisualization(playerPosition, playerHeight);
+  }
+
+  /**
+   * Outline a player's head, torso and leg boxes
+   */
+  private createHitZoneVisualization(
+    playerPosition: THREE.Vector3,
+    playerHeight: number
+  ): void {
+    for (const { zone, box } of PlayerCollider.createHitZoneBoxes(
+      playerPosition,
+      playerHeight
+    )) {
+      const helper = new THREE.Box3Helper(box, HIT_ZONE_COLORS[zone]);
+      this.scene.add(helper);
+      this.debugHelpers.push(helper);
+    }
   }
 
   /**
@@ -301,6 +329,7 @@ export class DebugVisualizer {
 
       this.scene.add(playerMesh);
       this.debugHelpers.push(playerMesh);
+      this.createHitZoneVisualization(player.mesh.position, playerHeight);
     }
   }
 }
@@ -0,0 +1,138 @@
+import * as THREE from "three";
+import { SURFACE_MATERIALS } from "../weapons/surfaceMaterials";
+import type { SurfaceMaterial } from "../weapons/surfaceMaterials";
+
+/**
+ * How many bullet marks a scene keeps and for how long
+ */
+export interface DecalSettings {
+  budget: number; // Most decals at once; the oldest make way for new ones
+  lifetime: number; // Seconds a decal stays before it starts fading
+  fadeTime: number; // Seconds it takes to fade out
+  size: number; // Diameter (units)
+}
+
+interface Decal {
+  mesh: THREE.Mesh<THREE.CircleGeometry, THREE.MeshBasicMaterial>;
+  age: number;
+  active: boolean;
+}
+
+const FORWARD = new THREE.Vector3(0, 0, 1);
+
+/**
+ * Leaves bullet marks on the surfaces bullets strike. Marks come from a
+ * fixed pool per scene, so heavy fire reuses the oldest marks instead of
+ * adding meshes without end.
+ */
+export class DecalManager {
+  private static managers = new WeakMap<THREE.Scene, DecalManager>();
+
+  private scene: THREE.Scene;
+  private budget: number;
+  private lifetime: number;
+  private fadeTime: number;
+  private size: number;
+  private geometry = new THREE.CircleGeometry(0.5, 10);
+  private decals: Decal[] = [];
+
+  /**
+   * The decals of a scene, shared by every weapon firing in it
+   */
+  public static forScene(scene: THREE.Scene): DecalManager {
+    let manager = DecalManager.managers.get(scene);
+    if (!manager) {
+      manager = new DecalManager(scene);
+      DecalManager.managers.set(scene, manager);
+    }
+    return manager;
+  }
+
+  constructor(scene: THREE.Scene, settings?: Partial<DecalSettings>) {
+    this.scene = scene;
+    this.budget = settings?.budget || 64;
+    this.lifetime = settings?.lifetime || 20;
+    this.fadeTime = settings?.fadeTime || 3;
+    this.size = settings?.size || 0.15;
+  }
+
+  /**
+   * Mark a surface where a bullet struck it. Marks on an object that can
+   * move or be removed, like a crate, are attached to it.
+   * @param normal The surface normal, facing away from the surface
+   */
+  public addDecal(
+    point: THREE.Vector3,
+    normal: THREE.Vector3,
+    material: SurfaceMaterial,
+    object?: THREE.Object3D | null
+  ): void {
+    const color = SURFACE_MATERIALS[material].decalColor;
+    if (color === null) return;
+
+    const decal = this.takeDecal();
+    const { mesh } = decal;
+    decal.age = 0;
+    decal.active = true;
+
+    // Lay the mark flat on the surface, lifted a little off it so it
+    // doesn't flicker, and spun at random so marks don't all look alike
+    mesh.removeFromParent();
+    mesh.position.copy(point).addScaledVector(normal, 0.01);
+    mesh.quaternion.setFromUnitVectors(FORWARD, normal);
+    mesh.rotateZ(Math.random() * Math.PI * 2);
+    mesh.scale.setScalar(this.size * (0.8 + Math.random() * 0.4));
+    mesh.material.color.setHex(color);
+    mesh.material.opacity = 0.85;
+    mesh.visible = true;
+
+    (object ?? this.scene).attach(mesh);
+  }
+
+  /**
+   * Age the marks, fading out and freeing those past their lifetime
+   */
+  public update(delta: number): void {
+    for (const decal of this.decals) {
+      if (!decal.active) continue;
+
+      decal.age += delta;
+      const fade = (decal.age - this.lifetime) / this.fadeTime;
+      if (fade >= 1) {
+        decal.active = false;
+        decal.mesh.visible = false;
+        decal.mesh.removeFromParent();
+      } else if (fade > 0) {
+        decal.mesh.material.opacity = 0.85 * (1 - fade);
+      }
+    }
+  }
+
+  /**
+   * A free decal from the pool, a new one while under budget, or else the
+   * oldest one
+   */
+  private takeDecal(): Decal {
+    const free = this.decals.find((decal) => !decal.active);
+    if (free) return free;
+
+    if (this.decals.length < this.budget) {
+      const mesh = new THREE.Mesh(
+        this.geometry,
+        new THREE.MeshBasicMaterial({
+          transparent: true,
+          depthWrite: false,
+          polygonOffset: true,
+          polygonOffsetFactor: -4,
+        })
+      );
+      const decal: Decal = { mesh, age: 0, active: false };
+      this.decals.push(decal);
+      return decal;
+    }
+
+    return this.decals.reduce((oldest, decal) =>
+      decal.age > oldest.age ? decal : oldest
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import * as THREE from "three";
+import { GAME_EVENTS, TEAMS } from "../events/constants";
+import { EventListener } from "../events/eventListener";
+import type { FlagState, TeamId } from "../events/types";
+
+/**
+ * Finds the object of a player by their user id
+ */
+export type PlayerLocator = (userId: string) => THREE.Object3D | undefined;
+
+interface Flag {
+  mesh: THREE.Group;
+  state: FlagState;
+}
+
+/**
+ * Capture-the-flag flags in the world, placed where the server says they
+ * are. Carried flags ride on their carrier's back between updates.
+ */
+export class FlagManager {
+  private scene: THREE.Scene;
+  private locatePlayer: PlayerLocator;
+  private flags: Map<TeamId, Flag> = new Map();
+
+  constructor(scene: THREE.Scene, locatePlayer: PlayerLocator) {
+    this.scene = scene;
+    this.locatePlayer = locatePlayer;
+
+    const events = EventListener.getInstance();
+    events.on(GAME_EVENTS.MATCH.STATE, ({ flags }) => this.setFlags(flags));
+
+    // A new match (or none) starts without flags until its state arrives
+    events.on(GAME_EVENTS.USER.WELCOME, () => this.setFlags([]));
+  }
+
+  /**
+   * Keep carried flags with their carriers
+   */
+  public update(): void {
+    for (const flag of this.flags.values()) {
+      const carrier = flag.state.carrierId
+        ? this.locatePlayer(flag.state.carrierId)
+        : undefined;
+
+      if (carrier) {
+        flag.mesh.position.copy(carrier.position);
+        flag.mesh.position.y += 0.5;
+      } else {
+        const { x, y, z } = flag.state.position;
+        flag.mesh.position.set(x, y - 1, z);
+      }
+    }
+  }
+
+  private setFlags(states: FlagState[]): void {
+    for (const [team, flag] of this.flags) {
+      if (!states.some((state) => state.team === team)) {
+        this.scene.remove(flag.mesh);
+        this.flags.delete(team);
+      }
+    }
+
+    for (const state of states) {
+      let flag = this.flags.get(state.team);
+      if (!flag) {
+        flag = { mesh: this.createFlagMesh(state.team), state };
+        this.scene.add(flag.mesh);
+        this.flags.set(state.team, flag);
+      }
+      flag.state = state;
+    }
+    this.update();
+  }
+
+  /**
+   * A pole with a cloth in the team's color, standing on the ground
+   */
+  private createFlagMesh(team: TeamId): THREE.Group {
+    const group = new THREE.Group();
+
+    const pole = new THREE.Mesh(
+      new THREE.CylinderGeometry(0.05, 0.05, 2.5),
+      new THREE.MeshStandardMaterial({ color: 0xcccccc })
+    );
+    pole.position.y = 1.25;
+    pole.castShadow = true;
+
+    const cloth = new THREE.Mesh(
+      new THREE.BoxGeometry(0.9, 0.6, 0.05),
+      new THREE.MeshStandardMaterial({
+        color: TEAMS[team].color,
+        emissive: TEAMS[team].color,
+        emissiveIntensity: 0.3,
+      })
+    );
+    cloth.position.set(0.45, 2.15, 0);
+    cloth.castShadow = true;
+
+    group.add(pole, cloth);
+    return group;
+  }
+}
@@ -0,0 +1,178 @@
+import * as THREE from "three";
+import { GRENADE } from "../weapons/grenades";
+import type { CollisionSystem } from "./CollisionSystem";
+
+/**
+ * Longest step (seconds) grenade flight is simulated in, so fast grenades
+ * can't skip through thin obstacles and every client sees the same bounces
+ */
+const MAX_STEP = 1 / 60;
+
+/**
+ * Slowest a grenade leaves the ground at after a bounce (units/s); anything
+ * slower and it rolls instead
+ */
+const MIN_BOUNCE_SPEED = 1;
+
+/**
+ * Share of its speed along the ground a grenade keeps bouncing off it
+ */
+const GROUND_GRIP = 0.6;
+
+/**
+ * Where a grenade is and how it is moving
+ */
+export interface GrenadeState {
+  position: THREE.Vector3;
+  velocity: THREE.Vector3;
+}
+
+/**
+ * Move a grenade along by a step of time: it falls, bounces off the
+ * ground and obstacles, and rolls to a stop
+ */
+export function stepGrenade(
+  state: GrenadeState,
+  delta: number,
+  collisionSystem: CollisionSystem
+): void {
+  let left = delta;
+  while (left > 0) {
+    const step = Math.min(left, MAX_STEP);
+    left -= step;
+
+    const { position, velocity } = state;
+    const rolling = position.y <= GRENADE.radius && velocity.y === 0;
+    if (rolling) {
+      velocity.multiplyScalar(Math.exp(-GRENADE.rollingFriction * step));
+    } else {
+      velocity.y -= GRENADE.gravity * step;
+    }
+
+    const next = position.clone().addScaledVector(velocity, step);
+    const hit = collisionSystem.checkObstacleCollision(position, next);
+    if (hit) {
+      velocity.reflect(hit.normal).multiplyScalar(GRENADE.bounce);
+      next.copy(hit.point).addScaledVector(hit.normal, GRENADE.radius);
+    }
+
+    if (next.y <= GRENADE.radius) {
+      next.y = GRENADE.radius;
+      if (velocity.y < 0) {
+        velocity.y = -velocity.y * GRENADE.bounce;
+        // The ground scuffs off some of its speed along it too
+        velocity.x *= GROUND_GRIP;
+        velocity.z *= GROUND_GRIP;
+        if (velocity.y < MIN_BOUNCE_SPEED) velocity.y = 0;
+      }
+    }
+
+    position.copy(next);
+  }
+}
+
+/**
+ * Velocity to lob a grenade at a target on the ground, thrown upwards at
+ * 45 degrees. Targets out of reach get the hardest throw there is.
+ */
+export function getThrowVelocity(
+  from: THREE.Vector3,
+  target: THREE.Vector3
+): THREE.Vector3 {
+  const direction = target.clone().sub(from).setY(0);
+  const distance = direction.length();
+  if (distance < 0.001) direction.set(0, 0, -1);
+  direction.normalize();
+
+  // Ignoring the throw height, range = speed^2 / gravity at 45 degrees
+  const speed = Math.min(
+    Math.sqrt(distance * GRENADE.gravity),
+    GRENADE.maxThrowSpeed
+  );
+  const component = speed * Math.SQRT1_2;
+  return direction.multiplyScalar(component).setY(component);
+}
+
+/**
+ * The path a grenade thrown from a point with a velocity will take until
+ * its fuse burns, sampled for drawing
+ */
+export function predictGrenadePath(
+  from: THREE.Vector3,
+  velocity: THREE.Vector3,
+  collisionSystem: CollisionSystem,
+  sampleInterval = 0.05
+): THREE.Vector3[] {
+  const state: GrenadeState = {
+    position: from.clone(),
+    velocity: velocity.clone(),
+  };
+  const path = [state.position.clone()];
+  for (let t = 0; t < GRENADE.fuseSeconds; t += sampleInterval) {
+    stepGrenade(state, sampleInterval, collisionSystem);
+    path.push(state.position.clone());
+  }
+  return path;
+}
+
+/**
+ * A thrown frag grenade, bouncing around until its fuse burns
+ */
+export class Grenade {
+  public readonly mesh: THREE.Mesh;
+  private state: GrenadeState;
+  private age = 0; // Seconds since it was thrown
+
+  constructor(
+    scene: THREE.Scene,
+    position: THREE.Vector3,
+    velocity: THREE.Vector3
+  ) {
+    this.mesh = new THREE.Mesh(
+      new THREE.SphereGeometry(GRENADE.radius, 10, 8),
+      new THREE.MeshStandardMaterial({ color: 0x2f3b26, roughness: 0.6 })
+    );
+    this.mesh.castShadow = true;
+    this.mesh.position.copy(position);
+    scene.add(this.mesh);
+
+    this.state = { position: position.clone(), velocity: velocity.clone() };
+  }
+
+  /**
+   * Fly, bounce and roll for a frame, and burn the fuse
+   */
+  public update(delta: number, collisionSystem: CollisionSystem): void {
+    this.age += delta;
+    stepGrenade(this.state, delta, collisionSystem);
+    this.mesh.position.copy(this.state.position);
+
+    // Tumble along the way it is moving
+    this.mesh.rotation.x += this.state.velocity.z * delta * 4;
+    this.mesh.rotation.z -= this.state.velocity.x * delta * 4;
+  }
+
+  /**
+   * Whether the fuse has burnt down
+   */
+  public isFuseBurnt(): boolean {
+    return this.age >= GRENADE.fuseSeconds;
+  }
+
+  /**
+   * Seconds since it was thrown
+   */
+  public getAge(): number {
+    return this.age;
+  }
+
+  public getPosition(): THREE.Vector3 {
+    return this.state.position.clone();
+  }
+
+  public dispose(): void {
+    this.mesh.removeFromParent();
+    this.mesh.geometry.dispose();
+    (this.mesh.material as THREE.Material).dispose();
+  }
+}
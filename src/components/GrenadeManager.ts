@@ -0,0 +1,388 @@
+import * as THREE from "three";
+import { GAME_EVENTS } from "../events/constants";
+import { EventListener } from "../events/eventListener";
+import { NetworkedEntity } from "../events/networkedEntity";
+import type {
+  GrenadeExplodeEvent,
+  GrenadeThrowEvent,
+  RemoteEvent,
+} from "../events/types";
+import {
+  GRENADE,
+  getBlastDamage,
+  getBlastKnockback,
+} from "../weapons/grenades";
+import type { CollisionSystem } from "./CollisionSystem";
+import { Grenade, predictGrenadePath } from "./Grenade";
+import type { PlayerController } from "./PlayerController";
+import type { RemotePlayerManager } from "./RemotePlayerManager";
+
+/**
+ * Seconds past its fuse a remote grenade waits for its thrower to say
+ * where it went off, before it is dropped
+ */
+const EXPLOSION_TIMEOUT = 2;
+
+/**
+ * Height above a blast's center that line of sight to players is checked
+ * from, so a grenade resting against a kerb still reaches over it
+ */
+const BLAST_EYE_HEIGHT = 0.3;
+
+interface LiveGrenade {
+  grenade: Grenade;
+  ownerId: string | null; // null for the local player's
+  grenadeId: number;
+}
+
+/**
+ * Thrown grenades: the local player's, which this client sets off and
+ * reports, and other players', which go off where their throwers say.
+ * Blasts hurt players in the open, push the local player away and break
+ * crates.
+ */
+export class GrenadeManager extends NetworkedEntity {
+  private scene: THREE.Scene;
+  private collisionSystem: CollisionSystem;
+  private remotePlayerManager: RemotePlayerManager;
+  private playerController: PlayerController;
+  private player: THREE.Object3D;
+  private grenades: Map<string, LiveGrenade> = new Map();
+  private nextId = 0;
+  private grenadesLeft: number = GRENADE.carried;
+  private lastThrowAt = -Infinity; // performance.now()
+  private preview: THREE.Line;
+  private previewRing: THREE.Mesh;
+
+  constructor(
+    scene: THREE.Scene,
+    collisionSystem: CollisionSystem,
+    remotePlayerManager: RemotePlayerManager,
+    playerController: PlayerController,
+    player: THREE.Object3D
+  ) {
+    super();
+    this.scene = scene;
+    this.collisionSystem = collisionSystem;
+    this.remotePlayerManager = remotePlayerManager;
+    this.playerController = playerController;
+    this.player = player;
+
+    // The path a throw would take, and where it would go off
+    this.preview = new THREE.Line(
+      new THREE.BufferGeometry(),
+      new THREE.LineDashedMaterial({
+        color: 0xffffff,
+        dashSize: 0.3,
+        gapSize: 0.2,
+        transparent: true,
+        opacity: 0.8,
+      })
+    );
+    this.previewRing = new THREE.Mesh(
+      new THREE.RingGeometry(
+        GRENADE.blastRadius - 0.15,
+        GRENADE.blastRadius,
+        48
+      ),
+      new THREE.MeshBasicMaterial({
+        color: 0xff5533,
+        transparent: true,
+        opacity: 0.5,
+        side: THREE.DoubleSide,
+        depthWrite: false,
+      })
+    );
+    this.previewRing.rotation.x = -Math.PI / 2;
+    this.hidePreview();
+    this.scene.add(this.preview, this.previewRing);
+
+    const events = EventListener.getInstance();
+    events.onRemote(GAME_EVENTS.GRENADE.THROW, (event) =>
+      this.handleRemoteThrow(event)
+    );
+    events.onRemote(GAME_EVENTS.GRENADE.EXPLODE, (event) =>
+      this.handleRemoteExplode(event)
+    );
+
+    // A new match (or session) starts with no grenades in the air
+    events.on(GAME_EVENTS.USER.WELCOME, () => {
+      this.clear();
+      this.nextId = 0;
+      this.refill();
+    });
+  }
+
+  /**
+   * Whether the local player has a grenade ready to throw
+   */
+  public canThrow(): boolean {
+    return (
+      this.grenadesLeft > 0 &&
+      performance.now() - this.lastThrowAt >= GRENADE.throwInterval * 1000
+    );
+  }
+
+  /**
+   * Throw one of the local player's grenades and tell the others about it
+   */
+  public throwGrenade(from: THREE.Vector3, velocity: THREE.Vector3): void {
+    if (!this.canThrow()) return;
+
+    this.grenadesLeft--;
+    this.lastThrowAt = performance.now();
+
+    const grenadeId = this.nextId++;
+    this.addGrenade(null, grenadeId, from, velocity);
+    this.emit(GAME_EVENTS.GRENADE.THROW, {
+      grenadeId,
+      position: { x: from.x, y: from.y, z: from.z },
+      velocity: { x: velocity.x, y: velocity.y, z: velocity.z },
+    });
+  }
+
+  /**
+   * Draw the path a throw would take and the reach of its blast
+   */
+  public showPreview(from: THREE.Vector3, velocity: THREE.Vector3): void {
+    const path = predictGrenadePath(from, velocity, this.collisionSystem);
+    this.preview.geometry.setFromPoints(path);
+    this.preview.computeLineDistances();
+    this.preview.visible = true;
+
+    const landing = path[path.length - 1];
+    this.previewRing.position.set(landing.x, 0.05, landing.z);
+    this.previewRing.visible = true;
+  }
+
+  public hidePreview(): void {
+    this.preview.visible = false;
+    this.previewRing.visible = false;
+  }
+
+  /**
+   * How many grenades the local player has left to throw
+   */
+  public getGrenadesLeft(): number {
+    return this.grenadesLeft;
+  }
+
+  /**
+   * Give the local player a full set of grenades, as on respawning
+   */
+  public refill(): void {
+    this.grenadesLeft = GRENADE.carried;
+  }
+
+  /**
+   * Fly the grenades, and set off the local player's once their fuses burn
+   */
+  public update(delta: number): void {
+    for (const [key, live] of this.grenades) {
+      live.grenade.update(delta, this.collisionSystem);
+      if (!live.grenade.isFuseBurnt()) continue;
+
+      if (live.ownerId === null) {
+        this.removeGrenade(key);
+        this.detonate(live);
+      } else {
+        // Hidden until its thrower says where it went off
+        live.grenade.mesh.visible = false;
+        if (live.grenade.getAge() > GRENADE.fuseSeconds + EXPLOSION_TIMEOUT) {
+          this.removeGrenade(key);
+        }
+      }
+    }
+  }
+
+  /**
+   * Remove every grenade, e.g. when the match they were thrown in is over
+   */
+  public clear(): void {
+    for (const key of [...this.grenades.keys()]) {
+      this.removeGrenade(key);
+    }
+    this.hidePreview();
+  }
+
+  private handleRemoteThrow(event: RemoteEvent<GrenadeThrowEvent>): void {
+    const { x, y, z } = event.position;
+    const velocity = event.velocity;
+    this.addGrenade(
+      event.userId,
+      event.grenadeId,
+      new THREE.Vector3(x, y, z),
+      new THREE.Vector3(velocity.x, velocity.y, velocity.z)
+    );
+  }
+
+  private handleRemoteExplode(event: RemoteEvent<GrenadeExplodeEvent>): void {
+    this.removeGrenade(this.getKey(event.userId, event.grenadeId));
+
+    const { x, y, z } = event.position;
+    this.explode(new THREE.Vector3(x, y, z));
+  }
+
+  /**
+   * Set off one of the local player's grenades: report the players its
+   * blast reaches past cover, so the server can hurt them
+   */
+  private detonate(live: LiveGrenade): void {
+    const center = live.grenade.getPosition();
+    const eye = center.clone().setY(center.y + BLAST_EYE_HEIGHT);
+
+    const targetIds: string[] = [];
+    const targets = this.remotePlayerManager.getBlastTargets(
+      center,
+      GRENADE.blastRadius
+    );
+    for (const [userId, position] of targets) {
+      if (!this.collisionSystem.isLineOfSightBlocked(eye, position)) {
+        targetIds.push(userId);
+      }
+    }
+
+    this.emit(GAME_EVENTS.GRENADE.EXPLODE, {
+      grenadeId: live.grenadeId,
+      position: { x: center.x, y: center.y, z: center.z },
+      targetIds,
+    });
+    this.explode(center);
+  }
+
+  /**
+   * What a blast does on this client: it shows, breaks crates and pushes
+   * the local player away if it reaches them
+   */
+  private explode(center: THREE.Vector3): void {
+    this.showExplosion(center);
+    this.collisionSystem.damageCratesInBlast(
+      center,
+      GRENADE.blastRadius,
+      getBlastDamage
+    );
+
+    if (this.playerController.getHealth().isDead) return;
+
+    const eye = center.clone().setY(center.y + BLAST_EYE_HEIGHT);
+    const distance = this.player.position.distanceTo(center);
+    if (distance > GRENADE.blastRadius) return;
+    if (this.collisionSystem.isLineOfSightBlocked(eye, this.player.position)) {
+      return;
+    }
+
+    const away = this.player.position.clone().sub(center).setY(0);
+    if (away.lengthSq() < 0.001) away.set(0, 0, 1);
+    this.playerController.applyKnockback(
+      away.normalize().multiplyScalar(getBlastKnockback(distance))
+    );
+  }
+
+  /**
+   * A flash and a burst of debris that fade away
+   */
+  private showExplosion(center: THREE.Vector3): void {
+    const flash = new THREE.Mesh(
+      new THREE.SphereGeometry(1, 16, 12),
+      new THREE.MeshBasicMaterial({
+        color: 0xffaa33,
+        transparent: true,
+        opacity: 0.9,
+        depthWrite: false,
+      })
+    );
+    flash.position.copy(center);
+    this.scene.add(flash);
+
+    const debrisCount = 40;
+    const debris = new THREE.BufferGeometry();
+    const positions = new Float32Array(debrisCount * 3);
+    const velocities: THREE.Vector3[] = [];
+    for (let i = 0; i < debrisCount; i++) {
+      positions[i * 3] = center.x;
+      positions[i * 3 + 1] = center.y;
+      positions[i * 3 + 2] = center.z;
+      const velocity = new THREE.Vector3().randomDirection();
+      velocity.y = Math.abs(velocity.y);
+      velocities.push(velocity.multiplyScalar(4 + Math.random() * 6));
+    }
+    debris.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+    const debrisMaterial = new THREE.PointsMaterial({
+      color: 0x555047,
+      size: 0.12,
+      transparent: true,
+    });
+    const points = new THREE.Points(debris, debrisMaterial);
+    this.scene.add(points);
+
+    const lifetime = 1;
+    let age = 0;
+    const updateExplosion = (delta: number) => {
+      age += delta;
+
+      if (age >= lifetime) {
+        this.scene.remove(flash, points);
+        flash.geometry.dispose();
+        flash.material.dispose();
+        debris.dispose();
+        debrisMaterial.dispose();
+        window.__impactAnimations = window.__impactAnimations.filter(
+          (fn) => fn !== updateExplosion
+        );
+        return;
+      }
+
+      // The flash swells to the blast's reach and fades
+      const progress = age / lifetime;
+      flash.scale.setScalar(
+        GRENADE.blastRadius * Math.min(1, (progress * 4) ** 0.5)
+      );
+      flash.material.opacity = 0.9 * Math.max(0, 1 - progress * 3);
+
+      const attribute = debris.getAttribute(
+        "position"
+      ) as THREE.BufferAttribute;
+      for (let i = 0; i < debrisCount; i++) {
+        velocities[i].y -= GRENADE.gravity * delta;
+        const y = Math.max(0, attribute.getY(i) + velocities[i].y * delta);
+        attribute.setXYZ(
+          i,
+          attribute.getX(i) + velocities[i].x * delta,
+          y,
+          attribute.getZ(i) + velocities[i].z * delta
+        );
+      }
+      attribute.needsUpdate = true;
+      debrisMaterial.opacity = 1 - progress;
+    };
+
+    window.__impactAnimations = window.__impactAnimations || [];
+    window.__impactAnimations.push(updateExplosion);
+  }
+
+  private addGrenade(
+    ownerId: string | null,
+    grenadeId: number,
+    position: THREE.Vector3,
+    velocity: THREE.Vector3
+  ): void {
+    const key = this.getKey(ownerId, grenadeId);
+    this.removeGrenade(key);
+    this.grenades.set(key, {
+      grenade: new Grenade(this.scene, position, velocity),
+      ownerId,
+      grenadeId,
+    });
+  }
+
+  private removeGrenade(key: string): void {
+    const live = this.grenades.get(key);
+    if (!live) return;
+    live.grenade.dispose();
+    this.grenades.delete(key);
+  }
+
+  private getKey(ownerId: string | null, grenadeId: number): string {
+    return `${ownerId ?? "local"}:${grenadeId}`;
+  }
+}
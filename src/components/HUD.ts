@@ -1,5 +1,35 @@
 import type { IsometricControls } from "./IsometricControls";
-import { WeaponType } from "./Weapon";
+import { INVENTORY_SIZE, WeaponType } from "./Weapon";
+import type { ConnectionStatus } from "../api/connection";
+import type { PlayerStats } from "../events/types";
+import type { DeathRecap, DamageSource } from "./PlayerController";
+import { TeamRoster } from "./TeamRoster";
+import { getWeaponDefinitionByType } from "../weapons/weaponDefinitions";
+import { KNIFE, MELEE_SLOT } from "../weapons/melee";
+
+/**
+ * Most kills the feed shows at once, and how long (ms) each stays
+ */
+const KILL_FEED_SIZE = 5;
+const KILL_FEED_DURATION = 6000;
+
+/**
+ * How far (px) the crosshair's ticks spread apart per degree of spread
+ */
+const CROSSHAIR_BLOOM_SCALE = 3;
+
+/**
+ * One line of the kill feed
+ */
+export interface KillFeedEntry {
+  killerName: string | null; // Null when nobody gets the credit
+  victimName: string;
+  weaponName?: string;
+  headshot?: boolean;
+  wallbang?: boolean;
+  backstab?: boolean;
+  involvesLocalPlayer?: boolean;
+}
 
 export class HUD {
   private container: HTMLElement;
@@ -20,11 +50,25 @@ export class HUD {
   > = new Map();
   // Death overlay
   private deathOverlay: HTMLElement | null = null;
+  private deathKillerElement: HTMLElement | null = null;
+  private deathBreakdownElement: HTMLElement | null = null;
+  private respawnCountdownElement: HTMLElement | null = null;
+  private restartButton: HTMLButtonElement | null = null;
+  private respawnTimer: number | null = null;
+  // Recent kills, top right
+  private killFeedElement: HTMLElement | null = null;
+  // Connection state badge
+  private connectionElement: HTMLElement | null = null;
+  // Scoreboard, shown while Tab is held
+  private scoreboardElement: HTMLElement | null = null;
+  private scoreboardBody: HTMLElement | null = null;
 
   private weaponSlots: HTMLElement[] = [];
   private healthBarElement: HTMLElement | null = null;
   private healthValueElement: HTMLElement | null = null;
   private crosshairElement: HTMLElement | null = null;
+  private scopeOverlay: HTMLElement | null = null;
+  private grenadeCountElement: HTMLElement | null = null;
 
   // Mouse position tracking
   private mouseX = 0;
@@ -51,10 +95,22 @@ export class HUD {
       "notification-container"
     );
     this.deathOverlay = document.getElementById("death-overlay");
+    this.deathKillerElement = document.getElementById("death-killer");
+    this.deathBreakdownElement = document.getElementById("death-breakdown");
+    this.respawnCountdownElement = document.getElementById("respawn-countdown");
+    this.restartButton = document.getElementById(
+      "restart-button"
+    ) as HTMLButtonElement | null;
+    this.killFeedElement = document.getElementById("kill-feed");
+    this.connectionElement = document.getElementById("connection-indicator");
+    this.scoreboardElement = document.getElementById("scoreboard");
+    this.scoreboardBody = document.getElementById("scoreboard-body");
 
     this.healthBarElement = document.getElementById("health-bar-fill");
     this.healthValueElement = document.getElementById("health-value");
     this.crosshairElement = document.getElementById("crosshair");
+    this.scopeOverlay = document.getElementById("scope-overlay");
+    this.grenadeCountElement = document.getElementById("grenade-count");
 
     // Create weapon slots
     this.createWeaponSlots();
@@ -65,7 +121,11 @@ export class HUD {
         // Left mouse button
         const ammoInfo = this.controls.getAmmoInfo();
 
-        if (ammoInfo.current <= 0 && !ammoInfo.isReloading) {
+        if (
+          !ammoInfo.isMelee &&
+          ammoInfo.current <= 0 &&
+          !ammoInfo.isReloading
+        ) {
           if (ammoInfo.total > 0) {
             // Has reserve ammo, show reload message
             this.showEmptyMagIndicator();
@@ -96,9 +156,31 @@ export class HUD {
       }
     });
 
+    // Hold Tab to see the scoreboard
+    document.addEventListener("keydown", (event: KeyboardEvent) => {
+      if (event.key === "Tab") {
+        event.preventDefault();
+        this.scoreboardElement?.classList.remove("hidden");
+      }
+    });
+    document.addEventListener("keyup", (event: KeyboardEvent) => {
+      if (event.key === "Tab") {
+        this.scoreboardElement?.classList.add("hidden");
+      }
+    });
+    // The keyup never arrives if the window loses focus while Tab is held
+    window.addEventListener("blur", () => {
+      this.scoreboardElement?.classList.add("hidden");
+    });
+
     // Listen for player death event
-    document.addEventListener("player-death", () => {
-      this.showDeathOverlay();
+    document.addEventListener("player-death", (event) => {
+      this.showDeathOverlay((event as CustomEvent<DeathRecap>).detail);
+    });
+
+    // The player can also come back to life without pressing restart
+    document.addEventListener("player-resurrect", () => {
+      this.hideDeathOverlay();
     });
 
     // Add restart button click handler
@@ -108,6 +190,10 @@ export class HUD {
         this.hideDeathOverlay();
         this.restartGame();
       }
+      // The next life starts with whatever is picked
+      if (target.id === "death-loadout-button") {
+        document.dispatchEvent(new CustomEvent("open-loadout"));
+      }
     });
   }
 
@@ -115,14 +201,16 @@ export class HUD {
     const overlay = document.createElement("div");
     overlay.className = "ui-overlay";
     overlay.innerHTML = `
-     <div id="inventory" class="inventory-container" style="position: absolute; bottom: 10px; left: 0; right: 0; margin: 0 auto; width: 400px; background: rgba(0, 0, 0, 0.6); padding: 15px; border-radius: 5px; text-align: center; pointer-events: auto;">
+     <div id="inventory" class="inventory-container" style="position: absolute; bottom: 10px; left: 0; right: 0; margin: 0 auto; width: 610px; background: rgba(0, 0, 0, 0.6); padding: 15px; border-radius: 5px; text-align: center; pointer-events: auto;">
         <h3>Inventory</h3>
         <div class="weapon-slots">
           <div id="weapon-slot-0" class="weapon-slot"></div>
           <div id="weapon-slot-1" class="weapon-slot"></div>
           <div id="weapon-slot-2" class="weapon-slot"></div>
+          <div id="weapon-slot-3" class="weapon-slot"></div>
+          <div id="weapon-slot-4" class="weapon-slot"></div>
         </div>
-        <p class="inventory-tip">Press 1-3 to switch weapons, Q/E to cycle, or G to drop</p>
+        <p class="inventory-tip">Press 1-4 to switch weapons, 5 for the knife, Q/E to cycle, or G to drop</p>
       </div>
 
       <div class="fps-counter" id="fps">FPS: 0</div>
@@ -138,6 +226,7 @@ export class HUD {
         <span id="current-ammo">0</span>
         <span class="ammo-separator">/</span>
         <span id="total-ammo">0</span>
+        <span class="grenade-count" id="grenade-count" title="Grenades (hold F to aim)">💣 0</span>
       </div>
       
       <div id="reload-indicator" class="reload-indicator hidden">Reloading...</div>
@@ -146,15 +235,50 @@ export class HUD {
       
       <div class="inventory" id="inventory"></div>
       
-      <div id="crosshair" class="crosshair">+</div>
+      <div id="scope-overlay" class="scope-overlay hidden"></div>
+      <div id="crosshair" class="crosshair">
+        <span class="crosshair-tick top"></span>
+        <span class="crosshair-tick bottom"></span>
+        <span class="crosshair-tick left"></span>
+        <span class="crosshair-tick right"></span>
+      </div>
 
       <!-- Add notification container -->
       <div id="notification-container" class="notification-container"></div>
+
+      <!-- Kill feed -->
+      <div id="kill-feed" class="kill-feed"></div>
+
+      <!-- Connection state -->
+      <div id="connection-indicator" class="connection-indicator hidden"></div>
+
+      <!-- Scoreboard -->
+      <div id="scoreboard" class="scoreboard hidden">
+        <table>
+          <thead>
+            <tr>
+              <th class="scoreboard-name">Player</th>
+              <th>Score</th>
+              <th>K</th>
+              <th>D</th>
+              <th>A</th>
+              <th>Dealt</th>
+              <th>Taken</th>
+              <th>Accuracy</th>
+            </tr>
+          </thead>
+          <tbody id="scoreboard-body"></tbody>
+        </table>
+      </div>
       
       <!-- Death overlay -->
       <div id="death-overlay" class="death-overlay hidden">
         <div class="death-message">You Died</div>
+        <div id="death-killer" class="death-killer"></div>
+        <ul id="death-breakdown" class="death-breakdown"></ul>
+        <div id="respawn-countdown" class="respawn-countdown"></div>
         <button id="restart-button" class="restart-button">Restart Game</button>
+        <button id="death-loadout-button" class="death-loadout-button">Change loadout</button>
       </div>
     `;
 
@@ -163,7 +287,7 @@ export class HUD {
     style.textContent = `
       .notification-container {
         position: absolute;
-        top: 20px;
+        top: 220px;
         right: 20px;
         display: flex;
         flex-direction: column;
@@ -245,6 +369,171 @@ export class HUD {
         color: rgba(255, 255, 255, 0.4);
       }
       
+      /* Connection indicator styles */
+      .connection-indicator {
+        position: absolute;
+        top: 70px;
+        left: 50%;
+        transform: translateX(-50%);
+        background-color: rgba(0, 0, 0, 0.75);
+        color: white;
+        padding: 8px 15px;
+        border-radius: 5px;
+        border-left: 4px solid #cccc00;
+        font-family: Arial, sans-serif;
+        font-size: 14px;
+        z-index: 1000;
+        pointer-events: none;
+      }
+      
+      .connection-indicator.offline {
+        border-left-color: #ff4444;
+      }
+      
+      .connection-indicator.hidden {
+        display: none;
+      }
+      
+      /* Kill feed styles */
+      .kill-feed {
+        position: absolute;
+        top: 50px;
+        right: 20px;
+        display: flex;
+        flex-direction: column;
+        align-items: flex-end;
+        gap: 4px;
+        font-family: Arial, sans-serif;
+        font-size: 14px;
+        z-index: 1000;
+        pointer-events: none;
+      }
+      
+      .kill-feed-entry {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+        background-color: rgba(0, 0, 0, 0.6);
+        color: white;
+        padding: 4px 10px;
+        border-radius: 3px;
+      }
+      
+      .kill-feed-entry.local {
+        border: 1px solid #ff4444;
+      }
+      
+      .kill-feed-weapon svg {
+        display: block;
+        width: 40px;
+        height: 16px;
+      }
+      
+      .kill-feed-marker {
+        font-size: 10px;
+        font-weight: bold;
+        color: #ffcc00;
+        border: 1px solid #ffcc00;
+        border-radius: 2px;
+        padding: 0 3px;
+      }
+      
+      /* Scoreboard styles */
+      .scoreboard {
+        position: absolute;
+        top: 50%;
+        left: 50%;
+        transform: translate(-50%, -50%);
+        background-color: rgba(0, 0, 0, 0.8);
+        color: white;
+        padding: 15px 20px;
+        border-radius: 5px;
+        font-family: Arial, sans-serif;
+        font-size: 14px;
+        z-index: 1500;
+        pointer-events: none;
+        min-width: 520px;
+      }
+      
+      .scoreboard.hidden {
+        display: none;
+      }
+      
+      .scoreboard table {
+        width: 100%;
+        border-collapse: collapse;
+      }
+      
+      .scoreboard th,
+      .scoreboard td {
+        padding: 5px 8px;
+        text-align: right;
+      }
+      
+      .scoreboard th {
+        border-bottom: 1px solid rgba(255, 255, 255, 0.3);
+        opacity: 0.8;
+      }
+      
+      .scoreboard .scoreboard-name {
+        text-align: left;
+      }
+      
+      .scoreboard-swatch {
+        display: inline-block;
+        width: 10px;
+        height: 10px;
+        border-radius: 50%;
+        margin-right: 8px;
+      }
+      
+      .scoreboard tr.local {
+        background-color: rgba(74, 144, 226, 0.3);
+      }
+      
+      /* Scope overlay, dark all around a clear circle at the crosshair */
+      .scope-overlay {
+        position: fixed;
+        top: 0;
+        left: 0;
+        width: 100%;
+        height: 100%;
+        pointer-events: none;
+        z-index: 900;
+        background: radial-gradient(
+          circle at var(--scope-x, 50%) var(--scope-y, 50%),
+          transparent 0,
+          transparent 140px,
+          rgba(0, 0, 0, 0.9) 143px
+        );
+      }
+
+      .scope-overlay::before,
+      .scope-overlay::after {
+        content: "";
+        position: absolute;
+        background: rgba(0, 0, 0, 0.7);
+        transform: translate(-50%, -50%);
+      }
+
+      .scope-overlay::before {
+        left: var(--scope-x, 50%);
+        top: var(--scope-y, 50%);
+        width: 280px;
+        height: 1px;
+      }
+
+      .scope-overlay::after {
+        left: var(--scope-x, 50%);
+        top: var(--scope-y, 50%);
+        width: 1px;
+        height: 280px;
+      }
+
+      .scope-overlay.hidden {
+        display: none;
+      }
+
       /* Death overlay styles */
       .death-overlay {
         position: fixed;
@@ -276,6 +565,36 @@ export class HUD {
         font-weight: bold;
       }
       
+      .death-killer {
+        font-size: 24px;
+        color: #ffffff;
+        margin-bottom: 16px;
+        font-family: Arial, sans-serif;
+      }
+      
+      .death-breakdown {
+        list-style: none;
+        padding: 10px 15px;
+        margin: 0 0 40px;
+        min-width: 260px;
+        background-color: rgba(0, 0, 0, 0.5);
+        border-radius: 5px;
+        color: #ffffff;
+        font-family: Arial, sans-serif;
+        font-size: 14px;
+      }
+      
+      .death-breakdown:empty {
+        display: none;
+      }
+      
+      .death-breakdown li {
+        display: flex;
+        justify-content: space-between;
+        gap: 20px;
+        padding: 3px 0;
+      }
+      
       .restart-button {
         background-color: #ffffff;
         color: #880000;
@@ -297,6 +616,35 @@ export class HUD {
       .restart-button:active {
         transform: scale(0.95);
       }
+      
+      .restart-button:disabled {
+        opacity: 0.5;
+        cursor: default;
+        transform: none;
+      }
+      
+      .death-loadout-button {
+        margin-top: 12px;
+        background: none;
+        color: #ffffff;
+        font-size: 16px;
+        border: 1px solid #ffffff;
+        border-radius: 5px;
+        padding: 8px 16px;
+        cursor: pointer;
+        font-family: Arial, sans-serif;
+      }
+      
+      .respawn-countdown {
+        color: #ffffff;
+        font-size: 18px;
+        margin-bottom: 16px;
+        font-family: Arial, sans-serif;
+      }
+      
+      .respawn-countdown:empty {
+        display: none;
+      }
     `;
 
     document.head.appendChild(style);
@@ -309,7 +657,7 @@ export class HUD {
     const currentWeaponIndex = this.controls.getCurrentWeaponIndex();
 
     // Create weapon slots
-    for (let i = 0; i < 3; i++) {
+    for (let i = 0; i < INVENTORY_SIZE; i++) {
       const slotElement = document.getElementById(`weapon-slot-${i}`);
       if (slotElement) {
         // Save reference to slot
@@ -344,6 +692,28 @@ export class HUD {
         });
       }
     }
+
+    // The knife has a slot of its own after the weapons
+    const knifeSlot = document.getElementById(`weapon-slot-${MELEE_SLOT}`);
+    if (knifeSlot) {
+      this.weaponSlots[MELEE_SLOT] = knifeSlot;
+      knifeSlot.innerHTML = this.getKnifeSlotContent(
+        currentWeaponIndex === MELEE_SLOT
+      );
+      knifeSlot.addEventListener("click", () => {
+        this.controls.switchToWeapon(MELEE_SLOT);
+      });
+    }
+  }
+
+  private getKnifeSlotContent(selected: boolean): string {
+    return `
+      <div class="weapon-icon ${selected ? "selected" : ""}">
+        <div class="weapon-image">${this.getWeaponIcon(KNIFE.name)}</div>
+        <span class="weapon-name">${KNIFE.name}</span>
+        <span class="weapon-ammo">-</span>
+      </div>
+    `;
   }
 
   private showEmptyMagIndicator(): void {
@@ -413,6 +783,46 @@ export class HUD {
     this.updateInventoryDisplay();
     this.updateHealthDisplay();
     this.updateCrosshairPosition(); // Update crosshair in main loop
+    this.updateCrosshairBloom();
+    this.updateCrosshairTarget();
+    this.updateScopeOverlay();
+    this.updateGrenadeCount();
+  }
+
+  // Show how many grenades the local player has left
+  private updateGrenadeCount(): void {
+    if (!this.grenadeCountElement) return;
+
+    const grenadesLeft = this.controls.getGrenadesLeft();
+    this.grenadeCountElement.textContent = `💣 ${grenadesLeft}`;
+    this.grenadeCountElement.classList.toggle("empty", grenadesLeft === 0);
+  }
+
+  // Look through the scope while the local player aims down one
+  private updateScopeOverlay(): void {
+    if (!this.scopeOverlay) return;
+
+    const scoped = this.controls.isScoped();
+    this.scopeOverlay.classList.toggle("hidden", !scoped);
+    if (scoped) {
+      this.scopeOverlay.style.setProperty("--scope-x", `${this.mouseX}px`);
+      this.scopeOverlay.style.setProperty("--scope-y", `${this.mouseY}px`);
+    }
+  }
+
+  // Spread the crosshair's ticks as far apart as shots may stray
+  private updateCrosshairBloom(): void {
+    const bloom = this.controls.getSpread() * CROSSHAIR_BLOOM_SCALE;
+    this.crosshairElement?.style.setProperty("--bloom", `${bloom}px`);
+  }
+
+  // Show the ally crosshair while a teammate is in our sights
+  private updateCrosshairTarget(): void {
+    const aimedAt = this.controls.getAimedPlayerId();
+    this.crosshairElement?.classList.toggle(
+      "ally",
+      aimedAt !== null && TeamRoster.getInstance().isTeammate(aimedAt)
+    );
   }
 
   private updateFPS(): void {
@@ -437,7 +847,7 @@ export class HUD {
     const ammoInfo = this.controls.getAmmoInfo();
 
     if (this.currentAmmoElement) {
-      if (ammoInfo.isEmpty) {
+      if (ammoInfo.isEmpty || ammoInfo.isMelee) {
         this.currentAmmoElement.textContent = "-";
       } else {
         this.currentAmmoElement.textContent = ammoInfo.current.toString();
@@ -445,7 +855,7 @@ export class HUD {
     }
 
     if (this.totalAmmoElement) {
-      if (ammoInfo.isEmpty) {
+      if (ammoInfo.isEmpty || ammoInfo.isMelee) {
         this.totalAmmoElement.textContent = "-";
       } else {
         this.totalAmmoElement.textContent = ammoInfo.total.toString();
@@ -474,7 +884,7 @@ export class HUD {
     const currentWeaponIndex = this.controls.getCurrentWeaponIndex();
 
     // Update each weapon slot
-    for (let i = 0; i < this.weaponSlots.length; i++) {
+    for (let i = 0; i < INVENTORY_SIZE; i++) {
       const slotElement = this.weaponSlots[i];
       if (slotElement && i < inventory.length) {
         const weapon = inventory[i];
@@ -511,8 +921,18 @@ export class HUD {
             </div>
           `;
         }
+      } else if (slotElement) {
+        // Respawning with a loadout leaves the slots beyond it free
+        slotElement.innerHTML = "";
       }
     }
+
+    const knifeSlot = this.weaponSlots[MELEE_SLOT];
+    if (knifeSlot) {
+      knifeSlot.innerHTML = this.getKnifeSlotContent(
+        currentWeaponIndex === MELEE_SLOT
+      );
+    }
   }
 
   private updateHealthDisplay(): void {
@@ -546,7 +966,7 @@ export class HUD {
   }
 
   // Helper method to get SVG icon for each weapon type
-  private getWeaponIcon(weaponName: string): string {
+  public getWeaponIcon(weaponName: string): string {
     switch (weaponName) {
       case "Pistol":
         return `<svg viewBox="0 0 100 40" xmlns="http://www.w3.org/2000/svg">
@@ -595,6 +1015,47 @@ export class HUD {
           <!-- Trigger guard -->
           <path d="M30,30 L45,30 L45,35 L35,35 Z" fill="#614126" />
         </svg>`;
+      case "Sniper":
+        return `<svg viewBox="0 0 100 40" xmlns="http://www.w3.org/2000/svg">
+          <!-- Long barrel -->
+          <rect x="60" y="19" width="40" height="3" rx="1" fill="#555" />
+          <!-- Receiver -->
+          <rect x="25" y="17" width="35" height="7" rx="1" fill="#4a5a3a" />
+          <!-- Stock -->
+          <path d="M0,17 L25,17 L25,24 L8,30 L0,30 Z" fill="#3d4a30" />
+          <!-- Scope -->
+          <rect x="32" y="9" width="24" height="5" rx="2" fill="#222" />
+          <rect x="38" y="14" width="3" height="3" fill="#333" />
+          <rect x="48" y="14" width="3" height="3" fill="#333" />
+          <!-- Bolt -->
+          <rect x="30" y="22" width="6" height="3" rx="1" fill="#999" />
+          <!-- Grip -->
+          <rect x="22" y="24" width="7" height="10" rx="1" fill="#3d4a30" transform="rotate(-10, 22, 24)" />
+        </svg>`;
+      case "Grenade":
+        return `<svg viewBox="0 0 100 40" xmlns="http://www.w3.org/2000/svg">
+          <!-- Body -->
+          <ellipse cx="50" cy="24" rx="11" ry="13" fill="#4a5a3a" />
+          <rect x="40" y="20" width="20" height="2" fill="#3d4a30" />
+          <rect x="40" y="27" width="20" height="2" fill="#3d4a30" />
+          <!-- Fuse and lever -->
+          <rect x="46" y="7" width="8" height="5" rx="1" fill="#777" />
+          <path d="M54,8 L62,10 L60,22 L57,22 L58,12 L54,11 Z" fill="#999" />
+          <!-- Pin ring -->
+          <circle cx="42" cy="9" r="3.5" fill="none" stroke="#bbb" stroke-width="1.5" />
+        </svg>`;
+      case "Knife":
+        return `<svg viewBox="0 0 100 40" xmlns="http://www.w3.org/2000/svg">
+          <!-- Blade -->
+          <path d="M44,17 L82,17 Q88,19 82,23 L44,23 Z" fill="#c8ccd0" />
+          <rect x="44" y="17" width="36" height="1.5" fill="#eef0f2" />
+          <!-- Guard -->
+          <rect x="40" y="13" width="4" height="14" fill="#555" />
+          <!-- Handle -->
+          <rect x="16" y="16" width="24" height="8" rx="2" fill="#3a2a1a" />
+          <rect x="22" y="16" width="2" height="8" fill="#2a1e12" />
+          <rect x="30" y="16" width="2" height="8" fill="#2a1e12" />
+        </svg>`;
       case "Empty":
         return `<svg viewBox="0 0 100 40" xmlns="http://www.w3.org/2000/svg">
           <rect x="30" y="15" width="40" height="10" fill="#444" fill-opacity="0.3" />
@@ -733,29 +1194,216 @@ export class HUD {
    * Get weapon name from weapon type
    */
   private getWeaponNameFromType(weaponType: WeaponType): string {
-    switch (weaponType) {
-      case WeaponType.DEFAULT:
-        return "Default";
-      case WeaponType.PISTOL:
-        return "Pistol";
-      case WeaponType.RIFLE:
-        return "Assault Rifle";
-      case WeaponType.SHOTGUN:
-        return "Shotgun";
-      case WeaponType.SNIPER:
-        return "Sniper";
+    if (weaponType === WeaponType.DEFAULT) {
+      return "Default";
+    }
+    return getWeaponDefinitionByType(weaponType)?.name ?? "Unknown";
+  }
+
+  /**
+   * Fill the scoreboard with the match's stats, in the order given
+   */
+  public updateScoreboard(
+    players: PlayerStats[],
+    localUserId: string | null
+  ): void {
+    if (!this.scoreboardBody) return;
+
+    const rows = players.map((stats) => {
+      const row = document.createElement("tr");
+      row.classList.toggle("local", stats.userId === localUserId);
+
+      const name = document.createElement("td");
+      name.className = "scoreboard-name";
+      const swatch = document.createElement("span");
+      swatch.className = "scoreboard-swatch";
+      swatch.style.backgroundColor = stats.color;
+      name.append(swatch, stats.name);
+      row.appendChild(name);
+
+      const accuracy =
+        stats.shotsFired > 0
+          ? `${Math.round((stats.shotsHit / stats.shotsFired) * 100)}%`
+          : "-";
+      for (const value of [
+        stats.score,
+        stats.kills,
+        stats.deaths,
+        stats.assists,
+        Math.round(stats.damageDealt),
+        Math.round(stats.damageTaken),
+        accuracy,
+      ]) {
+        const cell = document.createElement("td");
+        cell.textContent = String(value);
+        row.appendChild(cell);
+      }
+
+      return row;
+    });
+
+    this.scoreboardBody.replaceChildren(...rows);
+  }
+
+  /**
+   * Add a kill to the feed. Entries drop off after a while, or sooner when
+   * the feed fills up.
+   */
+  public addKillFeedEntry(entry: KillFeedEntry): void {
+    if (!this.killFeedElement) return;
+
+    const item = document.createElement("div");
+    item.className = "kill-feed-entry";
+    item.classList.toggle("local", entry.involvesLocalPlayer === true);
+
+    if (entry.killerName !== null) {
+      const killer = document.createElement("span");
+      killer.textContent = entry.killerName;
+      item.appendChild(killer);
+    }
+
+    const weapon = document.createElement("span");
+    weapon.className = "kill-feed-weapon";
+    if (entry.weaponName) {
+      weapon.innerHTML = this.getWeaponIcon(entry.weaponName);
+      weapon.title = entry.weaponName;
+    } else {
+      weapon.textContent = "💀";
+    }
+    item.appendChild(weapon);
+
+    if (entry.wallbang) {
+      item.appendChild(this.createKillFeedMarker("WB", "Wallbang"));
+    }
+    if (entry.headshot) {
+      item.appendChild(this.createKillFeedMarker("HS", "Headshot"));
+    }
+    if (entry.backstab) {
+      item.appendChild(this.createKillFeedMarker("BS", "Backstab"));
+    }
+
+    const victim = document.createElement("span");
+    victim.textContent = entry.victimName;
+    item.appendChild(victim);
+
+    this.killFeedElement.appendChild(item);
+    while (this.killFeedElement.children.length > KILL_FEED_SIZE) {
+      this.killFeedElement.firstElementChild?.remove();
+    }
+    window.setTimeout(() => item.remove(), KILL_FEED_DURATION);
+  }
+
+  private createKillFeedMarker(label: string, title: string): HTMLElement {
+    const marker = document.createElement("span");
+    marker.className = "kill-feed-marker";
+    marker.textContent = label;
+    marker.title = title;
+    return marker;
+  }
+
+  /**
+   * Show where the connection to the server stands (hidden while connected)
+   */
+  public setConnectionStatus(status: ConnectionStatus): void {
+    if (!this.connectionElement) return;
+
+    const element = this.connectionElement;
+    element.classList.toggle("hidden", status.state === "connected");
+    element.classList.toggle("offline", status.state === "offline");
+
+    switch (status.state) {
+      case "connecting":
+        element.textContent = "Connecting to server...";
+        break;
+      case "reconnecting":
+        element.textContent =
+          status.attempt > 0
+            ? `Connection lost - reconnecting (attempt ${status.attempt})...`
+            : "Connection lost - reconnecting...";
+        break;
+      case "offline":
+        element.textContent = status.reason
+          ? `Offline: ${status.reason}`
+          : "Offline";
+        break;
       default:
-        return "Unknown";
+        element.textContent = "";
     }
   }
 
   /**
-   * Show the death overlay
+   * Show the death overlay, with who killed the player and who hurt them
    */
-  private showDeathOverlay(): void {
+  private showDeathOverlay(recap?: DeathRecap): void {
+    if (this.deathKillerElement) {
+      this.deathKillerElement.textContent = recap?.killer
+        ? this.describeKiller(recap.killer)
+        : "";
+    }
+
+    if (this.deathBreakdownElement) {
+      const rows = (recap?.attackers ?? []).map((tally) => {
+        const row = document.createElement("li");
+        const name = document.createElement("span");
+        name.textContent = tally.source.name;
+        const damage = document.createElement("span");
+        damage.textContent = `${Math.round(tally.damage)} damage`;
+        // Environment damage ticks every frame, so only count weapon hits
+        if (tally.source.weaponName) {
+          damage.textContent += ` (${tally.hits} ${tally.hits === 1 ? "hit" : "hits"})`;
+        }
+        row.append(name, damage);
+        return row;
+      });
+      this.deathBreakdownElement.replaceChildren(...rows);
+    }
+
     if (this.deathOverlay) {
       this.deathOverlay.classList.remove("hidden");
     }
+
+    // Count down until the player may respawn
+    this.updateRespawnCountdown();
+    if (this.respawnTimer === null) {
+      this.respawnTimer = window.setInterval(
+        () => this.updateRespawnCountdown(),
+        100
+      );
+    }
+  }
+
+  /**
+   * Show how long until the player may respawn, and only let them once
+   * the delay is over
+   */
+  private updateRespawnCountdown(): void {
+    const delayLeft =
+      this.controls.getPlayerController()?.getRespawnDelayLeft() ?? 0;
+
+    if (this.respawnCountdownElement) {
+      this.respawnCountdownElement.textContent =
+        delayLeft > 0 ? `Respawn in ${Math.ceil(delayLeft / 1000)}` : "";
+    }
+    if (this.restartButton) {
+      this.restartButton.disabled = delayLeft > 0;
+    }
+  }
+
+  private describeKiller(killer: DamageSource): string {
+    let text = `Killed by ${killer.name}`;
+    if (killer.weaponName) {
+      text += ` with ${killer.weaponName}`;
+    }
+    if (killer.wallbang) {
+      text += " through cover";
+    }
+    if (killer.headshot) {
+      text += " (headshot)";
+    }
+    if (killer.backstab) {
+      text += " (in the back)";
+    }
+    return text;
   }
 
   /**
@@ -765,6 +1413,11 @@ export class HUD {
     if (this.deathOverlay) {
       this.deathOverlay.classList.add("hidden");
     }
+
+    if (this.respawnTimer !== null) {
+      clearInterval(this.respawnTimer);
+      this.respawnTimer = null;
+    }
   }
 
   /**
@@ -1,4 +1,5 @@
 import * as THREE from "three";
+import { MELEE_SLOT } from "../weapons/melee";
 
 // Mouse event type extension
 interface MouseEvent {
@@ -26,11 +27,17 @@ export class InputManager {
   private onShootCallbacks: InputCallback[] = [];
   private onReloadCallbacks: InputCallback[] = [];
   private onWeaponSwitchCallbacks: ((index: number) => void)[] = [];
+  private onTriggerCallbacks: ((held: boolean) => void)[] = [];
+  private onAimCallbacks: ((aiming: boolean) => void)[] = [];
+  private onGrenadeCallbacks: ((held: boolean) => void)[] = [];
   private onMouseMoveCallbacks: ((mousePos: THREE.Vector2) => void)[] = [];
 
   // Input state
   private keyboardEnabled = true;
   private mouseEnabled = true;
+  private triggerHeld = false;
+  private aiming = false;
+  private holdingGrenade = false;
 
   constructor(private domElement: HTMLCanvasElement) {
     this.initControls();
@@ -43,6 +50,7 @@ export class InputManager {
     this.keyboardEnabled = false;
     // Clear all currently pressed keys
     this.keys = {};
+    this.setHoldingGrenade(false);
   }
 
   /**
@@ -57,6 +65,9 @@ export class InputManager {
    */
   public disableMouseInput(): void {
     this.mouseEnabled = false;
+    // Let go of the trigger and the scope
+    this.setTriggerHeld(false);
+    this.setAiming(false);
   }
 
   /**
@@ -118,6 +129,16 @@ export class InputManager {
             callback(2);
           }
           break;
+        case "Digit4":
+          for (const callback of this.onWeaponSwitchCallbacks) {
+            callback(3);
+          }
+          break;
+        case "Digit5":
+          for (const callback of this.onWeaponSwitchCallbacks) {
+            callback(MELEE_SLOT);
+          }
+          break;
         case "KeyQ":
           for (const callback of this.onWeaponSwitchCallbacks) {
             callback(-1); // Previous
@@ -128,6 +149,10 @@ export class InputManager {
             callback(-2); // Next
           }
           break;
+        case "KeyF":
+          // Held to aim a grenade
+          this.setHoldingGrenade(true);
+          break;
       }
     });
 
@@ -136,6 +161,10 @@ export class InputManager {
       if (!this.keyboardEnabled) return;
 
       this.keys[event.code] = false;
+
+      if (event.code === "KeyF") {
+        this.setHoldingGrenade(false);
+      }
     });
 
     // Mouse click event for shooting
@@ -144,14 +173,51 @@ export class InputManager {
 
       const mouseEvent = event as unknown as MouseEvent;
       if (mouseEvent.button === 0) {
-        // Left mouse button
+        // Left mouse button, held for automatic fire
+        this.setTriggerHeld(true);
         for (const callback of this.onShootCallbacks) {
           callback();
         }
+      } else if (mouseEvent.button === 2) {
+        // Right mouse button, held to aim down the scope
+        this.setAiming(true);
+      }
+    });
+
+    // Listen on the document, so releasing outside the canvas still counts
+    document.addEventListener("mouseup", (event) => {
+      if (event.button === 0) {
+        this.setTriggerHeld(false);
+      } else if (event.button === 2) {
+        this.setAiming(false);
       }
     });
   }
 
+  private setTriggerHeld(held: boolean): void {
+    if (held === this.triggerHeld) return;
+    this.triggerHeld = held;
+    for (const callback of this.onTriggerCallbacks) {
+      callback(held);
+    }
+  }
+
+  private setAiming(aiming: boolean): void {
+    if (aiming === this.aiming) return;
+    this.aiming = aiming;
+    for (const callback of this.onAimCallbacks) {
+      callback(aiming);
+    }
+  }
+
+  private setHoldingGrenade(held: boolean): void {
+    if (held === this.holdingGrenade) return;
+    this.holdingGrenade = held;
+    for (const callback of this.onGrenadeCallbacks) {
+      callback(held);
+    }
+  }
+
   /**
    * Check if a key is currently pressed
    */
@@ -173,6 +239,14 @@ export class InputManager {
     this.onShootCallbacks.push(callback);
   }
 
+  /**
+   * Register callback for when the left mouse button is pressed or
+   * released, so weapons can keep firing while it is held
+   */
+  public onTrigger(callback: (held: boolean) => void): void {
+    this.onTriggerCallbacks.push(callback);
+  }
+
   /**
    * Register callback for reload event
    */
@@ -187,6 +261,22 @@ export class InputManager {
     this.onWeaponSwitchCallbacks.push(callback);
   }
 
+  /**
+   * Register callback for when the right mouse button is pressed or
+   * released, to aim down the scope
+   */
+  public onAim(callback: (aiming: boolean) => void): void {
+    this.onAimCallbacks.push(callback);
+  }
+
+  /**
+   * Register callback for when the grenade key is pressed or released, to
+   * aim a grenade and throw it
+   */
+  public onGrenade(callback: (held: boolean) => void): void {
+    this.onGrenadeCallbacks.push(callback);
+  }
+
   /**
    * Register callback for mouse move event
    */
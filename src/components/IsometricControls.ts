@@ -2,7 +2,7 @@ import type * as THREE from "three";
 import { WeaponSystem } from "./Weapon";
 import type { Weapon } from "./Weapon";
 import { Car } from "./Car";
-import type { CollisionDetector } from "./CollisionInterface";
+import type { BulletHit, CollisionDetector } from "./CollisionInterface";
 import { InputManager } from "./InputManager";
 import { CollisionSystem } from "./CollisionSystem";
 import { CameraController } from "./CameraController";
@@ -103,8 +103,37 @@ export class IsometricControls implements CollisionDetector {
   /**
    * Implement CollisionDetector interface method
    */
-  public checkForBulletCollision(bulletPosition: THREE.Vector3): boolean {
-    return this.collisionSystem.checkForBulletCollision(bulletPosition);
+  public checkForBulletCollision(
+    from: THREE.Vector3,
+    to: THREE.Vector3,
+    shooter?: THREE.Object3D,
+    getDamage?: (distance: number) => number
+  ): BulletHit | null {
+    return this.collisionSystem.checkForBulletCollision(
+      from,
+      to,
+      shooter,
+      getDamage
+    );
+  }
+
+  /**
+   * Implement CollisionDetector interface method
+   */
+  public resolveHitscan(
+    origin: THREE.Vector3,
+    direction: THREE.Vector3,
+    range: number,
+    shooter?: THREE.Object3D,
+    weaponType?: string
+  ): boolean {
+    return this.collisionSystem.resolveHitscan(
+      origin,
+      direction,
+      range,
+      shooter,
+      weaponType
+    );
   }
 
   /**
@@ -165,6 +194,13 @@ export class IsometricControls implements CollisionDetector {
     return this.playerController.getCurrentWeaponIndex();
   }
 
+  /**
+   * Name of the weapon in hand, the knife included
+   */
+  public getCurrentWeaponName(): string {
+    return this.weaponSystem.getCurrentWeapon().name;
+  }
+
   /**
    * Get player health information
    */
@@ -200,6 +236,37 @@ export class IsometricControls implements CollisionDetector {
     return this.collisionSystem;
   }
 
+  /**
+   * The remote player in the local player's sights, if any
+   */
+  public getAimedPlayerId(): string | null {
+    return this.collisionSystem.findAimedPlayer(
+      this.weaponSystem.getAimRay(),
+      this.weaponSystem.getRange()
+    );
+  }
+
+  /**
+   * How far (degrees) the local player's shots may stray, for the HUD
+   */
+  public getSpread(): number {
+    return this.weaponSystem.getSpread();
+  }
+
+  /**
+   * Whether the local player is aiming down a scope, for the HUD
+   */
+  public isScoped(): boolean {
+    return this.weaponSystem.isScoped();
+  }
+
+  /**
+   * How many grenades the local player has left, for the HUD
+   */
+  public getGrenadesLeft(): number {
+    return this.playerController.getGrenadesLeft();
+  }
+
   /**
    * Switch to a specific weapon by index
    */
@@ -0,0 +1,212 @@
+import { LobbyClient } from "../api/lobby";
+import type { Loadout, WeaponLoadout } from "../events/types";
+import {
+  ATTACHMENT_DEFINITIONS,
+  WEAPON_DEFINITIONS,
+  getWeaponDefinition,
+} from "../weapons/weaponDefinitions";
+import type { WeaponSlot } from "../weapons/weaponDefinitions";
+
+const SLOTS: WeaponSlot[] = ["primary", "secondary"];
+
+/**
+ * Pick the primary and secondary weapon to spawn with, and the attachments
+ * fitted to each. Opened from the lobby and the death screen by an
+ * "open-loadout" event; the pick applies from the next spawn.
+ */
+export class LoadoutScreen {
+  private lobby = LobbyClient.getInstance();
+  private overlay: HTMLElement;
+  private weaponSelects: Record<WeaponSlot, HTMLSelectElement>;
+  private attachmentLists: Record<WeaponSlot, HTMLElement>;
+
+  constructor(container: HTMLElement) {
+    this.overlay = this.createOverlay();
+    container.appendChild(this.overlay);
+
+    this.weaponSelects = {
+      primary: this.find("#loadout-primary"),
+      secondary: this.find("#loadout-secondary"),
+    };
+    this.attachmentLists = {
+      primary: this.find("#loadout-primary-attachments"),
+      secondary: this.find("#loadout-secondary-attachments"),
+    };
+
+    this.bindControls();
+    document.addEventListener("open-loadout", () => this.open());
+  }
+
+  /**
+   * Show the screen with the loadout picked last
+   */
+  public open(): void {
+    const { loadout } = this.lobby.getState();
+    for (const slot of SLOTS) {
+      this.weaponSelects[slot].value = loadout[slot].weapon;
+      this.renderAttachments(slot, loadout[slot].attachments);
+    }
+    this.overlay.classList.remove("hidden");
+  }
+
+  public close(): void {
+    this.overlay.classList.add("hidden");
+  }
+
+  private createOverlay(): HTMLElement {
+    const overlay = document.createElement("div");
+    overlay.className = "loadout-screen hidden";
+    overlay.innerHTML = `
+      <div class="loadout-panel">
+        <h2>Loadout</h2>
+        ${SLOTS.map(
+          (slot) => `
+            <h3>${slot === "primary" ? "Primary" : "Secondary"}</h3>
+            <select id="loadout-${slot}">
+              ${WEAPON_DEFINITIONS.filter((weapon) => weapon.slot === slot)
+                .map(({ name }) => `<option value="${name}">${name}</option>`)
+                .join("")}
+            </select>
+            <div id="loadout-${slot}-attachments" class="loadout-attachments"></div>
+          `
+        ).join("")}
+        <div class="loadout-row">
+          <button id="loadout-save">Save</button>
+          <button id="loadout-cancel">Cancel</button>
+        </div>
+      </div>
+    `;
+
+    const style = document.createElement("style");
+    style.textContent = `
+      .loadout-screen {
+        position: fixed;
+        top: 0;
+        left: 0;
+        width: 100%;
+        height: 100%;
+        background-color: rgba(0, 0, 0, 0.6);
+        display: flex;
+        justify-content: center;
+        align-items: center;
+        z-index: 3100;
+        font-family: Arial, sans-serif;
+        color: white;
+      }
+
+      .loadout-panel {
+        background-color: rgba(20, 20, 30, 0.95);
+        padding: 20px 30px;
+        border-radius: 8px;
+        width: 360px;
+        box-shadow: 0 4px 16px rgba(0, 0, 0, 0.4);
+      }
+
+      .loadout-panel h2,
+      .loadout-panel h3 {
+        margin: 0 0 12px;
+      }
+
+      .loadout-panel select {
+        width: 100%;
+        margin-bottom: 8px;
+      }
+
+      .loadout-attachments {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 4px 16px;
+        margin-bottom: 16px;
+        min-height: 1em;
+      }
+
+      .loadout-attachments .empty {
+        opacity: 0.6;
+      }
+
+      .loadout-row {
+        display: flex;
+        gap: 8px;
+      }
+
+      .loadout-screen.hidden {
+        display: none;
+      }
+    `;
+
+    document.head.appendChild(style);
+    return overlay;
+  }
+
+  private bindControls(): void {
+    // Picking a loadout must not move the player or fire
+    for (const type of ["keydown", "keyup", "mousedown", "click"]) {
+      this.overlay.addEventListener(type, (event) => event.stopPropagation());
+    }
+
+    // Another weapon takes other attachments
+    for (const slot of SLOTS) {
+      this.weaponSelects[slot].addEventListener("change", () =>
+        this.renderAttachments(slot, [])
+      );
+    }
+
+    this.find("#loadout-save").addEventListener("click", () => {
+      const loadout: Loadout = {
+        primary: this.getPicked("primary"),
+        secondary: this.getPicked("secondary"),
+      };
+      this.lobby.setLoadout(loadout);
+      this.close();
+    });
+
+    this.find("#loadout-cancel").addEventListener("click", () => this.close());
+  }
+
+  /**
+   * List the attachments the weapon picked for a slot takes, ticking those
+   * already fitted
+   */
+  private renderAttachments(slot: WeaponSlot, fitted: string[]): void {
+    const list = this.attachmentLists[slot];
+    list.replaceChildren();
+
+    const weapon = getWeaponDefinition(this.weaponSelects[slot].value);
+    const attachments = ATTACHMENT_DEFINITIONS.filter((attachment) =>
+      weapon?.attachments.includes(attachment.id)
+    );
+
+    if (attachments.length === 0) {
+      const empty = document.createElement("span");
+      empty.className = "empty";
+      empty.textContent = "No attachments";
+      list.appendChild(empty);
+      return;
+    }
+
+    for (const attachment of attachments) {
+      const label = document.createElement("label");
+      const checkbox = document.createElement("input");
+      checkbox.type = "checkbox";
+      checkbox.value = attachment.id;
+      checkbox.checked = fitted.includes(attachment.id);
+      label.append(checkbox, ` ${attachment.name}`);
+      list.appendChild(label);
+    }
+  }
+
+  private getPicked(slot: WeaponSlot): WeaponLoadout {
+    const checked =
+      this.attachmentLists[slot].querySelectorAll<HTMLInputElement>(
+        "input:checked"
+      );
+    return {
+      weapon: this.weaponSelects[slot].value,
+      attachments: Array.from(checked, (checkbox) => checkbox.value),
+    };
+  }
+
+  private find<T extends HTMLElement = HTMLElement>(selector: string): T {
+    return this.overlay.querySelector(selector) as T;
+  }
+}
@@ -0,0 +1,401 @@
+import { LobbyClient } from "../api/lobby";
+import type { LobbyState } from "../api/lobby";
+import {
+  DEFAULT_FRIENDLY_FIRE,
+  DEFAULT_GAME_MODE,
+  FRIENDLY_FIRE,
+  GAME_MODES,
+  LOBBY,
+} from "../events/constants";
+import type { RoomDetails, RoomSummary } from "../events/types";
+import { isFriendlyFire, isGameMode, isName } from "../events/validation";
+
+/**
+ * Pre-game screen: pick a name, color and loadout, browse, create or join
+ * rooms and ready up. Hidden while playing, leaving only a button to quit the match.
+ */
+export class LobbyScreen {
+  private lobby = LobbyClient.getInstance();
+  private overlay: HTMLElement;
+  private nameInput: HTMLInputElement;
+  private colorInput: HTMLInputElement;
+  private browseSection: HTMLElement;
+  private roomList: HTMLElement;
+  private roomNameInput: HTMLInputElement;
+  private roomSizeInput: HTMLInputElement;
+  private roomModeSelect: HTMLSelectElement;
+  private friendlyFireSelect: HTMLSelectElement;
+  private roomSection: HTMLElement;
+  private roomTitle: HTMLElement;
+  private memberList: HTMLElement;
+  private countdownElement: HTMLElement;
+  private readyButton: HTMLButtonElement;
+  private errorElement: HTMLElement;
+  private leaveMatchButton: HTMLButtonElement;
+
+  // Countdown end on our clock, while one runs
+  private countdownEndsAt: number | null = null;
+  private countdownTimer: number | null = null;
+
+  constructor(container: HTMLElement) {
+    this.overlay = this.createOverlay();
+    this.leaveMatchButton = document.createElement("button");
+    this.leaveMatchButton.className = "lobby-leave-match hidden";
+    this.leaveMatchButton.textContent = "Leave match";
+    this.leaveMatchButton.addEventListener("click", () =>
+      this.lobby.leaveRoom()
+    );
+    container.appendChild(this.overlay);
+    container.appendChild(this.leaveMatchButton);
+
+    this.nameInput = this.find("#lobby-name");
+    this.colorInput = this.find("#lobby-color");
+    this.browseSection = this.find("#lobby-browse");
+    this.roomList = this.find("#lobby-rooms");
+    this.roomNameInput = this.find("#lobby-room-name");
+    this.roomSizeInput = this.find("#lobby-room-size");
+    this.roomModeSelect = this.find("#lobby-room-mode");
+    this.friendlyFireSelect = this.find("#lobby-friendly-fire");
+    this.roomSection = this.find("#lobby-room");
+    this.roomTitle = this.find("#lobby-room-title");
+    this.memberList = this.find("#lobby-members");
+    this.countdownElement = this.find("#lobby-countdown");
+    this.readyButton = this.find("#lobby-ready");
+    this.errorElement = this.find("#lobby-error");
+
+    this.bindControls();
+
+    const { profile } = this.lobby.getState();
+    this.nameInput.value = profile.name;
+    this.colorInput.value = profile.color;
+
+    this.lobby.onChange((state) => this.render(state));
+  }
+
+  private createOverlay(): HTMLElement {
+    const overlay = document.createElement("div");
+    overlay.className = "lobby-screen";
+    overlay.innerHTML = `
+      <div class="lobby-panel">
+        <h2>Lobby</h2>
+
+        <div class="lobby-row">
+          <input id="lobby-name" type="text" maxlength="${LOBBY.maxNameLength}" placeholder="Your name" />
+          <input id="lobby-color" type="color" />
+          <button id="lobby-save-profile">Save</button>
+          <button id="lobby-loadout">Loadout</button>
+        </div>
+
+        <div id="lobby-browse">
+          <h3>Rooms</h3>
+          <ul id="lobby-rooms" class="lobby-list"></ul>
+          <div class="lobby-row">
+            <input id="lobby-room-name" type="text" maxlength="${LOBBY.maxRoomNameLength}" placeholder="Room name" />
+            <input id="lobby-room-size" type="number" min="${LOBBY.minRoomSize}" max="${LOBBY.maxRoomSize}" value="${LOBBY.defaultRoomSize}" />
+            <select id="lobby-room-mode">
+              ${Object.entries(GAME_MODES)
+                .map(
+                  ([id, mode]) => `<option value="${id}">${mode.name}</option>`
+                )
+                .join("")}
+            </select>
+            <select id="lobby-friendly-fire" title="Friendly fire" disabled>
+              ${Object.entries(FRIENDLY_FIRE)
+                .map(
+                  ([id, rule]) =>
+                    `<option value="${id}"${id === DEFAULT_FRIENDLY_FIRE ? " selected" : ""}>Friendly fire: ${rule.name}</option>`
+                )
+                .join("")}
+            </select>
+            <button id="lobby-create">Create</button>
+          </div>
+        </div>
+
+        <div id="lobby-room" class="hidden">
+          <h3 id="lobby-room-title"></h3>
+          <ul id="lobby-members" class="lobby-list"></ul>
+          <div id="lobby-countdown" class="lobby-countdown"></div>
+          <div class="lobby-row">
+            <button id="lobby-ready">Ready</button>
+            <button id="lobby-leave">Leave</button>
+          </div>
+        </div>
+
+        <div id="lobby-error" class="lobby-error"></div>
+      </div>
+    `;
+
+    const style = document.createElement("style");
+    style.textContent = `
+      .lobby-screen {
+        position: fixed;
+        top: 0;
+        left: 0;
+        width: 100%;
+        height: 100%;
+        background-color: rgba(0, 0, 0, 0.6);
+        display: flex;
+        justify-content: center;
+        align-items: center;
+        z-index: 3000;
+        font-family: Arial, sans-serif;
+        color: white;
+      }
+
+      .lobby-panel {
+        background-color: rgba(20, 20, 30, 0.95);
+        padding: 20px 30px;
+        border-radius: 8px;
+        width: 420px;
+        box-shadow: 0 4px 16px rgba(0, 0, 0, 0.4);
+      }
+
+      .lobby-panel h2,
+      .lobby-panel h3 {
+        margin: 0 0 12px;
+      }
+
+      .lobby-row {
+        display: flex;
+        gap: 8px;
+        margin-bottom: 12px;
+      }
+
+      .lobby-row input[type="text"] {
+        flex: 1;
+      }
+
+      .lobby-row input[type="number"] {
+        width: 50px;
+      }
+
+      .lobby-list {
+        list-style: none;
+        padding: 0;
+        margin: 0 0 12px;
+        max-height: 200px;
+        overflow-y: auto;
+      }
+
+      .lobby-list li {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        padding: 6px 8px;
+        border-bottom: 1px solid rgba(255, 255, 255, 0.1);
+      }
+
+      .lobby-list .empty {
+        opacity: 0.6;
+      }
+
+      .lobby-swatch {
+        display: inline-block;
+        width: 12px;
+        height: 12px;
+        border-radius: 50%;
+        margin-right: 8px;
+      }
+
+      .lobby-countdown {
+        font-size: 18px;
+        margin-bottom: 12px;
+      }
+
+      .lobby-error {
+        color: #ff6666;
+        min-height: 1em;
+      }
+
+      .lobby-leave-match {
+        position: absolute;
+        top: 20px;
+        left: 20px;
+        z-index: 1000;
+        pointer-events: auto;
+      }
+
+      .lobby-screen.hidden,
+      .lobby-panel .hidden,
+      .lobby-leave-match.hidden {
+        display: none;
+      }
+    `;
+
+    document.head.appendChild(style);
+    return overlay;
+  }
+
+  private bindControls(): void {
+    // Typing a name must not move the player or fire
+    for (const type of ["keydown", "keyup", "mousedown", "click"]) {
+      this.overlay.addEventListener(type, (event) => event.stopPropagation());
+    }
+
+    this.find("#lobby-save-profile").addEventListener("click", () => {
+      const name = this.nameInput.value.trim();
+      if (!isName(name, LOBBY.maxNameLength)) {
+        this.errorElement.textContent = "Pick a name first";
+        return;
+      }
+      this.lobby.setProfile({ name, color: this.colorInput.value });
+    });
+
+    this.find("#lobby-loadout").addEventListener("click", () => {
+      document.dispatchEvent(new CustomEvent("open-loadout"));
+    });
+
+    // Friendly fire only matters with teams
+    this.roomModeSelect.addEventListener("change", () => {
+      this.friendlyFireSelect.disabled = !(
+        isGameMode(this.roomModeSelect.value) &&
+        GAME_MODES[this.roomModeSelect.value].teams
+      );
+    });
+
+    this.find("#lobby-create").addEventListener("click", () => {
+      const name = this.roomNameInput.value.trim();
+      const size = Math.round(Number(this.roomSizeInput.value)) || 0;
+      const mode = isGameMode(this.roomModeSelect.value)
+        ? this.roomModeSelect.value
+        : DEFAULT_GAME_MODE;
+      const friendlyFire = isFriendlyFire(this.friendlyFireSelect.value)
+        ? this.friendlyFireSelect.value
+        : DEFAULT_FRIENDLY_FIRE;
+      if (!isName(name, LOBBY.maxRoomNameLength)) {
+        this.errorElement.textContent = "Give the room a name";
+        return;
+      }
+      this.lobby.createRoom(
+        name,
+        Math.max(LOBBY.minRoomSize, Math.min(LOBBY.maxRoomSize, size)),
+        mode,
+        friendlyFire
+      );
+      this.roomNameInput.value = "";
+    });
+
+    this.readyButton.addEventListener("click", () => {
+      this.lobby.setReady(!this.isReady(this.lobby.getState()));
+    });
+
+    this.find("#lobby-leave").addEventListener("click", () => {
+      this.lobby.leaveRoom();
+    });
+  }
+
+  private render(state: LobbyState): void {
+    this.overlay.classList.toggle("hidden", state.inMatch);
+    this.leaveMatchButton.classList.toggle("hidden", !state.inMatch);
+    this.errorElement.textContent = state.error ?? "";
+
+    this.browseSection.classList.toggle("hidden", state.room !== null);
+    this.roomSection.classList.toggle("hidden", state.room === null);
+
+    if (state.room) {
+      this.renderRoom(state.room, state);
+    } else {
+      this.renderRoomList(state.rooms);
+    }
+    this.updateCountdown(state.room);
+  }
+
+  private renderRoomList(rooms: RoomSummary[]): void {
+    this.roomList.replaceChildren();
+
+    if (rooms.length === 0) {
+      const empty = document.createElement("li");
+      empty.className = "empty";
+      empty.textContent = "No rooms yet. Create one!";
+      this.roomList.appendChild(empty);
+      return;
+    }
+
+    for (const room of rooms) {
+      const item = document.createElement("li");
+      const label = document.createElement("span");
+      const phase = room.phase === "playing" ? " (playing)" : "";
+      label.textContent = `${room.name} - ${describeRules(room)} ${room.playerCount}/${room.maxPlayers}${phase}`;
+
+      const join = document.createElement("button");
+      join.textContent = "Join";
+      join.disabled = room.playerCount >= room.maxPlayers;
+      join.addEventListener("click", () => this.lobby.joinRoom(room.id));
+
+      item.append(label, join);
+      this.roomList.appendChild(item);
+    }
+  }
+
+  private renderRoom(room: RoomDetails, state: LobbyState): void {
+    this.roomTitle.textContent = `${room.name} - ${describeRules(room)} (${room.members.length}/${room.maxPlayers})`;
+    this.memberList.replaceChildren();
+
+    for (const member of room.members) {
+      const item = document.createElement("li");
+      const label = document.createElement("span");
+      const swatch = document.createElement("span");
+      swatch.className = "lobby-swatch";
+      swatch.style.backgroundColor = member.color;
+      const you = member.userId === state.userId ? " (you)" : "";
+      label.append(swatch, `${member.name}${you}`);
+
+      const ready = document.createElement("span");
+      ready.textContent = member.ready ? "✔ Ready" : "Not ready";
+
+      item.append(label, ready);
+      this.memberList.appendChild(item);
+    }
+
+    this.readyButton.textContent = this.isReady(state) ? "Not ready" : "Ready";
+    this.readyButton.disabled = room.phase === "playing";
+  }
+
+  /**
+   * Count down locally from the time left the server last told us
+   */
+  private updateCountdown(room: RoomDetails | null): void {
+    if (this.countdownTimer !== null) {
+      window.clearInterval(this.countdownTimer);
+      this.countdownTimer = null;
+    }
+
+    if (room?.phase !== "countdown" || room.countdownMs === undefined) {
+      this.countdownEndsAt = null;
+      this.countdownElement.textContent =
+        room?.phase === "playing" ? "Match in progress" : "";
+      return;
+    }
+
+    this.countdownEndsAt = performance.now() + room.countdownMs;
+    const tick = () => {
+      const remaining = Math.max(
+        0,
+        (this.countdownEndsAt ?? 0) - performance.now()
+      );
+      this.countdownElement.textContent = `Starting in ${Math.ceil(remaining / 1000)}...`;
+    };
+    tick();
+    this.countdownTimer = window.setInterval(tick, 250);
+  }
+
+  private isReady(state: LobbyState): boolean {
+    return (
+      state.room?.members.find((member) => member.userId === state.userId)
+        ?.ready ?? false
+    );
+  }
+
+  private find<T extends HTMLElement = HTMLElement>(selector: string): T {
+    return this.overlay.querySelector(selector) as T;
+  }
+}
+
+/**
+ * A room's mode, and its friendly fire rule if it has teams
+ */
+function describeRules(room: RoomSummary): string {
+  const mode = GAME_MODES[room.mode];
+  if (!mode.teams) return mode.name;
+  return `${mode.name}, friendly fire ${FRIENDLY_FIRE[room.friendlyFire].name.toLowerCase()}`;
+}
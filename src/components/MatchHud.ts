@@ -0,0 +1,329 @@
+import { LobbyClient } from "../api/lobby";
+import { GAME_EVENTS, GAME_MODES, TEAMS } from "../events/constants";
+import { EventListener } from "../events/eventListener";
+import type { MatchEndEvent, MatchStateEvent } from "../events/types";
+import { getModeView } from "./ModeViews";
+
+/**
+ * The match on screen: a status bar with the mode, time left and the
+ * mode's own scores while playing, and a results screen when it ends
+ */
+export class MatchHud {
+  private lobby = LobbyClient.getInstance();
+  private statusBar: HTMLElement;
+  private modeElement: HTMLElement;
+  private timerElement: HTMLElement;
+  private modeStatusElement: HTMLElement;
+  private resultsScreen: HTMLElement;
+
+  // When the round ends on our clock, while a match runs
+  private endsAt: number | null = null;
+  private timer: number | null = null;
+
+  constructor(container: HTMLElement) {
+    this.statusBar = document.createElement("div");
+    this.statusBar.className = "match-status hidden";
+    this.modeElement = document.createElement("span");
+    this.modeElement.className = "match-mode";
+    this.timerElement = document.createElement("span");
+    this.timerElement.className = "match-timer";
+    this.modeStatusElement = document.createElement("div");
+    this.statusBar.append(
+      this.modeElement,
+      this.timerElement,
+      this.modeStatusElement
+    );
+
+    this.resultsScreen = document.createElement("div");
+    this.resultsScreen.className = "match-results hidden";
+    // Clicking around the results must not fire
+    for (const type of ["keydown", "keyup", "mousedown", "click"]) {
+      this.resultsScreen.addEventListener(type, (event) =>
+        event.stopPropagation()
+      );
+    }
+
+    container.append(this.statusBar, this.resultsScreen);
+    this.addStyles();
+
+    const events = EventListener.getInstance();
+    events.on(GAME_EVENTS.MATCH.STATE, (state) => this.showState(state));
+    events.on(GAME_EVENTS.MATCH.END, (results) => this.showResults(results));
+
+    // Joining a match clears the last results; leaving one hides the bar
+    events.on(GAME_EVENTS.USER.WELCOME, ({ roomId }) => {
+      if (roomId !== undefined) {
+        this.resultsScreen.classList.add("hidden");
+      }
+      this.hideStatus();
+    });
+  }
+
+  private showState(state: MatchStateEvent): void {
+    this.statusBar.classList.remove("hidden");
+    this.modeElement.textContent = GAME_MODES[state.mode].name;
+    this.modeStatusElement.replaceChildren(
+      getModeView(state.mode).renderStatus(state, this.lobby.getState().userId)
+    );
+
+    // Count down locally from the time left the server last told us
+    this.endsAt = performance.now() + state.timeLeftMs;
+    if (this.timer === null) {
+      this.timer = window.setInterval(() => this.updateTimer(), 250);
+    }
+    this.updateTimer();
+  }
+
+  private hideStatus(): void {
+    this.statusBar.classList.add("hidden");
+    this.endsAt = null;
+    if (this.timer !== null) {
+      window.clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private updateTimer(): void {
+    const remaining = Math.max(0, (this.endsAt ?? 0) - performance.now());
+    const seconds = Math.ceil(remaining / 1000);
+    const minutes = Math.floor(seconds / 60);
+    this.timerElement.textContent = `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+  }
+
+  private showResults(results: MatchEndEvent): void {
+    const localUserId = this.lobby.getState().userId;
+
+    const panel = document.createElement("div");
+    panel.className = "match-results-panel";
+
+    const headline = document.createElement("h2");
+    headline.textContent = this.getHeadline(results, localUserId);
+    const reason = document.createElement("div");
+    reason.className = "match-results-reason";
+    reason.textContent = `${GAME_MODES[results.mode].name} - ${
+      results.reason === "score" ? "score limit reached" : "time's up"
+    }`;
+
+    const close = document.createElement("button");
+    close.textContent = "Back to lobby";
+    close.addEventListener("click", () =>
+      this.resultsScreen.classList.add("hidden")
+    );
+
+    panel.append(
+      headline,
+      reason,
+      getModeView(results.mode).renderResults(results, localUserId),
+      this.renderStats(results, localUserId),
+      close
+    );
+    this.resultsScreen.replaceChildren(panel);
+    this.resultsScreen.classList.remove("hidden");
+  }
+
+  private getHeadline(
+    results: MatchEndEvent,
+    localUserId: string | null
+  ): string {
+    const { winner } = results;
+    if (!winner) return "Draw";
+
+    if (winner.type === "team") {
+      const yours = results.players.some(
+        (player) => player.userId === localUserId && player.team === winner.team
+      );
+      return yours ? "Your team wins!" : `${TEAMS[winner.team].name} team wins`;
+    }
+
+    if (winner.userId === localUserId) return "You win!";
+    const name = results.players.find(
+      (player) => player.userId === winner.userId
+    )?.name;
+    return `${name ?? "Someone"} wins`;
+  }
+
+  /**
+   * Everyone's combat stats for the match
+   */
+  private renderStats(
+    results: MatchEndEvent,
+    localUserId: string | null
+  ): HTMLElement {
+    const table = document.createElement("table");
+    table.className = "match-results-stats";
+
+    const header = document.createElement("tr");
+    for (const label of ["Player", "K", "D", "A", "Dealt", "Accuracy"]) {
+      const cell = document.createElement("th");
+      cell.textContent = label;
+      header.appendChild(cell);
+    }
+    table.appendChild(header);
+
+    for (const stats of results.stats) {
+      const row = document.createElement("tr");
+      row.classList.toggle("local", stats.userId === localUserId);
+
+      const accuracy =
+        stats.shotsFired > 0
+          ? `${Math.round((stats.shotsHit / stats.shotsFired) * 100)}%`
+          : "-";
+      for (const value of [
+        stats.name,
+        stats.kills,
+        stats.deaths,
+        stats.assists,
+        Math.round(stats.damageDealt),
+        accuracy,
+      ]) {
+        const cell = document.createElement("td");
+        cell.textContent = String(value);
+        row.appendChild(cell);
+      }
+      table.appendChild(row);
+    }
+
+    return table;
+  }
+
+  private addStyles(): void {
+    const style = document.createElement("style");
+    style.textContent = `
+      .match-status {
+        position: absolute;
+        top: 20px;
+        left: 50%;
+        transform: translateX(-50%);
+        display: flex;
+        align-items: center;
+        gap: 12px;
+        background-color: rgba(0, 0, 0, 0.6);
+        color: white;
+        padding: 6px 14px;
+        border-radius: 5px;
+        font-family: Arial, sans-serif;
+        font-size: 14px;
+        z-index: 1000;
+        pointer-events: none;
+      }
+
+      .match-mode {
+        font-weight: bold;
+      }
+
+      .match-timer {
+        font-size: 18px;
+        font-variant-numeric: tabular-nums;
+      }
+
+      .mode-status,
+      .mode-flags {
+        display: flex;
+        align-items: center;
+        gap: 10px;
+      }
+
+      .mode-team-scores {
+        display: flex;
+        gap: 4px;
+      }
+
+      .mode-team-score {
+        padding: 2px 8px;
+        border-radius: 3px;
+        font-weight: bold;
+      }
+
+      .mode-flag {
+        font-size: 12px;
+      }
+
+      .match-results {
+        position: fixed;
+        top: 0;
+        left: 0;
+        width: 100%;
+        height: 100%;
+        background-color: rgba(0, 0, 0, 0.7);
+        display: flex;
+        justify-content: center;
+        align-items: center;
+        z-index: 3500;
+        font-family: Arial, sans-serif;
+        color: white;
+      }
+
+      .match-results-panel {
+        background-color: rgba(20, 20, 30, 0.95);
+        padding: 20px 30px;
+        border-radius: 8px;
+        min-width: 420px;
+        display: flex;
+        flex-direction: column;
+        gap: 14px;
+      }
+
+      .match-results-panel h2 {
+        margin: 0;
+        font-size: 32px;
+        text-align: center;
+      }
+
+      .match-results-reason {
+        text-align: center;
+        opacity: 0.7;
+      }
+
+      .mode-results .mode-team-scores {
+        justify-content: center;
+        font-size: 20px;
+      }
+
+      .mode-team-columns {
+        display: flex;
+        gap: 20px;
+        margin-top: 10px;
+      }
+
+      .mode-team-list,
+      .mode-ranking {
+        flex: 1;
+        margin: 0;
+        padding: 6px 0 0 20px;
+      }
+
+      .mode-team-list {
+        list-style: none;
+        padding-left: 0;
+        border-top: 3px solid;
+      }
+
+      .match-results-stats {
+        border-collapse: collapse;
+        font-size: 13px;
+      }
+
+      .match-results-stats th,
+      .match-results-stats td {
+        padding: 3px 8px;
+        text-align: right;
+      }
+
+      .match-results-stats th:first-child,
+      .match-results-stats td:first-child {
+        text-align: left;
+      }
+
+      .match-results .local {
+        color: #4a90e2;
+        font-weight: bold;
+      }
+
+      .match-status.hidden,
+      .match-results.hidden {
+        display: none;
+      }
+    `;
+    document.head.appendChild(style);
+  }
+}
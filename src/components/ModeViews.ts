@@ -0,0 +1,206 @@
+import { TEAMS } from "../events/constants";
+import type {
+  FlagState,
+  GameModeId,
+  MatchEndEvent,
+  MatchPlayer,
+  MatchStateEvent,
+  TeamId,
+  TeamScore,
+} from "../events/types";
+
+/**
+ * How a game mode shows itself: its part of the in-match status bar, and
+ * its summary on the results screen
+ */
+export interface ModeView {
+  renderStatus(state: MatchStateEvent, localUserId: string | null): HTMLElement;
+  renderResults(
+    results: MatchEndEvent,
+    localUserId: string | null
+  ): HTMLElement;
+}
+
+/**
+ * Free for all: the leader and where you stand
+ */
+class DeathmatchView implements ModeView {
+  public renderStatus(
+    state: MatchStateEvent,
+    localUserId: string | null
+  ): HTMLElement {
+    const status = createElement("div", "mode-status");
+    const leader = state.players[0];
+    const you = state.players.find((player) => player.userId === localUserId);
+
+    status.append(
+      createElement(
+        "span",
+        "mode-leader",
+        leader ? `Leader: ${leader.name} ${leader.score}` : "No kills yet"
+      ),
+      createElement(
+        "span",
+        "mode-you",
+        `You: ${you?.score ?? 0} / ${state.scoreLimit}`
+      )
+    );
+    return status;
+  }
+
+  public renderResults(
+    results: MatchEndEvent,
+    localUserId: string | null
+  ): HTMLElement {
+    const list = createElement("ol", "mode-ranking");
+    for (const player of results.players) {
+      const item = createElement(
+        "li",
+        undefined,
+        `${player.name} - ${player.score} ${player.score === 1 ? "kill" : "kills"}`
+      );
+      item.classList.toggle("local", player.userId === localUserId);
+      list.appendChild(item);
+    }
+    return list;
+  }
+}
+
+/**
+ * Two teams: the team scores, and which side you are on
+ */
+class TeamDeathmatchView implements ModeView {
+  constructor(private unit: [string, string] = ["kill", "kills"]) {}
+
+  public renderStatus(
+    state: MatchStateEvent,
+    localUserId: string | null
+  ): HTMLElement {
+    const status = createElement("div", "mode-status");
+    status.append(
+      renderTeamScores(state.teams),
+      createElement("span", "mode-limit", `First to ${state.scoreLimit}`)
+    );
+
+    const team = findTeam(state.players, localUserId);
+    if (team) {
+      const yours = createElement(
+        "span",
+        "mode-you",
+        `${TEAMS[team].name} team`
+      );
+      yours.style.color = TEAMS[team].color;
+      status.appendChild(yours);
+    }
+    return status;
+  }
+
+  public renderResults(
+    results: MatchEndEvent,
+    localUserId: string | null
+  ): HTMLElement {
+    const summary = createElement("div", "mode-results");
+    summary.appendChild(renderTeamScores(results.teams));
+
+    const columns = createElement("div", "mode-team-columns");
+    for (const { id } of results.teams) {
+      const column = createElement("ul", "mode-team-list");
+      column.style.borderTopColor = TEAMS[id].color;
+
+      for (const player of results.players) {
+        if (player.team !== id) continue;
+        const [one, many] = this.unit;
+        const item = createElement(
+          "li",
+          undefined,
+          `${player.name} - ${player.score} ${player.score === 1 ? one : many}`
+        );
+        item.classList.toggle("local", player.userId === localUserId);
+        column.appendChild(item);
+      }
+      columns.appendChild(column);
+    }
+
+    summary.appendChild(columns);
+    return summary;
+  }
+}
+
+/**
+ * Team scores like team deathmatch, plus where each flag is
+ */
+class CaptureTheFlagView extends TeamDeathmatchView {
+  constructor() {
+    super(["capture", "captures"]);
+  }
+
+  public renderStatus(
+    state: MatchStateEvent,
+    localUserId: string | null
+  ): HTMLElement {
+    const status = super.renderStatus(state, localUserId);
+
+    const flags = createElement("div", "mode-flags");
+    for (const flag of state.flags) {
+      const line = createElement(
+        "span",
+        "mode-flag",
+        `${TEAMS[flag.team].name} flag: ${describeFlag(flag, state.players)}`
+      );
+      line.style.color = TEAMS[flag.team].color;
+      flags.appendChild(line);
+    }
+    status.appendChild(flags);
+    return status;
+  }
+}
+
+const MODE_VIEWS: Record<GameModeId, ModeView> = {
+  deathmatch: new DeathmatchView(),
+  "team-deathmatch": new TeamDeathmatchView(),
+  "capture-the-flag": new CaptureTheFlagView(),
+};
+
+export function getModeView(mode: GameModeId): ModeView {
+  return MODE_VIEWS[mode];
+}
+
+function describeFlag(flag: FlagState, players: MatchPlayer[]): string {
+  if (flag.carrierId) {
+    const carrier = players.find((player) => player.userId === flag.carrierId);
+    return `taken by ${carrier?.name ?? "someone"}`;
+  }
+  return flag.atBase ? "home" : "dropped";
+}
+
+function findTeam(
+  players: MatchPlayer[],
+  userId: string | null
+): TeamId | undefined {
+  return players.find((player) => player.userId === userId)?.team;
+}
+
+function renderTeamScores(teams: TeamScore[]): HTMLElement {
+  const scores = createElement("div", "mode-team-scores");
+  for (const team of teams) {
+    const score = createElement(
+      "span",
+      "mode-team-score",
+      `${TEAMS[team.id].name} ${team.score}`
+    );
+    score.style.backgroundColor = TEAMS[team.id].color;
+    scores.appendChild(score);
+  }
+  return scores;
+}
+
+function createElement<K extends keyof HTMLElementTagNameMap>(
+  tag: K,
+  className?: string,
+  text?: string
+): HTMLElementTagNameMap[K] {
+  const element = document.createElement(tag);
+  if (className) element.className = className;
+  if (text !== undefined) element.textContent = text;
+  return element;
+}
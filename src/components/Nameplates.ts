@@ -0,0 +1,358 @@
+import * as THREE from "three";
+import type { HUD } from "./HUD";
+import { PLAYER_DIMENSIONS } from "./PlayerCollider";
+
+/**
+ * Nameplate settings interface
+ */
+interface NameplateSettings {
+  fullOpacityDistance: number; // Plates are fully visible up to here
+  hideDistance: number; // ...and fade out completely by here
+  occludedOpacity: number; // Opacity when an obstacle is in the way
+  fadeSpeed: number; // Opacity change per second
+  heightOffset: number; // Gap between the top of the player and the plate
+  hitFlashDuration: number; // How long (ms) a plate flashes after damage
+}
+
+/**
+ * Everything a nameplate shows about a player
+ */
+export interface NameplateTarget {
+  object: THREE.Object3D;
+  name: string;
+  health: number;
+  maxHealth: number;
+  isDead: boolean;
+  weaponName: string;
+  lastDamagedAt?: number; // performance.now() of the last hit taken
+  teamColor?: string; // Only in team modes
+}
+
+/**
+ * Tells whether something blocks the view between two points
+ */
+export interface LineOfSightChecker {
+  isLineOfSightBlocked(from: THREE.Vector3, to: THREE.Vector3): boolean;
+}
+
+interface Nameplate {
+  element: HTMLElement;
+  nameElement: HTMLElement;
+  weaponElement: HTMLElement;
+  healthFill: HTMLElement;
+  opacity: number;
+
+  // What the DOM currently shows, to skip needless updates
+  name: string;
+  weaponName: string;
+  healthPercent: number;
+  teamColor: string;
+}
+
+/**
+ * Screen-space nameplates that follow players around the world, showing
+ * their name, health and weapon. Plates fade with distance and when an
+ * obstacle hides the player from the camera.
+ */
+export class NameplateManager {
+  private container: HTMLElement;
+  private camera: THREE.Camera;
+  private hud: HUD;
+  private lineOfSight?: LineOfSightChecker;
+  private plates: Map<string, Nameplate> = new Map();
+  private showLocalPlayer = false;
+  private anchor = new THREE.Vector3();
+  private projected = new THREE.Vector3();
+
+  private fullOpacityDistance: number;
+  private hideDistance: number;
+  private occludedOpacity: number;
+  private fadeSpeed: number;
+  private heightOffset: number;
+  private hitFlashDuration: number;
+
+  constructor(
+    container: HTMLElement,
+    camera: THREE.Camera,
+    hud: HUD,
+    settings?: Partial<NameplateSettings>
+  ) {
+    this.camera = camera;
+    this.hud = hud;
+
+    // Default settings
+    this.fullOpacityDistance = settings?.fullOpacityDistance || 20;
+    this.hideDistance = settings?.hideDistance || 45;
+    this.occludedOpacity = settings?.occludedOpacity ?? 0.15;
+    this.fadeSpeed = settings?.fadeSpeed || 4;
+    this.heightOffset = settings?.heightOffset || 0.6;
+    this.hitFlashDuration = settings?.hitFlashDuration || 200;
+
+    this.container = document.createElement("div");
+    this.container.className = "nameplate-layer";
+    container.appendChild(this.container);
+    this.addStyles();
+  }
+
+  /**
+   * Set what decides whether a player is hidden behind an obstacle
+   */
+  public setLineOfSightChecker(checker: LineOfSightChecker): void {
+    this.lineOfSight = checker;
+  }
+
+  /**
+   * Show a plate over the local player too, for views that watch them
+   * from outside (e.g. while they wait to respawn)
+   */
+  public setShowLocalPlayer(show: boolean): void {
+    this.showLocalPlayer = show;
+  }
+
+  public isShowingLocalPlayer(): boolean {
+    return this.showLocalPlayer;
+  }
+
+  /**
+   * Place and refresh a plate for every target, and drop plates for
+   * players that are gone
+   */
+  public update(targets: Map<string, NameplateTarget>, delta: number): void {
+    for (const [id, plate] of this.plates) {
+      if (!targets.has(id)) {
+        plate.element.remove();
+        this.plates.delete(id);
+      }
+    }
+
+    const width = this.container.clientWidth || window.innerWidth;
+    const height = this.container.clientHeight || window.innerHeight;
+    const now = performance.now();
+
+    for (const [id, target] of targets) {
+      let plate = this.plates.get(id);
+      if (!plate) {
+        plate = this.createPlate();
+        this.plates.set(id, plate);
+      }
+
+      // Just above the player's head, following their stance
+      const object = target.object;
+      this.anchor.copy(object.position);
+      this.anchor.y +=
+        (PLAYER_DIMENSIONS.height / 2) * object.scale.y + this.heightOffset;
+
+      this.projected.copy(this.anchor).project(this.camera);
+      const onScreen =
+        this.projected.z < 1 &&
+        Math.abs(this.projected.x) <= 1.1 &&
+        Math.abs(this.projected.y) <= 1.1;
+
+      // Fade smoothly toward how visible the plate should be
+      const targetOpacity = onScreen ? this.getVisibility(this.anchor) : 0;
+      const step = this.fadeSpeed * delta;
+      plate.opacity += Math.max(
+        -step,
+        Math.min(step, targetOpacity - plate.opacity)
+      );
+
+      if (plate.opacity <= 0.01) {
+        plate.element.style.display = "none";
+        continue;
+      }
+
+      const x = ((this.projected.x + 1) / 2) * width;
+      const y = ((1 - this.projected.y) / 2) * height;
+      plate.element.style.display = "";
+      plate.element.style.opacity = plate.opacity.toFixed(2);
+      plate.element.style.transform = `translate(${x}px, ${y}px) translate(-50%, -100%)`;
+
+      this.refreshPlate(plate, target);
+      plate.element.classList.toggle("dead", target.isDead);
+      plate.element.classList.toggle(
+        "hit",
+        target.lastDamagedAt !== undefined &&
+          now - target.lastDamagedAt < this.hitFlashDuration
+      );
+    }
+  }
+
+  /**
+   * Remove every plate
+   */
+  public clear(): void {
+    for (const plate of this.plates.values()) {
+      plate.element.remove();
+    }
+    this.plates.clear();
+  }
+
+  /**
+   * How visible a plate at this point should be: faded by distance from
+   * the camera, and mostly hidden behind obstacles
+   */
+  private getVisibility(anchor: THREE.Vector3): number {
+    const distance = this.camera.position.distanceTo(anchor);
+    if (distance >= this.hideDistance) return 0;
+
+    const fadeRange = this.hideDistance - this.fullOpacityDistance;
+    const visibility =
+      distance <= this.fullOpacityDistance
+        ? 1
+        : 1 - (distance - this.fullOpacityDistance) / fadeRange;
+
+    if (this.lineOfSight?.isLineOfSightBlocked(this.camera.position, anchor)) {
+      return visibility * this.occludedOpacity;
+    }
+    return visibility;
+  }
+
+  private createPlate(): Nameplate {
+    const element = document.createElement("div");
+    element.className = "nameplate";
+
+    const header = document.createElement("div");
+    header.className = "nameplate-header";
+    const weaponElement = document.createElement("span");
+    weaponElement.className = "nameplate-weapon";
+    const nameElement = document.createElement("span");
+    nameElement.className = "nameplate-name";
+    header.append(weaponElement, nameElement);
+
+    const healthBar = document.createElement("div");
+    healthBar.className = "nameplate-health";
+    const healthFill = document.createElement("div");
+    healthFill.className = "nameplate-health-fill";
+    healthBar.appendChild(healthFill);
+
+    element.append(header, healthBar);
+    element.style.display = "none";
+    this.container.appendChild(element);
+
+    return {
+      element,
+      nameElement,
+      weaponElement,
+      healthFill,
+      opacity: 0,
+      name: "",
+      weaponName: "",
+      healthPercent: -1,
+      teamColor: "",
+    };
+  }
+
+  /**
+   * Update the parts of a plate whose values changed
+   */
+  private refreshPlate(plate: Nameplate, target: NameplateTarget): void {
+    if (plate.name !== target.name) {
+      plate.name = target.name;
+      plate.nameElement.textContent = target.name;
+    }
+
+    // Names show the team in team modes
+    const teamColor = target.teamColor ?? "";
+    if (plate.teamColor !== teamColor) {
+      plate.teamColor = teamColor;
+      plate.nameElement.style.color = teamColor;
+    }
+
+    if (plate.weaponName !== target.weaponName) {
+      plate.weaponName = target.weaponName;
+      plate.weaponElement.innerHTML = this.hud.getWeaponIcon(target.weaponName);
+    }
+
+    const healthPercent = target.isDead
+      ? 0
+      : Math.max(
+          0,
+          Math.min(100, Math.round((target.health / target.maxHealth) * 100))
+        );
+    if (plate.healthPercent !== healthPercent) {
+      plate.healthPercent = healthPercent;
+      plate.healthFill.style.width = `${plate.healthPercent}%`;
+      // Same colors as the local health bar
+      plate.healthFill.style.backgroundColor =
+        plate.healthPercent > 60
+          ? "#44ff44"
+          : plate.healthPercent > 30
+            ? "#ffff44"
+            : "#ff4444";
+    }
+  }
+
+  private addStyles(): void {
+    const style = document.createElement("style");
+    style.textContent = `
+      .nameplate-layer {
+        position: fixed;
+        top: 0;
+        left: 0;
+        width: 100%;
+        height: 100%;
+        pointer-events: none;
+        overflow: hidden;
+        z-index: 500;
+      }
+
+      .nameplate {
+        position: absolute;
+        top: 0;
+        left: 0;
+        display: flex;
+        flex-direction: column;
+        align-items: center;
+        gap: 3px;
+        font-family: Arial, sans-serif;
+        white-space: nowrap;
+        will-change: transform, opacity;
+      }
+
+      .nameplate-header {
+        display: flex;
+        align-items: center;
+        gap: 4px;
+        background-color: rgba(0, 0, 0, 0.5);
+        padding: 2px 6px;
+        border-radius: 3px;
+      }
+
+      .nameplate-name {
+        color: white;
+        font-size: 12px;
+        font-weight: bold;
+        text-shadow: 0 0 2px #000000;
+      }
+
+      .nameplate-weapon svg {
+        display: block;
+        width: 28px;
+        height: 11px;
+      }
+
+      .nameplate-health {
+        width: 60px;
+        height: 5px;
+        background-color: rgba(0, 0, 0, 0.6);
+        border-radius: 2px;
+        overflow: hidden;
+      }
+
+      .nameplate-health-fill {
+        height: 100%;
+        transition: width 0.2s ease;
+      }
+
+      .nameplate.hit .nameplate-health {
+        box-shadow: 0 0 4px 1px #ff4444;
+      }
+
+      .nameplate.dead .nameplate-name {
+        color: #999999;
+        text-decoration: line-through;
+      }
+    `;
+    document.head.appendChild(style);
+  }
+}
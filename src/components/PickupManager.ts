@@ -8,6 +8,7 @@ import { WeaponPickup } from "./WeaponPickup";
 import type { HUD } from "./HUD";
 import type { CollisionSystem } from "./CollisionSystem";
 import type { Pickup } from "./Pickup";
+import { HEALTH_PICKUP } from "../events/constants";
 
 /**
  * Pickup manager class to handle all pickups in the game
@@ -91,6 +92,17 @@ export class PickupManager {
     return pickup;
   }
 
+  /**
+   * Remove every pickup and restart the spawn timer
+   */
+  public clear(): void {
+    for (const pickup of this.pickups) {
+      pickup.remove();
+    }
+    this.pickups = [];
+    this.lastSpawnTime = 0;
+  }
+
   /**
    * Update pickups - check for collection and expiration
    */
@@ -245,8 +257,11 @@ export class PickupManager {
 
     // Randomly choose between health and ammo pickup (50/50 chance)
     if (Math.random() < 0.5) {
-      // Health pickup with random amount between 10 and 50
-      const healAmount = Math.floor(10 + Math.random() * 40);
+      // Health pickup with a random amount the server will accept
+      const healAmount = Math.floor(
+        HEALTH_PICKUP.minHeal +
+          Math.random() * (HEALTH_PICKUP.maxHeal - HEALTH_PICKUP.minHeal)
+      );
       this.createHealthPickup(position, healAmount);
     } else {
       // Ammo pickup with random weapon type
@@ -1,4 +1,6 @@
 import * as THREE from "three";
+import { HIT_ZONES } from "../weapons/damage";
+import type { HitZone } from "../weapons/damage";
 
 /**
  * Standard player dimensions used throughout the game
@@ -31,6 +33,33 @@ export class PlayerCollider {
     );
   }
 
+  /**
+   * Split a player's collision box into head, torso and leg boxes
+   */
+  public static createHitZoneBoxes(
+    position: THREE.Vector3,
+    playerHeight: number = PLAYER_DIMENSIONS.height
+  ): { zone: HitZone; box: THREE.Box3 }[] {
+    const feet = position.y - playerHeight / 2;
+
+    return (Object.keys(HIT_ZONES) as HitZone[]).map((zone) => {
+      const { bottom, top } = HIT_ZONES[zone];
+      const box = new THREE.Box3(
+        new THREE.Vector3(
+          position.x - PLAYER_DIMENSIONS.width / 2,
+          feet + bottom * playerHeight,
+          position.z - PLAYER_DIMENSIONS.depth / 2
+        ),
+        new THREE.Vector3(
+          position.x + PLAYER_DIMENSIONS.width / 2,
+          feet + top * playerHeight,
+          position.z + PLAYER_DIMENSIONS.depth / 2
+        )
+      );
+      return { zone, box };
+    });
+  }
+
   /**
    * Create a visual debug box for the player
    */
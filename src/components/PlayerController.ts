@@ -2,10 +2,24 @@ import * as THREE from "three";
 import type { InputManager } from "./InputManager";
 import type { CollisionSystem } from "./CollisionSystem";
 import type { CameraController } from "./CameraController";
-import type { WeaponSystem } from "./Weapon";
-import { WeaponType } from "./Weapon";
-import type { Weapon } from "./Weapon";
-import { GAME_EVENTS } from "../events/constants";
+import type { Weapon, WeaponSystem, WeaponType } from "./Weapon";
+import type { GrenadeManager } from "./GrenadeManager";
+import { getThrowVelocity } from "./Grenade";
+import { GAME_EVENTS, MOVEMENT, SPAWN } from "../events/constants";
+import type {
+  Loadout,
+  PlayerHealthEvent,
+  PlayerInputAckEvent,
+  PlayerSnapshot,
+} from "../events/types";
+import { ClientPrediction } from "./ClientPrediction";
+import { LobbyClient } from "../api/lobby";
+import type { InputFrame, MovementState } from "./ClientPrediction";
+import { getWeaponDefinitionByType } from "../weapons/weaponDefinitions";
+import { GRENADE } from "../weapons/grenades";
+import type { SpawnSelector } from "./SpawnSelector";
+import { SpawnShimmer } from "./SpawnShimmer";
+import { TeamRoster } from "./TeamRoster";
 
 /**
  * Utility class for handling common player behaviors
@@ -35,6 +49,14 @@ interface PlayerMovementSettings {
   gravity: number;
 }
 
+/**
+ * The part of an input frame that drives the movement simulation
+ */
+type MovementInput = Pick<
+  InputFrame,
+  "delta" | "move" | "running" | "crouching" | "jumping"
+>;
+
 /**
  * Player dimensions
  */
@@ -43,6 +65,41 @@ interface PlayerDimensions {
   crouchHeight: number;
 }
 
+/**
+ * Who or what hurt the local player
+ */
+export interface DamageSource {
+  id: string; // The attacker's user id, or a name for things in the world
+  name: string;
+  weaponName?: string;
+  headshot?: boolean;
+  wallbang?: boolean;
+  backstab?: boolean;
+}
+
+/**
+ * Damage taken from one source during a life
+ */
+export interface DamageTally {
+  source: DamageSource;
+  damage: number;
+  hits: number;
+}
+
+/**
+ * Sent with "player-death": what landed the final blow, and everything
+ * that hurt the player during the life that just ended (most damage first)
+ */
+export interface DeathRecap {
+  killer: DamageSource | null;
+  attackers: DamageTally[];
+}
+
+/**
+ * What takeDamage blames when the caller doesn't say
+ */
+const ENVIRONMENT: DamageSource = { id: "environment", name: "Environment" };
+
 /**
  * Controls player character state and movement
  */
@@ -59,12 +116,28 @@ export class PlayerController {
   // Physics
   private velocity = new THREE.Vector3();
   private direction = new THREE.Vector3();
+  private knockback = new THREE.Vector3(); // Horizontal push from blasts
   private prevTime = performance.now();
+  private aimPoint = new THREE.Vector3(); // Where the mouse is on the ground
+
+  // Inputs not yet acknowledged by the server
+  private prediction = new ClientPrediction();
 
   // Health system
   private maxHealth = 100;
   private currentHealth = 100;
   private isDead = false;
+  private lastDamageSource: DamageSource | null = null;
+  private damageTaken: Map<string, DamageTally> = new Map();
+  private diedAt = 0; // performance.now()
+
+  // Spawning
+  private spawnSelector: SpawnSelector | null = null;
+  private spawnShimmer = new SpawnShimmer();
+
+  // Grenades, aimed while the grenade key is held
+  private grenades: GrenadeManager | null = null;
+  private aimingGrenade = false;
 
   // Movement settings
   private speed: number;
@@ -91,11 +164,11 @@ export class PlayerController {
     dimensions?: Partial<PlayerDimensions>
   ) {
     // Set movement settings with defaults
-    this.speed = movementSettings?.speed || 10.0;
-    this.crouchSpeed = movementSettings?.crouchSpeed || 5.0;
-    this.runSpeed = movementSettings?.runSpeed || 20.0;
-    this.jumpStrength = movementSettings?.jumpStrength || 5.0;
-    this.gravity = movementSettings?.gravity || 30.0;
+    this.speed = movementSettings?.speed || MOVEMENT.speed;
+    this.crouchSpeed = movementSettings?.crouchSpeed || MOVEMENT.crouchSpeed;
+    this.runSpeed = movementSettings?.runSpeed || MOVEMENT.runSpeed;
+    this.jumpStrength = movementSettings?.jumpStrength || MOVEMENT.jumpStrength;
+    this.gravity = movementSettings?.gravity || MOVEMENT.gravity;
 
     // Set player dimensions with defaults
     this.normalHeight = dimensions?.normalHeight || 2;
@@ -122,14 +195,37 @@ export class PlayerController {
     });
 
     // Weapon controls
-    this.inputManager.onShoot(() => {
-      this.weaponSystem.shoot(this.scene);
+    this.inputManager.onTrigger((held) => {
+      this.weaponSystem.setTriggerHeld(held);
     });
 
+    this.inputManager.onShoot(() => this.attack());
+
     this.inputManager.onReload(() => {
       this.weaponSystem.reload();
     });
 
+    this.inputManager.onAim((aiming) => {
+      this.weaponSystem.setAiming(aiming);
+    });
+
+    // Grenades are aimed while the key is held and thrown on release
+    this.inputManager.onGrenade((held) => {
+      const wasAiming = this.aimingGrenade;
+      this.aimingGrenade = held;
+      if (held || !wasAiming) return;
+
+      this.grenades?.hidePreview();
+      if (!this.isDead && this.grenades?.canThrow()) {
+        const origin = this.getThrowOrigin();
+        this.grenades.throwGrenade(
+          origin,
+          getThrowVelocity(origin, this.aimPoint)
+        );
+        this.spawnShimmer.stop(this.player);
+      }
+    });
+
     this.inputManager.onWeaponSwitch((index) => {
       if (index >= 0) {
         this.weaponSystem.switchToWeapon(index);
@@ -141,6 +237,19 @@ export class PlayerController {
     });
   }
 
+  /**
+   * Fire the weapon in hand, or swing the knife
+   */
+  private attack(): void {
+    // Firing or swinging gives up spawn protection, as on the server
+    const attacked = this.weaponSystem.isHoldingKnife()
+      ? this.weaponSystem.swing(this.collisionSystem)
+      : this.weaponSystem.shoot(this.scene, this.collisionSystem) !== null;
+    if (attacked) {
+      this.spawnShimmer.stop(this.player);
+    }
+  }
+
   /**
    * Update player state and position
    */
@@ -149,7 +258,12 @@ export class PlayerController {
     if (this.isDead) return;
 
     const time = performance.now();
-    const delta = (time - this.prevTime) / 1000;
+    this.spawnShimmer.update(time);
+    // Clamp long frames (e.g. a backgrounded tab) the same way the server does
+    const delta = Math.min(
+      (time - this.prevTime) / 1000,
+      MOVEMENT.maxFrameDelta
+    );
 
     // Check input state
     this.moveForward = this.inputManager.isKeyPressed("KeyW");
@@ -169,12 +283,6 @@ export class PlayerController {
       (this.inputManager.isKeyPressed("ShiftLeft") ||
         this.inputManager.isKeyPressed("ShiftRight"));
 
-    // Handle jumping
-    if (this.canJump && this.inputManager.isKeyPressed("Space")) {
-      this.velocity.y = this.jumpStrength;
-      this.canJump = false;
-    }
-
     // Update crouching state if changed
     if (wasCrouching !== this.isCrouching) {
       if (this.isCrouching) {
@@ -197,24 +305,71 @@ export class PlayerController {
     // Update weapon position
     this.weaponSystem.updateWeaponPosition(this.isCrouching);
 
-    // Apply gravity
-    this.velocity.y -= this.gravity * delta;
+    // Simulate from the predicted position, not the smoothed one on screen
+    this.player.position.sub(this.prediction.getCorrection());
 
     // Direction calculation for movement
     this.calculateMovementDirection();
 
-    // Apply movement speed based on state
-    this.applyMovement(delta);
+    // Moving widens the spread of shots, crouching narrows it
+    this.weaponSystem.updateSpread(
+      delta,
+      this.direction.lengthSq() > 0,
+      this.isCrouching
+    );
+
+    // Predict the result of this frame's input right away
+    const input: MovementInput = {
+      delta,
+      move: { x: this.direction.x, z: this.direction.z },
+      running: this.isRunning,
+      crouching: this.isCrouching,
+      jumping: this.inputManager.isKeyPressed("Space"),
+    };
+    this.simulateMovement(input);
+    this.sendInput(input);
+
+    // Blend away what is left of the last server correction
+    this.player.position.add(this.prediction.decayCorrection(delta));
 
-    // Update camera position to follow player
+    // Update camera position to follow player, or ahead of them while
+    // aiming down a scope
+    this.cameraController.setScope(
+      this.weaponSystem.getActiveScope(),
+      this.weaponSystem.getAimRay().direction
+    );
     this.cameraController.updateCameraPosition(this.isCrouching);
 
+    // Keep firing while an automatic weapon's trigger is held, or until a
+    // burst is done
+    if (this.weaponSystem.isTriggerFiring()) {
+      this.attack();
+    }
+
     // Update bullets with collision detection
     this.weaponSystem.updateBullets(delta, this.collisionSystem);
 
+    // Show where a grenade would go while aiming one
+    if (this.aimingGrenade && this.grenades?.canThrow()) {
+      const origin = this.getThrowOrigin();
+      this.grenades.showPreview(
+        origin,
+        getThrowVelocity(origin, this.aimPoint)
+      );
+    } else {
+      this.grenades?.hidePreview();
+    }
+
     this.prevTime = time;
   }
 
+  /**
+   * Where the player's grenades leave their hand
+   */
+  private getThrowOrigin(): THREE.Vector3 {
+    return this.player.position.clone().setY(this.player.position.y + 0.5);
+  }
+
   /**
    * Calculate movement direction based on input and camera angle
    */
@@ -257,21 +412,41 @@ export class PlayerController {
     }
   }
 
+  /**
+   * Advance the player by one frame of input. Used both for live input
+   * and for replaying unacknowledged inputs after a server correction.
+   */
+  private simulateMovement(input: MovementInput): void {
+    // Handle jumping
+    if (this.canJump && input.jumping) {
+      this.velocity.y = this.jumpStrength;
+      this.canJump = false;
+    }
+
+    // Apply gravity
+    this.velocity.y -= this.gravity * input.delta;
+
+    this.applyMovement(input);
+  }
+
   /**
    * Apply movement with collision detection
    */
-  private applyMovement(delta: number): void {
+  private applyMovement(input: MovementInput): void {
+    const delta = input.delta;
+
     // Apply movement speed based on state
     let currentSpeed = this.speed;
-    if (this.isCrouching) {
+    if (input.crouching) {
       currentSpeed = this.crouchSpeed;
-    } else if (this.isRunning) {
+    } else if (input.running) {
       currentSpeed = this.runSpeed;
     }
 
-    // Set velocity from direction
-    this.velocity.x = this.direction.x * currentSpeed;
-    this.velocity.z = this.direction.z * currentSpeed;
+    // Set velocity from direction, plus what is left of any blast's push
+    this.velocity.x = input.move.x * currentSpeed + this.knockback.x;
+    this.velocity.z = input.move.z * currentSpeed + this.knockback.z;
+    this.decayKnockback(delta);
 
     // Store original position for collision detection
     const originalPosition = this.player.position.clone();
@@ -284,7 +459,7 @@ export class PlayerController {
     );
 
     // Get current player height for collision detection
-    const playerHeight = this.isCrouching
+    const playerHeight = input.crouching
       ? this.crouchHeight
       : this.normalHeight;
 
@@ -321,6 +496,93 @@ export class PlayerController {
     }
   }
 
+  /**
+   * Let a blast's push die down over a frame
+   */
+  private decayKnockback(delta: number): void {
+    const speed = this.knockback.length();
+    if (speed === 0) return;
+
+    const slowed = Math.max(0, speed - GRENADE.knockbackDecay * delta);
+    this.knockback.multiplyScalar(slowed / speed);
+  }
+
+  /**
+   * Get pushed away by a blast
+   * @param push Horizontal velocity (units/s) the blast pushes with
+   */
+  public applyKnockback(push: THREE.Vector3): void {
+    if (this.isDead) return;
+    this.knockback.x += push.x;
+    this.knockback.z += push.z;
+  }
+
+  /**
+   * Remember a predicted frame and send it to the server
+   */
+  private sendInput(input: MovementInput): void {
+    const frame = this.prediction.createFrame({
+      ...input,
+      position: {
+        x: this.player.position.x,
+        y: this.player.position.y,
+        z: this.player.position.z,
+      },
+      rotation: this.player.rotation.y,
+    });
+    this.prediction.record(frame, this.getMovementState());
+
+    const eventEmitter =
+      (window as any).eventEmitter || this.scene.userData.eventEmitter;
+    if (eventEmitter) {
+      eventEmitter.emit(GAME_EVENTS.PLAYER.INPUT, frame);
+    }
+  }
+
+  /**
+   * Reconcile with the server's acknowledgement of our inputs.
+   * If the server moved us somewhere else, start from its position,
+   * replay the inputs it hasn't seen yet and blend towards the result.
+   */
+  public applyInputAck(ack: PlayerInputAckEvent): void {
+    if (this.isDead) return;
+
+    const acknowledged = this.prediction.acknowledge(ack.seq);
+    if (!acknowledged || !ack.corrected) return;
+
+    const displayedPosition = this.player.position.clone();
+    const state = acknowledged.state ?? this.getMovementState();
+
+    // Rewind to the authoritative state after the acknowledged input
+    this.player.position.set(ack.position.x, ack.position.y, ack.position.z);
+    this.velocity.y = state.velocityY;
+    this.canJump = state.canJump;
+    this.knockback.set(state.knockbackX, 0, state.knockbackZ);
+
+    for (const frame of acknowledged.pending) {
+      this.simulateMovement(frame);
+      this.prediction.updateState(frame.seq, this.getMovementState());
+    }
+
+    // Small errors are smoothed out over the next frames, big ones snap
+    const offset = displayedPosition.clone().sub(this.player.position);
+    if (this.prediction.setCorrection(offset)) {
+      this.player.position.copy(displayedPosition);
+    }
+  }
+
+  /**
+   * The physics state that replaying inputs starts from
+   */
+  private getMovementState(): MovementState {
+    return {
+      velocityY: this.velocity.y,
+      canJump: this.canJump,
+      knockbackX: this.knockback.x,
+      knockbackZ: this.knockback.z,
+    };
+  }
+
   /**
    * Update player rotation to face mouse position
    */
@@ -335,6 +597,7 @@ export class PlayerController {
     const groundPlane = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
     const targetPoint = new THREE.Vector3();
     raycaster.ray.intersectPlane(groundPlane, targetPoint);
+    this.aimPoint.copy(targetPoint);
 
     // Calculate the direction the player should face
     const direction = new THREE.Vector3()
@@ -421,51 +684,152 @@ export class PlayerController {
   }
 
   /**
-   * Take damage from an attack
+   * Take damage from the local environment (e.g. being hit by a car).
+   * Bullet damage comes from the server through applyServerDamage instead.
    */
-  public takeDamage(amount: number): void {
-    if (this.isDead) return;
+  public takeDamage(amount: number, source: DamageSource = ENVIRONMENT): void {
+    if (this.isDead || this.isSpawnProtected()) return;
 
+    const healthBefore = this.currentHealth;
     this.currentHealth = Math.max(0, this.currentHealth - amount);
+    this.recordDamage(source, healthBefore - this.currentHealth);
 
     // Show damage notification in HUD
+    this.showDamageNotification(amount, source);
+
+    if (this.currentHealth <= 0) {
+      this.die();
+    } else {
+      this.reportHealth("environment", healthBefore - this.currentHealth);
+    }
+  }
+
+  /**
+   * Apply an authoritative health update from the server
+   * @param damage The damage dealt by the hit
+   * @param health The player's health after the hit
+   * @param source Who dealt the hit
+   */
+  public applyServerDamage(
+    damage: number,
+    health: number,
+    source: DamageSource
+  ): void {
+    if (this.isDead) return;
+
+    const healthBefore = this.currentHealth;
+    this.currentHealth = Math.max(0, Math.min(this.maxHealth, health));
+    this.recordDamage(source, healthBefore - this.currentHealth);
+
+    if (damage > 0) {
+      this.showDamageNotification(damage, source);
+    }
+
+    if (this.currentHealth <= 0) {
+      this.die();
+    }
+  }
+
+  /**
+   * Remember who hurt the player, for the recap shown when they die
+   */
+  private recordDamage(source: DamageSource, amount: number): void {
+    this.lastDamageSource = source;
+
+    let tally = this.damageTaken.get(source.id);
+    if (!tally) {
+      tally = { source, damage: 0, hits: 0 };
+      this.damageTaken.set(source.id, tally);
+    }
+    tally.source = source;
+    tally.damage += Math.max(0, amount);
+    tally.hits++;
+  }
+
+  /**
+   * Show damage notification in HUD
+   */
+  private showDamageNotification(amount: number, source: DamageSource): void {
     const hud = this.scene.userData.hud;
     if (hud) {
       hud.showNotification(
         "damage-taken",
         "Damage Taken",
-        `Took ${amount} damage`,
+        `Took ${Math.ceil(amount)} damage from ${source.name}`,
         "💥"
       );
     }
+  }
 
-    if (this.currentHealth <= 0) {
-      this.isDead = true;
-      // Handle player death - make player fall to the floor
-
-      // Force player to stop moving
-      this.velocity.set(0, 0, 0);
-
-      // Apply death animation
-      PlayerUtils.handlePlayerDeath(this.player);
-
-      // Emit player status event for death
-      const eventEmitter =
-        (window as any).eventEmitter || this.scene.userData.eventEmitter;
-      if (eventEmitter) {
-        eventEmitter.emit(GAME_EVENTS.PLAYER.STATUS, {
-          status: "dead",
-        });
-      }
+  /**
+   * Handle player death - make player fall to the floor
+   */
+  private die(): void {
+    this.isDead = true;
+    this.currentHealth = 0;
+    this.diedAt = performance.now();
+    this.spawnShimmer.stop(this.player);
+
+    // Force player to stop moving
+    this.velocity.set(0, 0, 0);
+    this.knockback.set(0, 0, 0);
 
-      // Dispatch death event
-      const deathEvent = new CustomEvent("player-death");
-      document.dispatchEvent(deathEvent);
+    // A grenade being aimed is dropped, not thrown
+    this.aimingGrenade = false;
+    this.grenades?.hidePreview();
 
-      // Disable input
-      this.inputManager.disableKeyboardInput();
-      this.inputManager.disableMouseInput();
+    // Apply death animation
+    PlayerUtils.handlePlayerDeath(this.player);
+
+    // Emit player status event for death
+    const eventEmitter =
+      (window as any).eventEmitter || this.scene.userData.eventEmitter;
+    if (eventEmitter) {
+      eventEmitter.emit(GAME_EVENTS.PLAYER.STATUS, {
+        status: "dead",
+      });
     }
+
+    // Dispatch death event
+    const deathEvent = new CustomEvent<DeathRecap>("player-death", {
+      detail: {
+        killer: this.lastDamageSource,
+        attackers: [...this.damageTaken.values()].sort(
+          (a, b) => b.damage - a.damage
+        ),
+      },
+    });
+    document.dispatchEvent(deathEvent);
+
+    // Disable input, which also lets go of the scope
+    this.inputManager.disableKeyboardInput();
+    this.inputManager.disableMouseInput();
+  }
+
+  /**
+   * Tell the server about a health change it didn't cause itself, which
+   * it applies to its own view of our health
+   */
+  private reportHealth(
+    reason: PlayerHealthEvent["reason"],
+    amount: number
+  ): void {
+    if (amount <= 0) return;
+
+    const eventEmitter =
+      (window as any).eventEmitter || this.scene.userData.eventEmitter;
+    if (eventEmitter) {
+      eventEmitter.emit(GAME_EVENTS.PLAYER.HEALTH, { amount, reason });
+    }
+  }
+
+  /**
+   * Die because the server says so: environment damage it applied on top
+   * of hits we hadn't heard of yet ran out our health
+   */
+  public applyServerDeath(): void {
+    if (this.isDead) return;
+    this.die();
   }
 
   /**
@@ -483,11 +847,114 @@ export class PlayerController {
     if (this.isDead) return;
 
     this.currentHealth = Math.min(this.maxHealth, this.currentHealth + amount);
+    this.reportHealth("heal", amount);
+  }
+
+  /**
+   * Whether the player just spawned and can't be hurt yet
+   */
+  public isSpawnProtected(): boolean {
+    return this.spawnShimmer.isShimmering(this.player);
+  }
+
+  /**
+   * How long (ms) until the player may respawn, 0 once they can
+   */
+  public getRespawnDelayLeft(): number {
+    if (!this.isDead) return 0;
+    return Math.max(
+      0,
+      this.diedAt + SPAWN.respawnDelaySeconds * 1000 - performance.now()
+    );
+  }
+
+  /**
+   * Pick where the player comes back to life
+   */
+  public setSpawnSelector(spawnSelector: SpawnSelector): void {
+    this.spawnSelector = spawnSelector;
   }
 
+  /**
+   * Ask to come back to life at the safest spawn point, once the respawn
+   * delay is over. In a match the server checks the spawn (or picks its
+   * own) and respawnAt follows; playing alone, the player spawns there
+   * right away, or gets up where they fell without a spawn selector.
+   */
   public resurrect(): void {
+    if (this.getRespawnDelayLeft() > 0) return;
+
+    const spawn = this.spawnSelector?.pick(
+      TeamRoster.getInstance().getLocalTeam()
+    );
+
+    if (!LobbyClient.getInstance().getState().inMatch) {
+      if (spawn) {
+        this.respawnAt(spawn.position);
+      } else {
+        this.revive();
+      }
+      return;
+    }
+
+    const eventEmitter =
+      (window as any).eventEmitter || this.scene.userData.eventEmitter;
+    if (eventEmitter) {
+      eventEmitter.emit(GAME_EVENTS.PLAYER.STATUS, {
+        status: "alive",
+        position: spawn?.position,
+      });
+    } else {
+      console.warn("No event emitter found for player status event");
+    }
+  }
+
+  /**
+   * Come back to life where the server spawned us, carrying the loadout it
+   * spawned us with (or the one we picked, playing alone)
+   */
+  public respawnAt(
+    position: { x: number; y: number; z: number },
+    loadout: Loadout = LobbyClient.getInstance().getState().loadout
+  ): void {
+    this.revive();
+    this.weaponSystem.equip(loadout);
+    this.player.position.set(position.x, position.y, position.z);
+  }
+
+  /**
+   * Start over from the server's view of the local player, e.g. after
+   * reconnecting as a new session. The server already knows all this,
+   * so nothing is reported back.
+   */
+  public applySnapshot(snapshot: PlayerSnapshot): void {
+    if (this.isDead && !snapshot.isDead) {
+      this.revive();
+    }
+
+    this.currentHealth = Math.max(0, Math.min(this.maxHealth, snapshot.health));
+    this.player.position.set(
+      snapshot.position.x,
+      snapshot.position.y,
+      snapshot.position.z
+    );
+    this.player.rotation.y = snapshot.rotation;
+    this.velocity.set(0, 0, 0);
+    this.knockback.set(0, 0, 0);
+    this.weaponSystem.equip(snapshot.loadout);
+
+    // Inputs sent to the old session will never be acknowledged
+    this.prediction.reset();
+  }
+
+  /**
+   * Bring the player back to life where they fell, protected for a moment
+   */
+  private revive(): void {
     this.currentHealth = this.maxHealth;
     this.isDead = false;
+    this.lastDamageSource = null;
+    this.damageTaken.clear();
 
     // Re-enable input
     this.inputManager.enableKeyboardInput();
@@ -495,28 +962,23 @@ export class PlayerController {
 
     // Reset position and rotation (stand up)
     this.player.position.y = 1;
+    this.velocity.set(0, 0, 0);
+    this.knockback.set(0, 0, 0);
+
+    // Each life starts with a full set of grenades
+    this.grenades?.refill();
+
+    // Inputs from before death no longer apply
+    this.prediction.reset();
 
     // Completely reset rotation
     this.player.quaternion.identity(); // Reset quaternion to identity
     this.player.rotation.set(0, 0, 0); // Reset all rotation components
     this.player.updateMatrix(); // Force matrix update
 
-    // Emit player status event for respawn
-    const eventEmitter =
-      (window as any).eventEmitter || this.scene.userData.eventEmitter;
-    if (eventEmitter) {
-      console.log("Emitting player alive status event"); // Debug log
-      eventEmitter.emit(GAME_EVENTS.PLAYER.STATUS, {
-        status: "alive",
-        position: {
-          x: this.player.position.x,
-          y: this.player.position.y,
-          z: this.player.position.z,
-        },
-      });
-    } else {
-      console.warn("No event emitter found for player status event");
-    }
+    this.spawnShimmer.start(this.player, SPAWN.protectionSeconds * 1000);
+
+    document.dispatchEvent(new CustomEvent("player-resurrect"));
   }
 
   /**
@@ -528,27 +990,9 @@ export class PlayerController {
     // Get the weapon inventory
     const inventory = this.weaponSystem.getInventory();
 
-    // Find the weapon by name (case insensitive)
-    // Since WeaponType enum values are lowercase but Weapon names are capitalized,
-    // we need to convert the enum value to match the expected weapon name format
-    let weaponName: string;
-
-    switch (weaponType) {
-      case WeaponType.PISTOL:
-        weaponName = "Pistol";
-        break;
-      case WeaponType.RIFLE:
-        weaponName = "Assault Rifle";
-        break;
-      case WeaponType.SHOTGUN:
-        weaponName = "Shotgun";
-        break;
-      case WeaponType.SNIPER:
-        weaponName = "Sniper";
-        break;
-      default:
-        weaponName = weaponType;
-    }
+    // Find the weapon by name, looking up which weapon has this type
+    const weaponName =
+      getWeaponDefinitionByType(weaponType)?.name ?? weaponType;
 
     const weapon = inventory.find((w) => w.name === weaponName);
 
@@ -578,6 +1022,20 @@ export class PlayerController {
     this.weaponSystem.switchToWeapon(index);
   }
 
+  /**
+   * Set the grenades the player throws
+   */
+  public setGrenadeManager(grenades: GrenadeManager): void {
+    this.grenades = grenades;
+  }
+
+  /**
+   * How many grenades the player has left, for the HUD
+   */
+  public getGrenadesLeft(): number {
+    return this.grenades?.getGrenadesLeft() ?? 0;
+  }
+
   /**
    * Update the collision system reference
    */
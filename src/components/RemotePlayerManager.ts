@@ -1,24 +1,59 @@
 import * as THREE from "three";
-import socket from "../api/socket";
 import type { HUD } from "./HUD";
 import { WeaponSystem } from "./Weapon";
-import { GAME_EVENTS } from "../events/constants";
-import type { WeaponEvent } from "../events/types";
-import type { CollisionDetector } from "./CollisionInterface";
+import { LobbyClient } from "../api/lobby";
+import { GAME_EVENTS, SPAWN, TEAMS } from "../events/constants";
+import { EventEmitter } from "../events/eventEmitter";
+import { EventListener } from "../events/eventListener";
+import { dequantizeState } from "../events/stateCodec";
+import { StateReceiver } from "../events/stateReceiver";
+import type {
+  CombatEvent,
+  Loadout,
+  PlayerPositionEvent,
+  PlayerProfile,
+  TeamId,
+} from "../events/types";
+import type { CollisionDetector, ShotCover } from "./CollisionInterface";
 import { PlayerCollider, PLAYER_DIMENSIONS } from "./PlayerCollider";
+import { SnapshotBuffer } from "./SnapshotBuffer";
+import { SpawnShimmer } from "./SpawnShimmer";
+import type { SnapshotBufferSettings } from "./SnapshotBuffer";
 import { PlayerUtils } from "./PlayerController";
+import type { DamageSource, PlayerController } from "./PlayerController";
+import type { NameplateTarget } from "./Nameplates";
+import { TeamRoster } from "./TeamRoster";
+import { KNIFE, MELEE_SLOT, isInMeleeReach } from "../weapons/melee";
+import type { SurfaceMaterial } from "../weapons/surfaceMaterials";
+
+/**
+ * Height of a crouching player relative to a standing one
+ */
+const CROUCH_SCALE = 0.5;
+
+/**
+ * A remote player found along a ray
+ */
+interface RayHit {
+  userId: string;
+  point: THREE.Vector3;
+}
 
 interface RemotePlayer {
   id: string;
+  name: string;
   mesh: THREE.Mesh;
+  color: THREE.Color; // Their own color, worn outside team modes
   lastUpdate: number;
-  position: THREE.Vector3;
-  rotation: number;
+  snapshots: SnapshotBuffer;
+  crouching: boolean;
 
   currentHealth: number;
   isDead: boolean;
+  lastDamagedAt?: number; // performance.now() of the last hit taken
 
   weaponSystem: WeaponSystem;
+  weaponIndex: number;
 }
 
 /**
@@ -26,28 +61,82 @@ interface RemotePlayer {
  */
 export class RemotePlayerManager {
   private players: Map<string, RemotePlayer> = new Map();
+  private netIds: Map<number, string> = new Map(); // Net id to user id
+  // Names and colors players chose, for anyone added back without one
+  private profiles: Map<string, PlayerProfile> = new Map();
+  private stateReceiver = new StateReceiver();
   private scene: THREE.Scene;
   private hud: HUD;
   private collisionDetector?: CollisionDetector;
+  private localUserId: string | null = null;
+  private localPlayerController?: PlayerController;
+  private snapshotSettings?: Partial<SnapshotBufferSettings>;
+  private teams = TeamRoster.getInstance();
+  private localTeam: TeamId | null = null;
+  private spawnShimmer = new SpawnShimmer();
 
   constructor(
     scene: THREE.Scene,
     hud: HUD,
-    collisionDetector?: CollisionDetector
+    collisionDetector?: CollisionDetector,
+    snapshotSettings?: Partial<SnapshotBufferSettings>
   ) {
     this.scene = scene;
     this.hud = hud;
     this.collisionDetector = collisionDetector;
+    this.snapshotSettings = snapshotSettings;
     this.setupSocketListeners();
+    this.teams.onChange(() => this.handleTeamsChange());
   }
 
   /**
    * Set up socket listeners for remote player events
    */
   private setupSocketListeners(): void {
+    const events = EventListener.getInstance();
+
+    // The server tells us our own id and who is in our match. Joining or
+    // leaving a match, or reconnecting, starts over, so everything is
+    // rebuilt from it.
+    events.on(GAME_EVENTS.USER.WELCOME, ({ userId, self, players }) => {
+      this.clearPlayers();
+      this.localUserId = userId;
+      this.localPlayerController?.applySnapshot(self);
+      // The match's scoreboard follows
+      this.hud.updateScoreboard([], userId);
+
+      for (const snapshot of players) {
+        this.netIds.set(snapshot.netId, snapshot.userId);
+        this.addPlayer(snapshot.userId, snapshot);
+        this.teleportPlayer(
+          snapshot.userId,
+          snapshot.position,
+          snapshot.rotation
+        );
+
+        const player = this.players.get(snapshot.userId);
+        if (!player) continue;
+
+        player.currentHealth = snapshot.health;
+        this.equipPlayer(snapshot.userId, snapshot.loadout);
+        this.updatePlayerWeapon(
+          snapshot.userId,
+          this.getWeaponIndex(snapshot.userId, snapshot.weaponType)
+        );
+
+        if (snapshot.isDead) {
+          PlayerUtils.handlePlayerDeath(player.mesh);
+          player.isDead = true;
+        }
+      }
+    });
+
     // Listen for new player connections
-    socket.on(GAME_EVENTS.USER.CONNECTED, ({ message, userId }) => {
-      this.addPlayer(userId);
+    events.on(GAME_EVENTS.USER.CONNECTED, (event) => {
+      const { message, userId, netId } = event;
+      this.netIds.set(netId, userId);
+      this.addPlayer(userId, event);
+      this.equipPlayer(userId, event.loadout);
 
       this.hud.showNotification(
         "user connected",
@@ -58,7 +147,10 @@ export class RemotePlayerManager {
     });
 
     // Listen for player disconnections
-    socket.on(GAME_EVENTS.USER.DISCONNECTED, ({ message, userId }) => {
+    events.on(GAME_EVENTS.USER.DISCONNECTED, ({ message, userId, netId }) => {
+      this.netIds.delete(netId);
+      this.stateReceiver.forget(netId);
+      this.profiles.delete(userId);
       this.removePlayer(userId);
 
       this.hud.showNotification(
@@ -69,65 +161,156 @@ export class RemotePlayerManager {
       );
     });
 
-    // Listen for player position updates
-    socket.on(GAME_EVENTS.PLAYER.POSITION, ({ userId, position, rotation }) => {
-      this.updatePlayerPosition(userId, position, rotation);
+    // Keep the scoreboard in step with the server's match stats
+    events.on(GAME_EVENTS.MATCH.SCOREBOARD, ({ players }) => {
+      this.hud.updateScoreboard(players, this.localUserId);
+    });
+
+    // Listen for player state updates, binary unless we asked for JSON
+    events.onBinary(GAME_EVENTS.PLAYER.STATE, (bytes) => {
+      const states = this.stateReceiver.receive(bytes);
+      if (!states) return false;
+
+      for (const [netId, state] of states) {
+        const userId = this.netIds.get(netId);
+        if (userId) {
+          this.updatePlayerState(userId, dequantizeState(state));
+        }
+      }
+      return true;
+    });
+
+    events.onRemote(GAME_EVENTS.PLAYER.POSITION, ({ userId, ...state }) => {
+      this.updatePlayerState(userId, state);
+    });
+
+    // The server confirms (or corrects) our own predicted movement
+    events.on(GAME_EVENTS.PLAYER.INPUT_ACK, (ack) => {
+      this.localPlayerController?.applyInputAck(ack);
     });
 
     // Listen for player status updates (death/respawn)
-    socket.on(GAME_EVENTS.PLAYER.STATUS, ({ userId, status, position }) => {
-      this.handlePlayerStatusChange(userId, status, position);
+    events.onRemote(
+      GAME_EVENTS.PLAYER.STATUS,
+      ({ userId, status, position, loadout }) => {
+        // The server tells us where we respawn, and with what, and
+        // whether the environment finished us off
+        if (userId === this.localUserId) {
+          if (status === "alive" && position) {
+            this.localPlayerController?.respawnAt(position, loadout);
+          } else if (status === "dead") {
+            this.localPlayerController?.applyServerDeath();
+          }
+          return;
+        }
+        this.handlePlayerStatusChange(userId, status, position, loadout);
+      }
+    );
+
+    // Listen for health changes from pickups and the environment
+    events.onRemote(GAME_EVENTS.PLAYER.HEALTH, ({ userId, health }) => {
+      const player = this.players.get(userId);
+      if (player && !player.isDead && health !== undefined) {
+        player.currentHealth = health;
+      }
+    });
+
+    // Listen for authoritative damage and kills from the server
+    events.on(GAME_EVENTS.COMBAT.DAMAGE, (event) => {
+      this.handleCombatDamage(event);
+    });
+
+    events.on(GAME_EVENTS.COMBAT.KILL, (event) => {
+      this.handleCombatKill(event);
     });
 
     // Listen for player weapon updates
-    socket.on(
+    events.onRemote(
       GAME_EVENTS.WEAPON.SWITCH,
-      ({ userId, weaponType, action }: { userId: string } & WeaponEvent) => {
+      ({ userId, weaponType, action }) => {
         if (action === "switch") {
-          this.updatePlayerWeapon(userId, this.getWeaponIndex(weaponType));
+          this.updatePlayerWeapon(
+            userId,
+            this.getWeaponIndex(userId, weaponType)
+          );
         }
       }
     );
 
+    // Show a laser sight from players aiming down a scope
+    events.onRemote(GAME_EVENTS.WEAPON.AIM, ({ userId, data }) => {
+      const player = this.players.get(userId);
+      if (!player) return;
+      player.weaponSystem.handleRemoteEvent(() => {
+        player.weaponSystem.setAiming(data?.aiming === true);
+      });
+    });
+
     // Listen for weapon shoot events
-    socket.on(
-      GAME_EVENTS.WEAPON.SHOOT,
-      ({ userId, data }: { userId: string } & WeaponEvent) => {
+    events.onRemote(GAME_EVENTS.WEAPON.SHOOT, ({ userId, data }) => {
+      const player = this.players.get(userId);
+      if (!player || !data?.position || !data?.direction) {
+        console.warn("Invalid remote shoot data:", { player, data });
+        return;
+      }
+
+      // Firing ends their spawn protection
+      this.spawnShimmer.stop(player.mesh);
+
+      const position = new THREE.Vector3(
+        data.position.x,
+        data.position.y,
+        data.position.z
+      );
+      const direction = new THREE.Vector3(
+        data.direction.x,
+        data.direction.y,
+        data.direction.z
+      );
+
+      player.weaponSystem.handleRemoteEvent(() => {
+        // Create bullet at the remote player's position with the correct direction
+        player.weaponSystem.shootRemote(this.scene, position, direction);
+      });
+    });
+
+    // Show knife swings; the server tells us whoever they struck
+    events.onRemote(
+      GAME_EVENTS.COMBAT.MELEE,
+      ({ userId, position, direction }) => {
         const player = this.players.get(userId);
-        if (!player || !data?.position || !data?.direction) {
-          console.warn("Invalid remote shoot data:", { player, data });
-          return;
-        }
+        if (!player) return;
 
-        const position = new THREE.Vector3(
-          data.position.x,
-          data.position.y,
-          data.position.z
-        );
-        const direction = new THREE.Vector3(
-          data.direction.x,
-          data.direction.y,
-          data.direction.z
-        );
+        // Swinging ends their spawn protection
+        this.spawnShimmer.stop(player.mesh);
+        player.weaponIndex = MELEE_SLOT;
 
         player.weaponSystem.handleRemoteEvent(() => {
-          // Create bullet at the remote player's position with the correct direction
-          player.weaponSystem.shootRemote(this.scene, position, direction);
+          player.weaponSystem.swingRemote(
+            new THREE.Vector3(position.x, position.y, position.z),
+            new THREE.Vector3(direction.x, direction.y, direction.z),
+            this.collisionDetector
+          );
         });
       }
     );
   }
 
   /**
-   * Add a new remote player to the scene
+   * Add a new remote player to the scene, looking the way they chose
    */
-  private addPlayer(userId: string): void {
+  private addPlayer(userId: string, chosen?: PlayerProfile): void {
     // Validate userId
     if (!userId) {
       console.error("Attempted to add player with invalid userId:", userId);
       return;
     }
 
+    if (chosen) {
+      this.profiles.set(userId, { name: chosen.name, color: chosen.color });
+    }
+    const profile = this.profiles.get(userId);
+
     // Check if player already exists
     if (this.players.has(userId)) {
       console.warn(`Player ${userId} already exists`);
@@ -140,10 +323,13 @@ export class RemotePlayerManager {
       PLAYER_DIMENSIONS.height,
       PLAYER_DIMENSIONS.depth
     );
-    // Generate a unique but consistent color based on userId
-    const hue = this.getHueFromString(userId);
+    // Without a profile, generate a unique but consistent color from userId.
+    // In team modes everyone wears their team's color instead.
+    const color = profile
+      ? new THREE.Color(profile.color)
+      : new THREE.Color().setHSL(this.getHueFromString(userId), 0.8, 0.5);
     const playerMaterial = new THREE.MeshStandardMaterial({
-      color: new THREE.Color().setHSL(hue, 0.8, 0.5),
+      color: this.teams.getTeamColor(userId) ?? color,
     });
 
     const playerMesh = new THREE.Mesh(playerGeometry, playerMaterial);
@@ -179,16 +365,43 @@ export class RemotePlayerManager {
     // Add to players map
     this.players.set(userId, {
       id: userId,
+      name: profile?.name ?? `Player ${userId.slice(0, 8)}`,
       mesh: playerMesh,
+      color,
       lastUpdate: performance.now(),
-      position: playerMesh.position.clone(),
-      rotation: 0,
+      snapshots: new SnapshotBuffer(this.snapshotSettings),
+      crouching: false,
       currentHealth: 100,
       isDead: false,
       weaponSystem,
+      weaponIndex: 0,
     });
   }
 
+  /**
+   * Dress everyone in their team's color (or their own outside team
+   * modes), and tell the local player if they were moved to another team
+   * to even the teams out
+   */
+  private handleTeamsChange(): void {
+    for (const [userId, player] of this.players) {
+      (player.mesh.material as THREE.MeshStandardMaterial).color.set(
+        this.teams.getTeamColor(userId) ?? player.color
+      );
+    }
+
+    const team = this.teams.getLocalTeam();
+    if (this.localTeam && team && team !== this.localTeam) {
+      this.hud.showNotification(
+        "team-balance",
+        "Teams balanced",
+        `You are now on the ${TEAMS[team].name} team`,
+        "⚖️"
+      );
+    }
+    this.localTeam = team;
+  }
+
   /**
    * Remove a remote player from the scene
    */
@@ -200,20 +413,32 @@ export class RemotePlayerManager {
     }
 
     // Remove from scene
+    this.spawnShimmer.stop(player.mesh);
     this.scene.remove(player.mesh);
+    player.weaponSystem.dispose();
 
     // Remove from players map
     this.players.delete(userId);
   }
 
   /**
-   * Update a remote player's position and rotation
+   * Remove every remote player, e.g. when the connection drops and
+   * what we know about them goes stale
    */
-  private updatePlayerPosition(
-    userId: string,
-    position: { x: number; y: number; z: number },
-    rotation: number
-  ): void {
+  public clearPlayers(): void {
+    for (const userId of Array.from(this.players.keys())) {
+      this.removePlayer(userId);
+    }
+    this.netIds.clear();
+    this.profiles.clear();
+    this.stateReceiver.reset();
+  }
+
+  /**
+   * Buffer a remote player's position and rotation, and show their
+   * stance and weapon. The timestamp is the sender's clock.
+   */
+  private updatePlayerState(userId: string, state: PlayerPositionEvent): void {
     // Validate userId to prevent errors
     if (!userId) {
       console.error(
@@ -227,36 +452,117 @@ export class RemotePlayerManager {
     if (!player) {
       // Player doesn't exist yet, create them
       this.addPlayer(userId);
-      this.updatePlayerPosition(userId, position, rotation);
+      this.updatePlayerState(userId, state);
       return;
     }
 
-    // Update the target position and rotation
-    player.position.set(position.x, position.y, position.z);
-    player.rotation = rotation;
+    player.snapshots.push(state.timestamp, state.position, state.rotation);
+    player.lastUpdate = performance.now();
+
+    if (player.crouching !== state.crouching) {
+      player.crouching = state.crouching;
+      player.mesh.scale.y = state.crouching ? CROUCH_SCALE : 1;
+    }
+    if (player.weaponIndex !== state.weaponIndex) {
+      this.updatePlayerWeapon(userId, state.weaponIndex);
+    }
+  }
+
+  /**
+   * Move a remote player instantly (on join or respawn) instead of
+   * interpolating from where they were
+   */
+  private teleportPlayer(
+    userId: string,
+    position: { x: number; y: number; z: number },
+    rotation: number
+  ): void {
+    if (!this.players.has(userId)) {
+      this.addPlayer(userId);
+    }
+
+    const player = this.players.get(userId);
+    if (!player) return;
+
+    player.snapshots.clear();
+    player.mesh.position.set(position.x, position.y, position.z);
+    player.mesh.rotation.y = rotation;
     player.lastUpdate = performance.now();
   }
 
   /**
-   * Update all remote players (smoothly interpolate positions)
+   * Update all remote players (interpolate between buffered snapshots)
    */
   public update(delta: number): void {
+    const now = performance.now();
+
     // Update each player's visual representation
     for (const player of this.players.values()) {
-      // Smoothly interpolate position
-      player.mesh.position.lerp(player.position, 0.3);
-
-      // Smoothly interpolate rotation
-      const currentRotation = player.mesh.rotation.y;
-      const targetRotation = player.rotation;
-      player.mesh.rotation.y += (targetRotation - currentRotation) * 0.3;
+      // Dead players stay where they fell
+      const sample = player.isDead ? null : player.snapshots.sample(now);
+      if (sample) {
+        player.mesh.position.copy(sample.position);
+        player.mesh.rotation.y = sample.rotation;
+      }
 
       // Update the weapon position to match the player's new position and rotation
-      player.weaponSystem.updateWeaponPosition(false);
+      player.weaponSystem.updateWeaponPosition(player.crouching);
 
       // Update bullets with collision detection
       player.weaponSystem.updateBullets(delta, this.collisionDetector);
     }
+
+    this.spawnShimmer.update(now);
+  }
+
+  /**
+   * Where the living players not on our team are, to spawn away from
+   */
+  public getEnemyPositions(): THREE.Vector3[] {
+    return Array.from(this.players.values())
+      .filter((player) => !player.isDead && !this.teams.isTeammate(player.id))
+      .map((player) => player.mesh.position.clone());
+  }
+
+  /**
+   * The living remote players within reach of a blast set off by the local
+   * player, that the room's friendly fire rule lets it hurt
+   */
+  public getBlastTargets(
+    center: THREE.Vector3,
+    radius: number
+  ): Map<string, THREE.Vector3> {
+    const targets = new Map<string, THREE.Vector3>();
+    for (const [userId, player] of this.players) {
+      if (player.isDead) continue;
+      if (!this.teams.canDamage(this.localUserId, userId)) continue;
+      if (player.mesh.position.distanceTo(center) > radius) continue;
+
+      targets.set(userId, player.mesh.position.clone());
+    }
+    return targets;
+  }
+
+  /**
+   * The living remote players a knife swung along an aim would reach, that
+   * the room's friendly fire rule lets the attacker hurt, nearest first
+   */
+  public getMeleeTargets(
+    origin: THREE.Vector3,
+    aim: { x: number; z: number },
+    attacker?: THREE.Object3D
+  ): { userId: string; position: THREE.Vector3 }[] {
+    const targets: { userId: string; position: THREE.Vector3 }[] = [];
+    for (const [userId, player] of this.players) {
+      if (player.isDead || player.mesh === attacker) continue;
+      if (!this.canDamage(attacker, userId)) continue;
+      if (!isInMeleeReach(origin, player.mesh.position, aim)) continue;
+
+      targets.push({ userId, position: player.mesh.position.clone() });
+    }
+    return targets.sort(
+      (a, b) => a.position.distanceTo(origin) - b.position.distanceTo(origin)
+    );
   }
 
   /**
@@ -267,6 +573,7 @@ export class RemotePlayerManager {
     if (!player) {
       return;
     }
+    player.weaponIndex = weaponIndex;
     player.weaponSystem.handleRemoteEvent(() => {
       player.weaponSystem.switchToWeapon(weaponIndex);
     });
@@ -290,19 +597,37 @@ export class RemotePlayerManager {
   }
 
   /**
-   * Convert weapon type to index
+   * Arm a remote player with the loadout they spawned with, primary in hand
    */
-  private getWeaponIndex(weaponType: string): number {
-    switch (weaponType.toLowerCase()) {
-      case "pistol":
-        return 0;
-      case "assault rifle":
-        return 1;
-      case "shotgun":
-        return 2;
-      default:
-        return 0; // Default to pistol
-    }
+  private equipPlayer(userId: string, loadout: Loadout): void {
+    const player = this.players.get(userId);
+    if (!player) return;
+
+    player.weaponIndex = 0;
+    player.weaponSystem.handleRemoteEvent(() => {
+      player.weaponSystem.equip(loadout);
+    });
+  }
+
+  /**
+   * Convert weapon type to its slot in a remote player's loadout, or the
+   * knife's own slot
+   */
+  private getWeaponIndex(userId: string, weaponType: string): number {
+    if (weaponType === KNIFE.name) return MELEE_SLOT;
+
+    // Weapons they don't carry default to the first slot
+    const inventory = this.players.get(userId)?.weaponSystem.getInventory();
+    const index =
+      inventory?.findIndex((weapon) => weapon.name === weaponType) ?? -1;
+    return Math.max(0, index);
+  }
+
+  /**
+   * Get the id the server assigned to the local player
+   */
+  public getLocalUserId(): string | null {
+    return this.localUserId;
   }
 
   /**
@@ -312,6 +637,26 @@ export class RemotePlayerManager {
     return this.players;
   }
 
+  /**
+   * What each remote player's nameplate should show
+   */
+  public getNameplateTargets(): Map<string, NameplateTarget> {
+    const targets = new Map<string, NameplateTarget>();
+    for (const [userId, player] of this.players) {
+      targets.set(userId, {
+        object: player.mesh,
+        name: player.name,
+        health: player.currentHealth,
+        maxHealth: 100,
+        isDead: player.isDead,
+        weaponName: player.weaponSystem.getCurrentWeapon().name,
+        lastDamagedAt: player.lastDamagedAt,
+        teamColor: this.teams.getTeamColor(userId) ?? undefined,
+      });
+    }
+    return targets;
+  }
+
   /**
    * Clear all remote players
    */
@@ -329,54 +674,243 @@ export class RemotePlayerManager {
   }
 
   /**
-   * Handle damage taken by a remote player
+   * Set the local player's controller so server damage can be applied to it
    */
-  public takeDamage(playerId: string, amount: number): void {
-    const player = this.players.get(playerId);
+  public setLocalPlayerController(controller: PlayerController): void {
+    this.localPlayerController = controller;
+  }
+
+  /**
+   * Apply an authoritative damage event from the server
+   */
+  private handleCombatDamage(event: CombatEvent): void {
+    const { targetId, damage = 0, health } = event;
+    if (health === undefined) return;
+
+    // Damage to the local player
+    if (targetId === this.localUserId) {
+      this.localPlayerController?.applyServerDamage(
+        damage,
+        health,
+        this.getDamageSource(event)
+      );
+      return;
+    }
+
+    const player = this.players.get(targetId);
     if (!player || player.isDead) return;
 
-    player.currentHealth = Math.max(0, player.currentHealth - amount);
+    // Their nameplate shows the hit
+    player.currentHealth = health;
+    player.lastDamagedAt = performance.now();
+  }
 
-    // Show damage indicator in HUD
-    this.hud.showNotification(
-      `damage-${playerId}`,
-      "Player Hit",
-      `Dealt ${amount} damage`,
-      "💥"
-    );
+  /**
+   * Apply an authoritative kill event from the server
+   */
+  private handleCombatKill(event: CombatEvent): void {
+    const { sourceId, targetId } = event;
+
+    this.hud.addKillFeedEntry({
+      killerName: this.getPlayerName(sourceId),
+      victimName: this.getPlayerName(targetId),
+      weaponName: event.weaponType,
+      headshot: event.headshot,
+      wallbang: event.wallbang,
+      backstab: event.backstab,
+      involvesLocalPlayer:
+        sourceId === this.localUserId || targetId === this.localUserId,
+    });
 
-    // If player is dead, you could add death handling here
-    if (player.currentHealth <= 0) {
-      // Apply death animation
-      PlayerUtils.handlePlayerDeath(player.mesh);
+    if (targetId === this.localUserId) {
+      this.localPlayerController?.applyServerDamage(
+        0,
+        0,
+        this.getDamageSource(event)
+      );
+      return;
+    }
 
-      // Mark player as dead
-      player.isDead = true;
+    const player = this.players.get(targetId);
+    if (!player || player.isDead) return;
+
+    player.currentHealth = 0;
+
+    // Apply death animation
+    PlayerUtils.handlePlayerDeath(player.mesh);
+
+    // Mark player as dead
+    player.isDead = true;
+  }
+
+  /**
+   * The object of a remote player, if we know them
+   */
+  public getPlayerObject(userId: string): THREE.Object3D | undefined {
+    return this.players.get(userId)?.mesh;
+  }
+
+  /**
+   * Describe who dealt a hit, for the local player's death recap
+   */
+  private getDamageSource(event: CombatEvent): DamageSource {
+    return {
+      id: event.sourceId,
+      name: this.getPlayerName(event.sourceId),
+      weaponName: event.weaponType,
+      headshot: event.headshot,
+      wallbang: event.wallbang,
+      backstab: event.backstab,
+    };
+  }
+
+  private getPlayerName(userId: string): string {
+    if (userId === this.localUserId) {
+      return LobbyClient.getInstance().getState().profile.name;
     }
+    return this.players.get(userId)?.name ?? "Unknown player";
+  }
+
+  /**
+   * Hitboxes of the remote players a bullet could strike.
+   * Bullets only stop on these; hits are claimed in resolveHitscan.
+   */
+  public getBulletTargets(shooter?: THREE.Object3D): THREE.Box3[] {
+    const boxes: THREE.Box3[] = [];
+    for (const [userId, player] of this.players) {
+      // Dead players and the shooter themselves can't be hit, and
+      // teammates only with friendly fire on
+      if (player.isDead || player.mesh === shooter) continue;
+      if (!this.canDamage(shooter, userId)) continue;
+
+      boxes.push(
+        PlayerCollider.createCollisionBox(
+          player.mesh.position,
+          PlayerCollider.getPlayerHeight(player.mesh)
+        )
+      );
+    }
+    return boxes;
+  }
+
+  /**
+   * Find the first remote player along a local player's shot and send the
+   * server a hit claim for it
+   * @param ray The shot, starting at the gun barrel
+   * @param maxDistance How far along the ray the shot reaches
+   * @param weaponType The weapon that fired the shot
+   * @param cover What the shot goes through on the way, in order
+   * @returns True if a player was hit
+   */
+  public resolveHitscan(
+    ray: THREE.Ray,
+    maxDistance: number,
+    weaponType: string,
+    shooter?: THREE.Object3D,
+    cover: ShotCover[] = []
+  ): boolean {
+    // Shots pass through teammates that can't be hurt
+    const hit = this.findPlayerAlong(ray, maxDistance, shooter, (userId) =>
+      this.canDamage(shooter, userId)
+    );
+    if (!hit) return false;
+
+    // The server takes damage off for cover in front of the target
+    const hitDistance = hit.point.distanceTo(ray.origin);
+    const penetrated = cover
+      .filter((piece) => piece.distance < hitDistance)
+      .map((piece) => piece.material);
+
+    this.sendHitClaim(hit.userId, hit.point, weaponType, penetrated);
+    return true;
   }
 
   /**
-   * Check if a bullet collides with any remote player
+   * The first living remote player along a ray, e.g. the one in the local
+   * player's sights
    */
-  public checkBulletCollision(bulletPosition: THREE.Vector3): boolean {
-    for (const [playerId, player] of this.players) {
-      // Get player height using PlayerCollider utility
-      const playerHeight = PlayerCollider.getPlayerHeight(player.mesh);
+  public findAimedPlayer(
+    ray: THREE.Ray,
+    maxDistance: number,
+    shooter?: THREE.Object3D
+  ): string | null {
+    return this.findPlayerAlong(ray, maxDistance, shooter)?.userId ?? null;
+  }
+
+  /**
+   * Whether a shot from a player object can hurt a player, under the
+   * room's friendly fire rule. Objects that aren't remote players are the
+   * local player's.
+   */
+  public canDamage(
+    shooter: THREE.Object3D | undefined,
+    targetId: string | null
+  ): boolean {
+    if (!shooter) return true;
+
+    let shooterId = this.localUserId;
+    for (const [userId, player] of this.players) {
+      if (player.mesh === shooter) shooterId = userId;
+    }
+    return this.teams.canDamage(shooterId, targetId);
+  }
+
+  private findPlayerAlong(
+    ray: THREE.Ray,
+    maxDistance: number,
+    shooter?: THREE.Object3D,
+    canHit: (userId: string) => boolean = () => true
+  ): RayHit | null {
+    let hit: RayHit | null = null;
+    let nearest = maxDistance;
+    const point = new THREE.Vector3();
+
+    for (const [userId, player] of this.players) {
+      if (player.isDead || player.mesh === shooter || !canHit(userId)) {
+        continue;
+      }
 
-      // Create a collision box for the player using PlayerCollider
       const playerBox = PlayerCollider.createCollisionBox(
         player.mesh.position,
-        playerHeight
+        PlayerCollider.getPlayerHeight(player.mesh)
       );
 
-      // Check if bullet hits player
-      if (playerBox.containsPoint(bulletPosition)) {
-        // Apply damage to the hit player
-        this.takeDamage(playerId, 25); // Using same damage as CollisionSystem
-        return true;
+      if (ray.intersectBox(playerBox, point)) {
+        const distance = point.distanceTo(ray.origin);
+        if (distance <= nearest) {
+          nearest = distance;
+          hit = { userId, point: point.clone() };
+        }
       }
     }
-    return false;
+
+    return hit;
+  }
+
+  /**
+   * Ask the server to register a hit on a remote player
+   */
+  private sendHitClaim(
+    targetId: string,
+    hitPosition: THREE.Vector3,
+    weaponType: string,
+    penetrated: SurfaceMaterial[]
+  ): void {
+    if (!this.localUserId) return;
+
+    EventEmitter.getInstance().emit(GAME_EVENTS.COMBAT.HIT, {
+      type: "hit",
+      sourceId: this.localUserId,
+      targetId,
+      weaponType,
+      wallbang: penetrated.length > 0,
+      penetrated: penetrated.length > 0 ? penetrated : undefined,
+      position: {
+        x: hitPosition.x,
+        y: hitPosition.y,
+        z: hitPosition.z,
+      },
+    });
   }
 
   /**
@@ -385,74 +919,75 @@ export class RemotePlayerManager {
   private handlePlayerStatusChange(
     userId: string,
     status: "dead" | "alive",
-    position?: { x: number; y: number; z: number }
+    position?: { x: number; y: number; z: number },
+    loadout?: Loadout
   ): void {
     const player = this.players.get(userId);
 
     if (!player) {
       // Player doesn't exist yet, create them if they're alive
       if (status === "alive" && position) {
-        this.addPlayer(userId);
-        // Update their position
-        this.updatePlayerPosition(userId, position, 0);
+        this.teleportPlayer(userId, position, 0);
       }
       return;
     }
 
     if (status === "dead") {
+      // Kills are already in the feed; this is a death nobody caused
+      if (!player.isDead) {
+        this.hud.addKillFeedEntry({
+          killerName: null,
+          victimName: player.name,
+        });
+      }
+
       // Apply death animation to existing player
       PlayerUtils.handlePlayerDeath(player.mesh);
       player.isDead = true;
-
-      this.hud.showNotification(
-        `status-${userId}`,
-        "Player Died",
-        `Player has died`,
-        "💀"
-      );
     } else if (status === "alive") {
-      // Handle player respawn
+      // Handle player respawn: the same player gets back up, keeping the
+      // name and color they chose
       if (player.isDead) {
-        // Remove the dead player mesh
-        this.scene.remove(player.mesh);
-        this.removePlayer(userId);
+        player.isDead = false;
+        player.currentHealth = 100;
+        player.crouching = false;
+        player.mesh.scale.y = 1;
 
-        // Add the player back with a new mesh
-        if (position) {
-          this.addPlayer(userId);
-          this.updatePlayerPosition(userId, position, 0);
-
-          // Ensure the rotation is properly reset for the new player
-          const newPlayer = this.players.get(userId);
-          if (newPlayer) {
-            // Use quaternion to reset rotation completely
-            newPlayer.mesh.quaternion.identity();
-
-            // Then set rotation explicitly to ensure all axes are reset
-            newPlayer.mesh.rotation.set(0, 0, 0);
-            newPlayer.rotation = 0;
-
-            // Force update matrix to ensure changes take effect
-            newPlayer.mesh.updateMatrix();
-            newPlayer.mesh.updateMatrixWorld(true);
-          }
+        // Use quaternion to reset rotation completely, then set rotation
+        // explicitly to ensure all axes are reset
+        player.mesh.quaternion.identity();
+        player.mesh.rotation.set(0, 0, 0);
 
-          this.hud.showNotification(
-            `status-${userId}`,
-            "Player Respawned",
-            `Player has respawned`,
-            "🔄"
-          );
+        if (position) {
+          this.teleportPlayer(userId, position, 0);
         }
+
+        // Force update matrix to ensure changes take effect
+        player.mesh.updateMatrix();
+        player.mesh.updateMatrixWorld(true);
+
+        // Shimmer while they are spawn protected
+        this.spawnShimmer.start(player.mesh, SPAWN.protectionSeconds * 1000);
+
+        this.hud.showNotification(
+          `status-${userId}`,
+          "Player Respawned",
+          `${player.name} has respawned`,
+          "🔄"
+        );
       } else {
         // Player was already alive, just ensure rotation is correct
         console.log(`Updating already-alive player: ${userId}`); // Debug log
         player.mesh.quaternion.identity();
         player.mesh.rotation.set(0, 0, 0);
-        player.rotation = 0;
         player.mesh.updateMatrix();
         player.mesh.updateMatrixWorld(true);
       }
+
+      // Every life starts with the loadout they picked for it
+      if (loadout) {
+        this.equipPlayer(userId, loadout);
+      }
     }
   }
 }
@@ -0,0 +1,167 @@
+import * as THREE from "three";
+
+/**
+ * A remote player's position at a point in time
+ */
+interface Snapshot {
+  timestamp: number; // Sender's clock (ms)
+  position: THREE.Vector3;
+  rotation: number;
+}
+
+/**
+ * Snapshot buffer settings
+ */
+export interface SnapshotBufferSettings {
+  interpolationDelay: number; // How far behind real time (ms) players are drawn
+  maxExtrapolation: number; // How long (ms) to keep moving when packets are late
+  maxSnapshots: number; // Oldest snapshots are dropped past this count
+}
+
+/**
+ * Sampled state of a remote player
+ */
+export interface SnapshotSample {
+  position: THREE.Vector3;
+  rotation: number;
+}
+
+/**
+ * Buffers timestamped positions of a remote player and renders them a little
+ * in the past, so there are always two snapshots to interpolate between even
+ * when packets arrive in bursts or out of order.
+ */
+export class SnapshotBuffer {
+  private snapshots: Snapshot[] = [];
+  private clockOffset: number | null = null; // Local time minus sender time
+
+  private interpolationDelay: number;
+  private maxExtrapolation: number;
+  private maxSnapshots: number;
+
+  constructor(settings?: Partial<SnapshotBufferSettings>) {
+    this.interpolationDelay = settings?.interpolationDelay ?? 150;
+    this.maxExtrapolation = settings?.maxExtrapolation ?? 250;
+    this.maxSnapshots = settings?.maxSnapshots ?? 30;
+  }
+
+  /**
+   * Add a snapshot, keeping the buffer ordered by the sender's timestamp
+   * @returns False if the snapshot was a duplicate and got dropped
+   */
+  public push(
+    timestamp: number,
+    position: { x: number; y: number; z: number },
+    rotation: number,
+    receivedAt = performance.now()
+  ): boolean {
+    this.updateClockOffset(receivedAt - timestamp);
+
+    if (this.snapshots.some((snapshot) => snapshot.timestamp === timestamp)) {
+      return false;
+    }
+
+    const snapshot: Snapshot = {
+      timestamp,
+      position: new THREE.Vector3(position.x, position.y, position.z),
+      rotation,
+    };
+
+    // Late packets are slotted in where they belong
+    let index = this.snapshots.length;
+    while (index > 0 && this.snapshots[index - 1].timestamp > timestamp) {
+      index--;
+    }
+    this.snapshots.splice(index, 0, snapshot);
+
+    if (this.snapshots.length > this.maxSnapshots) {
+      this.snapshots.shift();
+    }
+    return true;
+  }
+
+  /**
+   * Get the interpolated (or briefly extrapolated) state to draw now
+   */
+  public sample(now = performance.now()): SnapshotSample | null {
+    if (this.snapshots.length === 0 || this.clockOffset === null) return null;
+
+    // Work in the sender's clock from here on
+    const renderTime = now - this.interpolationDelay - this.clockOffset;
+    this.prune(renderTime);
+
+    const first = this.snapshots[0];
+    if (this.snapshots.length === 1 || renderTime <= first.timestamp) {
+      return { position: first.position.clone(), rotation: first.rotation };
+    }
+
+    for (let i = 1; i < this.snapshots.length; i++) {
+      const to = this.snapshots[i];
+      if (renderTime <= to.timestamp) {
+        return this.interpolate(this.snapshots[i - 1], to, renderTime);
+      }
+    }
+
+    // Out of snapshots: keep moving the way the player was going for a while
+    const last = this.snapshots[this.snapshots.length - 1];
+    const beforeLast = this.snapshots[this.snapshots.length - 2];
+    const extrapolateTo =
+      last.timestamp +
+      Math.min(renderTime - last.timestamp, this.maxExtrapolation);
+    return this.interpolate(beforeLast, last, extrapolateTo);
+  }
+
+  /**
+   * Forget all snapshots, e.g. when a player teleports
+   */
+  public clear(): void {
+    this.snapshots = [];
+  }
+
+  /**
+   * Track the offset between the sender's clock and ours. The smallest offset
+   * seen belongs to the least delayed packet, so jump down to it at once but
+   * only drift up slowly in case the clocks themselves drift apart.
+   */
+  private updateClockOffset(offset: number): void {
+    if (this.clockOffset === null || offset < this.clockOffset) {
+      this.clockOffset = offset;
+    } else {
+      this.clockOffset += (offset - this.clockOffset) * 0.01;
+    }
+  }
+
+  /**
+   * Drop snapshots that are fully in the past, keeping the one just before
+   * the render time to interpolate from
+   */
+  private prune(renderTime: number): void {
+    while (
+      this.snapshots.length > 2 &&
+      this.snapshots[1].timestamp <= renderTime
+    ) {
+      this.snapshots.shift();
+    }
+  }
+
+  private interpolate(
+    from: Snapshot,
+    to: Snapshot,
+    time: number
+  ): SnapshotSample {
+    const span = to.timestamp - from.timestamp;
+    const t = span > 0 ? (time - from.timestamp) / span : 1;
+
+    // Take the short way round when the angle wraps
+    let rotationDelta = to.rotation - from.rotation;
+    rotationDelta = Math.atan2(
+      Math.sin(rotationDelta),
+      Math.cos(rotationDelta)
+    );
+
+    return {
+      position: from.position.clone().lerp(to.position, t),
+      rotation: from.rotation + rotationDelta * t,
+    };
+  }
+}
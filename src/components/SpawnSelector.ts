@@ -0,0 +1,67 @@
+import * as THREE from "three";
+import { MapLayout } from "../environment/MapLayout";
+import { pickSpawnPoint } from "../environment/spawnPoints";
+import type { SpawnPoint } from "../environment/spawnPoints";
+import type { TeamId } from "../events/types";
+import { PositionUtils } from "../utils/PositionUtils";
+import type { LineOfSightChecker } from "./Nameplates";
+
+/**
+ * Room (units) a spawn point needs around it, clear of obstacles
+ */
+const SPAWN_CLEARANCE = 1;
+
+/**
+ * Height of a player's eyes above their position, for line of sight
+ */
+const EYE_HEIGHT = 0.8;
+
+/**
+ * Finds the positions of the players the local player should keep away
+ * from when spawning
+ */
+export type EnemyLocator = () => THREE.Vector3[];
+
+/**
+ * Picks where the local player comes back to life: the safest of the
+ * map's spawn points for their team, away from enemies and out of their
+ * sight
+ */
+export class SpawnSelector {
+  private lineOfSight: LineOfSightChecker;
+  private locateEnemies: EnemyLocator;
+  private from = new THREE.Vector3();
+  private to = new THREE.Vector3();
+
+  constructor(lineOfSight: LineOfSightChecker, locateEnemies: EnemyLocator) {
+    this.lineOfSight = lineOfSight;
+    this.locateEnemies = locateEnemies;
+  }
+
+  /**
+   * The best spawn point for a team, or the free-for-all ones without one
+   */
+  public pick(team: TeamId | null): SpawnPoint {
+    const points = MapLayout.SPAWN_POINTS.filter(
+      (point) => (point.team ?? null) === team
+    );
+
+    // Skip spawns something was placed on, unless that leaves none
+    const clear = points.filter((point) =>
+      PositionUtils.isPositionClear(
+        new THREE.Vector3(point.position.x, 0, point.position.z),
+        SPAWN_CLEARANCE
+      )
+    );
+
+    return pickSpawnPoint(
+      clear.length > 0 ? clear : points,
+      this.locateEnemies(),
+      (enemy, spawn) => {
+        this.from.set(enemy.x, enemy.y + EYE_HEIGHT, enemy.z);
+        this.to.set(spawn.x, spawn.y + EYE_HEIGHT, spawn.z);
+        return !this.lineOfSight.isLineOfSightBlocked(this.from, this.to);
+      }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import type * as THREE from "three";
+
+/**
+ * How fast (radians per ms) the shimmer pulses
+ */
+const PULSE_SPEED = 0.012;
+
+/**
+ * Makes spawn-protected players shimmer: their mesh pulses with a white
+ * glow and flickers see-through until the protection ends
+ */
+export class SpawnShimmer {
+  private endsAt: Map<THREE.Mesh, number> = new Map(); // performance.now()
+
+  /**
+   * Start shimmering a player's mesh for a while
+   */
+  public start(mesh: THREE.Mesh, durationMs: number): void {
+    this.endsAt.set(mesh, performance.now() + durationMs);
+  }
+
+  /**
+   * Stop shimmering a mesh early and restore its look
+   */
+  public stop(mesh: THREE.Mesh): void {
+    if (!this.endsAt.delete(mesh)) return;
+
+    const material = mesh.material as THREE.MeshStandardMaterial;
+    material.emissive.setRGB(0, 0, 0);
+    material.opacity = 1;
+    material.transparent = false;
+  }
+
+  public isShimmering(mesh: THREE.Mesh): boolean {
+    return this.endsAt.has(mesh);
+  }
+
+  /**
+   * Pulse every shimmering mesh, and stop those whose time is up
+   */
+  public update(now = performance.now()): void {
+    const pulse = (Math.sin(now * PULSE_SPEED) + 1) / 2;
+
+    for (const [mesh, endsAt] of this.endsAt) {
+      if (now >= endsAt) {
+        this.stop(mesh);
+        continue;
+      }
+
+      const material = mesh.material as THREE.MeshStandardMaterial;
+      material.emissive.setScalar(0.2 + pulse * 0.3);
+      material.transparent = true;
+      material.opacity = 0.55 + pulse * 0.35;
+    }
+  }
+}
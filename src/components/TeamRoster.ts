@@ -0,0 +1,105 @@
+import { LobbyClient } from "../api/lobby";
+import { DEFAULT_FRIENDLY_FIRE, GAME_EVENTS, TEAMS } from "../events/constants";
+import { EventListener } from "../events/eventListener";
+import type { FriendlyFire, MatchPlayer, TeamId } from "../events/types";
+
+type RosterListener = (roster: TeamRoster) => void;
+
+/**
+ * Who is on which team in the current match, as the server's match state
+ * says. Empty in free-for-all modes and outside matches.
+ */
+export class TeamRoster {
+  private static instance: TeamRoster;
+  private teams: Map<string, TeamId> = new Map(); // User id to team
+  private listeners: RosterListener[] = [];
+
+  private constructor() {
+    const events = EventListener.getInstance();
+    events.on(GAME_EVENTS.MATCH.STATE, ({ players }) => this.setTeams(players));
+
+    // Teams don't carry over between matches
+    events.on(GAME_EVENTS.USER.WELCOME, () => this.setTeams([]));
+  }
+
+  public static getInstance(): TeamRoster {
+    if (!TeamRoster.instance) {
+      TeamRoster.instance = new TeamRoster();
+    }
+    return TeamRoster.instance;
+  }
+
+  /**
+   * Be told whenever anyone's team changes
+   */
+  public onChange(listener: RosterListener): void {
+    this.listeners.push(listener);
+  }
+
+  public getTeam(userId: string | null): TeamId | null {
+    return userId ? (this.teams.get(userId) ?? null) : null;
+  }
+
+  public getLocalTeam(): TeamId | null {
+    return this.getTeam(LobbyClient.getInstance().getState().userId);
+  }
+
+  /**
+   * The color of a player's team, if they are on one
+   */
+  public getTeamColor(userId: string | null): string | null {
+    const team = this.getTeam(userId);
+    return team ? TEAMS[team].color : null;
+  }
+
+  /**
+   * Whether a player is on the local player's team
+   */
+  public isTeammate(userId: string): boolean {
+    return this.areTeammates(
+      LobbyClient.getInstance().getState().userId,
+      userId
+    );
+  }
+
+  public areTeammates(a: string | null, b: string | null): boolean {
+    const team = this.getTeam(a);
+    return team !== null && a !== b && team === this.getTeam(b);
+  }
+
+  /**
+   * Whether a shot from one player can hurt another, under the friendly
+   * fire rule of our room
+   */
+  public canDamage(sourceId: string | null, targetId: string | null): boolean {
+    return (
+      !this.areTeammates(sourceId, targetId) || this.getFriendlyFire() !== "off"
+    );
+  }
+
+  public getFriendlyFire(): FriendlyFire {
+    return (
+      LobbyClient.getInstance().getState().room?.friendlyFire ??
+      DEFAULT_FRIENDLY_FIRE
+    );
+  }
+
+  private setTeams(players: MatchPlayer[]): void {
+    const teams = new Map<string, TeamId>();
+    for (const { userId, team } of players) {
+      if (team) teams.set(userId, team);
+    }
+
+    const changed =
+      teams.size !== this.teams.size ||
+      Array.from(teams).some(
+        ([userId, team]) => this.teams.get(userId) !== team
+      );
+    if (!changed) return;
+
+    this.teams = teams;
+    for (const listener of this.listeners) {
+      listener(this);
+    }
+  }
+}
@@ -3,7 +3,8 @@ import type { CollisionSystem } from "./CollisionSystem";
 
 export class Tree {
   private treeMesh: THREE.Group;
-  private collisionBox: THREE.Box3;
+  private trunk!: THREE.Mesh;
+  private canopy = new THREE.Group();
 
   constructor(
     position: THREE.Vector3,
@@ -24,9 +25,7 @@ export class Tree {
 
     // Add to scene
     this.scene.add(this.treeMesh);
-
-    // Create collision box
-    this.collisionBox = new THREE.Box3().setFromObject(this.treeMesh);
+    this.treeMesh.updateMatrixWorld(true);
 
     // Add to collision system if provided
     if (this.collisionSystem) {
@@ -47,11 +46,12 @@ export class Tree {
       roughness: 0.8,
       metalness: 0.2,
     });
-    const trunk = new THREE.Mesh(trunkGeometry, trunkMaterial);
-    trunk.castShadow = true;
-    trunk.receiveShadow = true;
-    trunk.position.y = 0.75 * scale;
-    this.treeMesh.add(trunk);
+    this.trunk = new THREE.Mesh(trunkGeometry, trunkMaterial);
+    this.trunk.castShadow = true;
+    this.trunk.receiveShadow = true;
+    this.trunk.position.y = 0.75 * scale;
+    this.treeMesh.add(this.trunk);
+    this.treeMesh.add(this.canopy);
 
     // Create foliage (cone shapes)
     const foliageGeometry = new THREE.ConeGeometry(1 * scale, 2 * scale, 8);
@@ -66,7 +66,7 @@ export class Tree {
     foliage1.castShadow = true;
     foliage1.receiveShadow = true;
     foliage1.position.y = 1.5 * scale;
-    this.treeMesh.add(foliage1);
+    this.canopy.add(foliage1);
 
     // Middle foliage (slightly smaller)
     const foliage2 = new THREE.Mesh(foliageGeometry, foliageMaterial);
@@ -74,7 +74,7 @@ export class Tree {
     foliage2.receiveShadow = true;
     foliage2.position.y = 2.5 * scale;
     foliage2.scale.set(0.8, 0.8, 0.8);
-    this.treeMesh.add(foliage2);
+    this.canopy.add(foliage2);
 
     // Top foliage (smallest)
     const foliage3 = new THREE.Mesh(foliageGeometry, foliageMaterial);
@@ -82,11 +82,19 @@ export class Tree {
     foliage3.receiveShadow = true;
     foliage3.position.y = 3.3 * scale;
     foliage3.scale.set(0.6, 0.6, 0.6);
-    this.treeMesh.add(foliage3);
+    this.canopy.add(foliage3);
   }
 
   private addToCollisionSystem(): void {
-    this.collisionSystem?.addCustomObstacle(this.collisionBox);
+    // Bullets pass through the leaves but stop at the trunk inside them
+    this.collisionSystem?.addCustomObstacle(
+      new THREE.Box3().setFromObject(this.canopy),
+      "foliage"
+    );
+    this.collisionSystem?.addCustomObstacle(
+      new THREE.Box3().setFromObject(this.trunk),
+      "timber"
+    );
   }
 
   public getPosition(): THREE.Vector3 {
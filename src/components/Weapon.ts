@@ -1,26 +1,113 @@
 import * as THREE from "three";
 import { Bullet } from "./Bullet";
+import { DecalManager } from "./DecalManager";
 import type { CollisionDetector } from "./CollisionInterface";
 import { WeaponPickup } from "./WeaponPickup";
 import type { PickupManager } from "./PickupManager";
 import { NetworkedEntity } from "../events/networkedEntity";
-import type { WeaponEvent } from "../events/types";
 import { GAME_EVENTS } from "../events/constants";
+import type { Loadout } from "../events/types";
+import { fitAttachments, getLoadoutWeapons } from "../weapons/loadouts";
+import type { FittedWeaponDefinition } from "../weapons/loadouts";
+import {
+  DEFAULT_LOADOUT,
+  getWeaponDefinition,
+} from "../weapons/weaponDefinitions";
+import type {
+  DamageFalloff,
+  FireMode,
+  WeaponBurstDefinition,
+  WeaponModelDefinition,
+  WeaponRecoilDefinition,
+  WeaponScopeDefinition,
+} from "../weapons/weaponDefinitions";
+import { KNIFE, MELEE_SLOT } from "../weapons/melee";
+import { SURFACE_MATERIALS } from "../weapons/surfaceMaterials";
+import type { SurfaceMaterial } from "../weapons/surfaceMaterials";
 
 // Define the Weapon interface
 export interface Weapon {
   name: string;
+  attachments: string[]; // Ids of the attachments fitted to it
   model: THREE.Group;
   bulletsInMagazine: number;
   totalBullets: number;
   maxMagazineSize: number;
   fireRate: number;
+  fireMode: FireMode;
+  burst: WeaponBurstDefinition | null;
+  recoil: WeaponRecoilDefinition;
   isReloading: boolean;
   reloadTime: number;
   reloadStartTime: number;
   lastShotTime: number;
+  damage: number;
+  falloff: DamageFalloff;
+  spread: number; // Degrees shots stray either side of the aim, at rest
+  pellets: number;
+  bulletSpeed: number;
+  range: number;
+  scope: WeaponScopeDefinition | null;
+  concealsFlash: boolean;
 }
 
+/**
+ * How many weapons a player carries: their loadout, and what they pick up
+ */
+export const INVENTORY_SIZE = 4;
+
+/**
+ * The knife's model: a blade ahead of a guard and a handle
+ */
+const KNIFE_MODEL: WeaponModelDefinition = {
+  muzzle: 0.45,
+  parts: [
+    {
+      shape: "box",
+      size: [0.03, 0.08, 0.4],
+      position: [0, 0, -0.25],
+      color: "#c8c8c8",
+    },
+    {
+      shape: "box",
+      size: [0.16, 0.04, 0.04],
+      position: [0, 0, -0.04],
+      color: "#555555",
+    },
+    {
+      shape: "box",
+      size: [0.06, 0.08, 0.22],
+      position: [0, 0, 0.08],
+      color: "#3b2a1a",
+    },
+  ],
+};
+
+/**
+ * How far the gun models tilt to the side (radians)
+ */
+const MODEL_TILT = Math.PI / 12;
+
+/**
+ * How the spread of shots changes (degrees): wider while moving, narrower
+ * while crouched. Firing blooms it by the weapon's recoil.
+ */
+const SPREAD = {
+  moving: 2, // Added while moving
+  crouchScale: 0.5,
+};
+
+/**
+ * Recoil of things that don't shoot, which still lets the last gun's
+ * recoil settle
+ */
+const NO_RECOIL: WeaponRecoilDefinition = {
+  pattern: [],
+  bloom: 0,
+  maxBloom: 0,
+  recovery: 8,
+};
+
 // Enum for weapon types
 export enum WeaponType {
   PISTOL = "pistol",
@@ -46,7 +133,33 @@ export class WeaponSystem extends NetworkedEntity {
   private scene: THREE.Scene;
   private player: THREE.Mesh;
   private bullets: Bullet[] = [];
+
+  // The knife, carried in a slot of its own and never dropped
+  private knife: Weapon;
+  private holdingKnife = false;
+  private swingStartedAt = -Infinity; // performance.now()
+
   private gunOffset = new THREE.Vector3(0.7, -0.1, -0.3);
+
+  // Spread of shots, on top of the weapon's own
+  private bloom = 0;
+  private moving = false;
+  private crouching = false;
+
+  // Recoil: how far (degrees) the aim is kicked, and how far into the
+  // weapon's pattern the current spray is
+  private kick = 0;
+  private sprayShots = 0;
+
+  // The trigger, and the shots fired since it was last pulled
+  private triggerHeld = false;
+  private shotsThisPull = 0;
+
+  // Aiming down the scope, and the laser sight others see meanwhile
+  private aiming = false;
+  private scoped = false;
+  private laser: THREE.Line<THREE.BufferGeometry, THREE.LineBasicMaterial>;
+
   private pickupManager: PickupManager | null = null;
 
   // Add muzzle flash properties
@@ -65,8 +178,24 @@ export class WeaponSystem extends NetworkedEntity {
     this.player = player;
     this.pickupManager = pickupManager || null;
 
+    this.laser = new THREE.Line(
+      new THREE.BufferGeometry().setFromPoints([
+        new THREE.Vector3(),
+        new THREE.Vector3(),
+      ]),
+      new THREE.LineBasicMaterial({
+        color: 0xff2020,
+        transparent: true,
+        opacity: 0.6,
+      })
+    );
+    this.laser.visible = false;
+    this.laser.frustumCulled = false;
+    this.scene.add(this.laser);
+
     // Initialize weapons
-    this.initializeWeapons();
+    this.knife = this.createKnife();
+    this.initializeWeapons(DEFAULT_LOADOUT);
 
     // Initialize impact animations array
     if (!window.__impactAnimations) {
@@ -75,199 +204,149 @@ export class WeaponSystem extends NetworkedEntity {
   }
 
   // Initialize available weapons
-  private initializeWeapons() {
-    // Create first weapon (pistol)
-    const pistol = {
-      name: "Pistol",
-      model: this.createPistol(),
-      bulletsInMagazine: 12,
-      totalBullets: 120,
-      maxMagazineSize: 12,
-      fireRate: 0.4, // Slower fire rate than rifle
-      isReloading: false,
-      reloadTime: 1.2,
-      reloadStartTime: 0,
-      lastShotTime: 0,
-    };
+  private initializeWeapons(loadout: Loadout) {
+    for (const definition of getLoadoutWeapons(loadout)) {
+      this.weapons.push(this.createWeapon(definition));
+    }
 
-    // Create second weapon (rifle)
-    const rifle = {
-      name: "Assault Rifle",
-      model: this.createRifle(),
-      bulletsInMagazine: 30,
-      totalBullets: 150,
-      maxMagazineSize: 30,
-      fireRate: 0.1, // Faster fire rate
+    // Initially set first weapon and add to scene
+    this.scene.add(this.getCurrentWeapon().model);
+  }
+
+  /**
+   * Carry a loadout instead of whatever was carried, fully loaded, with the
+   * primary in hand. Nothing is reported: everyone learns the loadout of
+   * a new life from the server.
+   */
+  public equip(loadout: Loadout): void {
+    this.scene.remove(this.getCurrentWeapon().model);
+    this.weapons.length = 0;
+    this.currentWeaponIndex = 0;
+    this.holdingKnife = false;
+    this.shotsThisPull = 0;
+    this.kick = 0;
+    this.bloom = 0;
+    this.sprayShots = 0;
+
+    this.initializeWeapons(loadout);
+    this.updateWeaponPosition(false);
+    this.updateScope();
+  }
+
+  /**
+   * A fully loaded weapon as weapons.json defines it, with its attachments
+   */
+  private createWeapon(definition: FittedWeaponDefinition): Weapon {
+    return {
+      name: definition.name,
+      attachments: definition.fitted,
+      model: this.createModel(definition.model),
+      bulletsInMagazine: definition.magazineSize,
+      totalBullets: definition.startingAmmo,
+      maxMagazineSize: definition.magazineSize,
+      fireRate: definition.fireRate,
+      fireMode: definition.fireMode,
+      burst: definition.burst ?? null,
+      recoil: definition.recoil,
       isReloading: false,
-      reloadTime: 2.0,
+      reloadTime: definition.reloadTime,
       reloadStartTime: 0,
       lastShotTime: 0,
+      damage: definition.damage,
+      falloff: { ...definition.falloff },
+      spread: definition.spread,
+      pellets: definition.pellets,
+      bulletSpeed: definition.bulletSpeed,
+      range: definition.range,
+      scope: definition.scope ?? null,
+      concealsFlash: definition.concealsFlash,
     };
+  }
 
-    // Create third weapon (shotgun)
-    const shotgun = {
-      name: "Shotgun",
-      model: this.createShotgun(),
-      bulletsInMagazine: 6,
-      totalBullets: 30,
-      maxMagazineSize: 6,
-      fireRate: 0.8, // Slowest fire rate
+  /**
+   * The knife, which needs no ammo
+   */
+  private createKnife(): Weapon {
+    return {
+      name: KNIFE.name,
+      attachments: [],
+      model: this.createModel(KNIFE_MODEL),
+      bulletsInMagazine: 0,
+      totalBullets: 0,
+      maxMagazineSize: 0,
+      fireRate: KNIFE.swingInterval,
+      fireMode: "semi",
+      burst: null,
+      recoil: NO_RECOIL,
       isReloading: false,
-      reloadTime: 0.5, // Per shell reload
+      reloadTime: 0,
       reloadStartTime: 0,
       lastShotTime: 0,
+      damage: KNIFE.damage,
+      falloff: { start: Infinity, end: Infinity, minDamage: KNIFE.damage },
+      spread: 0,
+      pellets: 0,
+      bulletSpeed: 0,
+      range: KNIFE.range,
+      scope: null,
+      concealsFlash: false,
     };
-
-    // Add weapons to the inventory
-    this.weapons.push(pistol, rifle, shotgun);
-
-    // Initially set first weapon and add to scene
-    this.scene.add(this.getCurrentWeapon().model);
   }
 
-  // Create pistol model
-  private createPistol(): THREE.Group {
+  /**
+   * Build a weapon model from its parts. The muzzle offset is kept in the
+   * model's userData for aiming.
+   */
+  private createModel(definition: WeaponModelDefinition): THREE.Group {
     const gunGroup = new THREE.Group();
 
-    // Create gun barrel (shorter than rifle)
-    const barrelGeometry = new THREE.CylinderGeometry(0.04, 0.04, 0.5, 8);
-    const barrelMaterial = new THREE.MeshStandardMaterial({ color: 0x333333 });
-    const barrel = new THREE.Mesh(barrelGeometry, barrelMaterial);
-    barrel.rotation.x = Math.PI / 2;
-    barrel.position.z = -0.3;
-
-    // Create gun body (smaller than rifle)
-    const bodyGeometry = new THREE.BoxGeometry(0.15, 0.15, 0.4);
-    const bodyMaterial = new THREE.MeshStandardMaterial({ color: 0x666666 });
-    const body = new THREE.Mesh(bodyGeometry, bodyMaterial);
-    body.position.z = 0;
-
-    // Create gun handle
-    const handleGeometry = new THREE.BoxGeometry(0.12, 0.35, 0.15);
-    const handleMaterial = new THREE.MeshStandardMaterial({ color: 0x444444 });
-    const handle = new THREE.Mesh(handleGeometry, handleMaterial);
-    handle.position.y = -0.25;
-    handle.position.z = 0.1;
-
-    // Add all parts to the gun group
-    gunGroup.add(barrel);
-    gunGroup.add(body);
-    gunGroup.add(handle);
-
-    // Add cast shadow for all parts
-    barrel.castShadow = true;
-    body.castShadow = true;
-    handle.castShadow = true;
-
-    // Rotate the entire gun group
-    gunGroup.rotation.z = Math.PI / 12;
-
-    return gunGroup;
-  }
-
-  // Create rifle model (larger than pistol)
-  private createRifle(): THREE.Group {
-    const gunGroup = new THREE.Group();
+    for (const part of definition.parts) {
+      const geometry =
+        part.shape === "box"
+          ? new THREE.BoxGeometry(...part.size)
+          : new THREE.CylinderGeometry(
+              part.radius,
+              part.radius,
+              part.length,
+              8
+            );
+      const material = new THREE.MeshStandardMaterial({ color: part.color });
+      const mesh = new THREE.Mesh(geometry, material);
+      mesh.position.set(...part.position);
+
+      if (part.rotation) {
+        const [x, y, z] = part.rotation.map(THREE.MathUtils.degToRad);
+        mesh.rotation.set(x, y, z);
+      }
+      // Cylinders lie along the gun, like barrels
+      if (part.shape === "cylinder") {
+        mesh.rotation.x += Math.PI / 2;
+      }
 
-    // Create gun barrel (longer than pistol)
-    const barrelGeometry = new THREE.CylinderGeometry(0.05, 0.05, 1.0, 8);
-    const barrelMaterial = new THREE.MeshStandardMaterial({ color: 0x333333 });
-    const barrel = new THREE.Mesh(barrelGeometry, barrelMaterial);
-    barrel.rotation.x = Math.PI / 2;
-    barrel.position.z = -0.5;
-
-    // Create gun body
-    const bodyGeometry = new THREE.BoxGeometry(0.2, 0.2, 0.8);
-    const bodyMaterial = new THREE.MeshStandardMaterial({ color: 0x666666 });
-    const body = new THREE.Mesh(bodyGeometry, bodyMaterial);
-    body.position.z = 0;
-
-    // Create stock (extends behind body)
-    const stockGeometry = new THREE.BoxGeometry(0.15, 0.25, 0.4);
-    const stockMaterial = new THREE.MeshStandardMaterial({ color: 0x8b4513 });
-    const stock = new THREE.Mesh(stockGeometry, stockMaterial);
-    stock.position.z = 0.6;
-    stock.position.y = -0.1;
-
-    // Create gun handle
-    const handleGeometry = new THREE.BoxGeometry(0.15, 0.4, 0.15);
-    const handleMaterial = new THREE.MeshStandardMaterial({ color: 0x444444 });
-    const handle = new THREE.Mesh(handleGeometry, handleMaterial);
-    handle.position.y = -0.3;
-    handle.position.z = 0.15;
-
-    // Add a sight/scope
-    const sightGeometry = new THREE.BoxGeometry(0.05, 0.05, 0.2);
-    const sightMaterial = new THREE.MeshStandardMaterial({ color: 0x222222 });
-    const sight = new THREE.Mesh(sightGeometry, sightMaterial);
-    sight.position.y = 0.15;
-    sight.position.z = -0.1;
-
-    // Add all parts to the gun group
-    gunGroup.add(barrel);
-    gunGroup.add(body);
-    gunGroup.add(stock);
-    gunGroup.add(handle);
-    gunGroup.add(sight);
-
-    // Add cast shadow for all parts
-    barrel.castShadow = true;
-    body.castShadow = true;
-    stock.castShadow = true;
-    handle.castShadow = true;
-    sight.castShadow = true;
+      mesh.castShadow = true;
+      gunGroup.add(mesh);
+    }
 
     // Rotate the entire gun group
-    gunGroup.rotation.z = Math.PI / 12;
+    gunGroup.rotation.z = MODEL_TILT;
+    gunGroup.userData.muzzle = definition.muzzle;
 
     return gunGroup;
   }
 
-  // Create shotgun model
-  private createShotgun(): THREE.Group {
-    const gunGroup = new THREE.Group();
-
-    // Create gun barrel (wider than rifle)
-    const barrelGeometry = new THREE.CylinderGeometry(0.08, 0.08, 0.8, 8);
-    const barrelMaterial = new THREE.MeshStandardMaterial({ color: 0x444444 });
-    const barrel = new THREE.Mesh(barrelGeometry, barrelMaterial);
-    barrel.rotation.x = Math.PI / 2;
-    barrel.position.z = -0.4;
-
-    // Create second barrel below first (double-barrel shotgun)
-    const barrel2 = barrel.clone();
-    barrel2.position.y = -0.1;
-
-    // Create gun body
-    const bodyGeometry = new THREE.BoxGeometry(0.25, 0.25, 0.7);
-    const bodyMaterial = new THREE.MeshStandardMaterial({ color: 0x8b4513 });
-    const body = new THREE.Mesh(bodyGeometry, bodyMaterial);
-    body.position.z = 0.2;
-
-    // Create gun handle
-    const handleGeometry = new THREE.BoxGeometry(0.15, 0.35, 0.2);
-    const handleMaterial = new THREE.MeshStandardMaterial({ color: 0x8b4513 });
-    const handle = new THREE.Mesh(handleGeometry, handleMaterial);
-    handle.position.y = -0.25;
-    handle.position.z = 0.45;
-    handle.rotation.x = Math.PI / 6;
-
-    // Add all parts to the gun group
-    gunGroup.add(barrel);
-    gunGroup.add(barrel2);
-    gunGroup.add(body);
-    gunGroup.add(handle);
-
-    // Add cast shadow for all parts
-    barrel.castShadow = true;
-    barrel2.castShadow = true;
-    body.castShadow = true;
-    handle.castShadow = true;
-
-    // Rotate the entire gun group
-    gunGroup.rotation.z = Math.PI / 12;
-
-    return gunGroup;
+  /**
+   * Build the model of a weapon by its name, with its attachments
+   */
+  private createModelFor(weapon: Weapon): THREE.Group {
+    const definition = getWeaponDefinition(weapon.name);
+    if (!definition) {
+      // If we don't recognize the weapon type, create a default model
+      console.warn(`Unknown weapon type: ${weapon.name}`);
+      return new THREE.Group();
+    }
+    return this.createModel(
+      fitAttachments(definition, weapon.attachments).model
+    );
   }
 
   // Update weapon position based on player state
@@ -304,12 +383,89 @@ export class WeaponSystem extends NetworkedEntity {
     // Update gun position
     currentWeapon.model.position.copy(gunPosition);
 
-    // Update gun rotation to match player rotation
-    currentWeapon.model.rotation.y = this.player.rotation.y;
+    // Update gun rotation to match player rotation, kicked by recoil
+    currentWeapon.model.rotation.y =
+      this.player.rotation.y + THREE.MathUtils.degToRad(this.kick);
+
+    if (this.holdingKnife) {
+      this.animateSwing(forward);
+    }
+
+    this.updateLaser();
+  }
+
+  /**
+   * Slash the knife across in front of the player while a swing lasts
+   */
+  private animateSwing(forward: THREE.Vector3): void {
+    const progress =
+      (performance.now() - this.swingStartedAt) / (KNIFE.swingSeconds * 1000);
+    if (progress < 0 || progress >= 1) return;
+
+    const { model } = this.knife;
+    model.rotation.y += (0.5 - progress) * Math.PI * 0.8;
+    model.position.addScaledVector(forward, Math.sin(progress * Math.PI) * 0.5);
+  }
+
+  /**
+   * Start or stop aiming down the scope. Only weapons with a scope aim
+   * down it, and not while reloading.
+   */
+  public setAiming(aiming: boolean): void {
+    this.aiming = aiming;
+    this.updateScope();
+  }
+
+  public isScoped(): boolean {
+    return this.scoped;
+  }
+
+  /**
+   * The scope being aimed down, or null when not scoped
+   */
+  public getActiveScope(): WeaponScopeDefinition | null {
+    return this.scoped ? this.getCurrentWeapon().scope : null;
+  }
+
+  /**
+   * Work out whether the current weapon is scoped, which changes as the
+   * player switches weapons and reloads, and tell the others when it does
+   */
+  private updateScope(): void {
+    const weapon = this.getCurrentWeapon();
+    const scoped = this.aiming && weapon.scope !== null && !weapon.isReloading;
+    if (scoped === this.scoped) return;
+
+    this.scoped = scoped;
+    this.emit(GAME_EVENTS.WEAPON.AIM, {
+      weaponType: weapon.name,
+      action: "aim",
+      data: { aiming: scoped },
+    });
+  }
+
+  /**
+   * Run the laser sight from the barrel along the aim while scoped
+   */
+  private updateLaser(): void {
+    this.laser.visible = this.scoped;
+    if (!this.scoped) return;
+
+    this.getCurrentWeapon().model.updateMatrixWorld();
+    const ray = this.getAimRay();
+    const end = ray.at(this.getRange(), new THREE.Vector3());
+    const positions = this.laser.geometry.getAttribute("position");
+    positions.setXYZ(0, ray.origin.x, ray.origin.y, ray.origin.z);
+    positions.setXYZ(1, end.x, end.y, end.z);
+    positions.needsUpdate = true;
   }
 
-  // Method to create and shoot a bullet
-  public shoot(scene: THREE.Scene): Bullet | null {
+  // Method to create and shoot a bullet. Player hits are resolved right away
+  // through the collision detector; the bullet itself is only visual.
+  public shoot(
+    scene: THREE.Scene,
+    collisionDetector?: CollisionDetector
+  ): Bullet | null {
     const currentTime = performance.now() / 1000;
     const currentWeapon = this.getCurrentWeapon();
 
@@ -323,42 +479,49 @@ export class WeaponSystem extends NetworkedEntity {
       return null;
     }
 
-    // Don't shoot if reloading
+    // A new burst waits for the last one to settle
+    const { burst } = currentWeapon;
+    if (
+      burst &&
+      this.shotsThisPull === 0 &&
+      currentTime - currentWeapon.lastShotTime < burst.delay
+    ) {
+      return null;
+    }
+
+    // Don't shoot if reloading, and end any burst cut short by it
     if (currentWeapon.isReloading) {
+      this.shotsThisPull = 0;
       return null;
     }
 
     // Check if we have bullets in the magazine
     if (currentWeapon.bulletsInMagazine <= 0) {
-      // Don't auto-reload anymore, just return
+      // Don't auto-reload anymore, just return. The burst ends here too,
+      // rather than carrying on by itself after the reload.
+      this.shotsThisPull = 0;
       return null;
     }
 
     // Update last shot time
     currentWeapon.lastShotTime = currentTime;
+    this.shotsThisPull++;
 
     // Decrease bullets in magazine
     currentWeapon.bulletsInMagazine--;
 
-    // Get gun barrel position (front of the gun)
-    const barrelPosition = new THREE.Vector3();
-    // Get world position of the gun
-    currentWeapon.model.getWorldPosition(barrelPosition);
+    const { origin: barrelPosition, direction } = this.getAimRay();
 
-    // Offset to the barrel tip
-    const barrelTip = new THREE.Vector3(0, 0, -0.6); // Adjust based on your gun model
-    barrelTip.applyQuaternion(currentWeapon.model.quaternion);
-    barrelPosition.add(barrelTip);
-
-    // Get direction based on player rotation
-    const direction = new THREE.Vector3(0, 0, -1);
-    direction.applyQuaternion(this.player.quaternion);
+    // Scatter the pellets, then kick the aim and bloom the spread for the
+    // next shot
+    const pelletDirections = this.getPelletDirections(direction);
+    this.applyRecoil(currentWeapon.recoil);
 
     // Create the bullet
-    const bullet = this.createBullet(scene, barrelPosition, direction);
+    const bullet = this.createBullet(scene, barrelPosition, pelletDirections);
 
     // Emit weapon event for network synchronization
-    this.emit<WeaponEvent>(GAME_EVENTS.WEAPON.SHOOT, {
+    this.emit(GAME_EVENTS.WEAPON.SHOOT, {
       weaponType: currentWeapon.name,
       action: "shoot",
       data: {
@@ -377,9 +540,66 @@ export class WeaponSystem extends NetworkedEntity {
       },
     });
 
+    // Resolve hits after the shot event, so the server sees the shot first
+    if (collisionDetector?.resolveHitscan) {
+      for (const pelletDirection of pelletDirections) {
+        collisionDetector.resolveHitscan(
+          barrelPosition,
+          pelletDirection,
+          currentWeapon.range,
+          this.player,
+          currentWeapon.name
+        );
+      }
+    }
+
     return bullet;
   }
 
+  /**
+   * Swing the knife at whatever is in reach in front of the player. Crates
+   * there take the blow, and the player it strikes is sent to the server
+   * with the swing.
+   * @returns True if the knife was swung
+   */
+  public swing(collisionDetector?: CollisionDetector): boolean {
+    if (!this.holdingKnife) return false;
+
+    const currentTime = performance.now() / 1000;
+    if (currentTime - this.knife.lastShotTime < this.knife.fireRate) {
+      return false;
+    }
+    this.knife.lastShotTime = currentTime;
+    this.swingStartedAt = performance.now();
+
+    const origin = this.player.position.clone();
+    const { direction } = this.getAimRay();
+    const targetId =
+      collisionDetector?.resolveMelee?.(origin, direction, this.player) ?? null;
+
+    this.emit(GAME_EVENTS.COMBAT.MELEE, {
+      targetId,
+      position: { x: origin.x, y: origin.y, z: origin.z },
+      direction: { x: direction.x, y: direction.y, z: direction.z },
+    });
+    return true;
+  }
+
+  /**
+   * Show a remote player's knife swing, which breaks crates in reach here
+   * too. Whoever it struck hears so from the server.
+   */
+  public swingRemote(
+    position: THREE.Vector3,
+    direction: THREE.Vector3,
+    collisionDetector?: CollisionDetector
+  ): void {
+    this.switchToWeapon(MELEE_SLOT);
+    this.knife.lastShotTime = performance.now() / 1000;
+    this.swingStartedAt = performance.now();
+    collisionDetector?.resolveMelee?.(position, direction, this.player);
+  }
+
   // Method to create a bullet for remote players
   public shootRemote(
     scene: THREE.Scene,
@@ -393,56 +613,130 @@ export class WeaponSystem extends NetworkedEntity {
     currentWeapon.lastShotTime = currentTime;
 
     // Create the bullet
-    return this.createBullet(scene, position, direction);
+    return this.createBullet(
+      scene,
+      position,
+      this.getPelletDirections(direction)
+    );
   }
 
-  // Helper method to create a bullet with given position and direction
+  // Helper method to create a shot's bullets with given position and directions
   private createBullet(
     scene: THREE.Scene,
     position: THREE.Vector3,
-    direction: THREE.Vector3
+    directions: THREE.Vector3[]
   ): Bullet | null {
-    const currentWeapon = this.getCurrentWeapon();
+    const { bulletSpeed, range, damage, falloff } = this.getCurrentWeapon();
     let primaryBullet: Bullet | null = null;
 
+    for (const pelletDirection of directions) {
+      const bullet = new Bullet(position.clone(), pelletDirection, scene, {
+        speed: bulletSpeed,
+        lifespan: range / bulletSpeed,
+        damage,
+        falloff,
+      });
+      this.bullets.push(bullet);
+      primaryBullet = primaryBullet || bullet;
+    }
+
+    // Create muzzle flash, unless a suppressor hides it
+    const [direction] = directions;
+    if (!this.getCurrentWeapon().concealsFlash) {
+      this.createMuzzleFlash(position, Math.atan2(direction.x, direction.z));
+    }
+
+    return primaryBullet;
+  }
+
+  // Directions of every bullet in a shot, each strayed at random within
+  // the current spread
+  private getPelletDirections(direction: THREE.Vector3): THREE.Vector3[] {
+    const { pellets } = this.getCurrentWeapon();
+    const spread = THREE.MathUtils.degToRad(this.getSpread());
+    const up = new THREE.Vector3(0, 1, 0);
+
     // Normalize the direction vector to ensure consistent speed
     const normalizedDirection = direction.clone().normalize();
 
-    // Check if current weapon is shotgun
-    if (currentWeapon.name === "Shotgun") {
-      // Shotgun spread - create 3 bullets with different angles
-      // Parameters for spread
-      const spreadAngle = 0.1; // Angle in radians for the spread (about 5.7 degrees)
-
-      // Create main bullet (straight ahead)
-      primaryBullet = new Bullet(
-        position.clone(),
-        normalizedDirection.clone(),
-        scene
-      );
-      this.bullets.push(primaryBullet);
-
-      // Create bullet with spread to the right
-      const rightDirection = normalizedDirection.clone();
-      rightDirection.applyAxisAngle(new THREE.Vector3(0, 1, 0), -spreadAngle);
-      const rightBullet = new Bullet(position.clone(), rightDirection, scene);
-      this.bullets.push(rightBullet);
-
-      // Create bullet with spread to the left
-      const leftDirection = normalizedDirection.clone();
-      leftDirection.applyAxisAngle(new THREE.Vector3(0, 1, 0), spreadAngle);
-      const leftBullet = new Bullet(position.clone(), leftDirection, scene);
-      this.bullets.push(leftBullet);
-    } else {
-      // For all other weapons, create a single bullet
-      primaryBullet = new Bullet(position.clone(), normalizedDirection, scene);
-      this.bullets.push(primaryBullet);
+    return Array.from({ length: Math.max(1, pellets) }, () =>
+      normalizedDirection
+        .clone()
+        .applyAxisAngle(up, (Math.random() * 2 - 1) * spread)
+    );
+  }
+
+  /**
+   * Keep track of what widens or narrows the spread, and let recoil
+   * recover. Called every frame for the local player.
+   */
+  public updateSpread(delta: number, moving: boolean, crouching: boolean) {
+    this.moving = moving;
+    this.crouching = crouching;
+
+    const recovery = this.getCurrentWeapon().recoil.recovery * delta;
+    this.bloom = Math.max(0, this.bloom - recovery);
+    this.kick -= Math.sign(this.kick) * Math.min(Math.abs(this.kick), recovery);
+
+    // Once it has settled, the next spray starts the pattern afresh
+    if (this.bloom === 0 && this.kick === 0) {
+      this.sprayShots = 0;
     }
+  }
 
-    // Create muzzle flash
-    this.createMuzzleFlash(position, Math.atan2(direction.x, direction.z));
+  /**
+   * Kick the aim by the next step of the recoil pattern and bloom the
+   * spread
+   */
+  private applyRecoil(recoil: WeaponRecoilDefinition): void {
+    const { pattern } = recoil;
+    if (pattern.length > 0) {
+      this.kick += pattern[this.sprayShots % pattern.length];
+    }
+    this.sprayShots++;
+    this.bloom = Math.min(recoil.maxBloom, this.bloom + recoil.bloom);
+  }
 
-    return primaryBullet;
+  /**
+   * Press or let go of the trigger
+   */
+  public setTriggerHeld(held: boolean): void {
+    if (held && !this.triggerHeld) {
+      this.shotsThisPull = 0;
+    }
+    this.triggerHeld = held;
+  }
+
+  /**
+   * Whether the weapon in hand wants another shot after the one fired on
+   * pulling the trigger: automatic weapons while the trigger is held, and
+   * burst weapons until their burst is done
+   */
+  public isTriggerFiring(): boolean {
+    const weapon = this.getCurrentWeapon();
+    switch (weapon.fireMode) {
+      case "auto":
+        return this.triggerHeld;
+      case "burst":
+        return (
+          this.shotsThisPull > 0 &&
+          this.shotsThisPull < (weapon.burst?.shots ?? 0)
+        );
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * How far (degrees) shots may stray either side of the aim right now
+   */
+  public getSpread(): number {
+    // Scoped weapons are only accurate down the scope
+    const weapon = this.getCurrentWeapon();
+    const base =
+      weapon.scope && !this.scoped ? weapon.scope.hipSpread : weapon.spread;
+    const spread = base + (this.moving ? SPREAD.moving : 0) + this.bloom;
+    return this.crouching ? spread * SPREAD.crouchScale : spread;
   }
 
   // Create muzzle flash effect
@@ -512,7 +806,6 @@ export class WeaponSystem extends NetworkedEntity {
 
     for (let i = this.bullets.length - 1; i >= 0; i--) {
       const bullet = this.bullets[i];
-      const position = bullet.getPosition();
 
       // Update bullet and check if it's still alive
       if (!bullet.update(delta)) {
@@ -523,17 +816,48 @@ export class WeaponSystem extends NetworkedEntity {
         continue;
       }
 
-      // Check for collision with cars if collision detector is provided
-      if (collisionDetector) {
-        if (collisionDetector.checkForBulletCollision(position)) {
-          // Create impact effect at the bullet's position
-          this.createImpactEffect(position);
+      // Check the path flown this frame if collision detector is provided.
+      // Bullets can carry on after a hit, so keep checking past it.
+      let step = collisionDetector ? bullet.getUncheckedStep() : null;
+      while (collisionDetector && step) {
+        const { from, offset } = step;
+        const hit = collisionDetector.checkForBulletCollision(
+          from,
+          bullet.getPosition(),
+          this.player,
+          (distance) =>
+            bullet.getDamage(bullet.getDistanceTravelled(offset + distance))
+        );
+        if (!hit) break;
+
+        // Create impact effect where the bullet struck, spraying off the
+        // surface it hit, and leave a mark on it
+        this.createImpactEffect(hit.point, hit.normal, hit.material);
+        DecalManager.forScene(this.scene).addDecal(
+          hit.point,
+          hit.normal,
+          hit.material,
+          hit.object
+        );
 
+        // Bullets go through thin cover, and glance off metal struck at a
+        // shallow angle
+        const carriesOn = hit.exit
+          ? bullet.penetrate(hit.material, offset + from.distanceTo(hit.exit))
+          : bullet.ricochet(
+              hit.point,
+              hit.normal,
+              hit.material,
+              offset + hit.distance
+            );
+        if (!carriesOn) {
           // Remove bullet from scene
           bullet.remove(this.scene);
           // Remove from bullets array
           this.bullets.splice(i, 1);
+          break;
         }
+        step = bullet.getUncheckedStep();
       }
 
       // Here you could add more collision detection for bullets
@@ -541,10 +865,17 @@ export class WeaponSystem extends NetworkedEntity {
     }
   }
 
-  // Create impact effect where bullets hit
-  private createImpactEffect(position: THREE.Vector3): void {
+  // Create impact effect where bullets hit, spraying off the surface in
+  // the colors of what it is made of
+  private createImpactEffect(
+    position: THREE.Vector3,
+    normal: THREE.Vector3,
+    material: SurfaceMaterial
+  ): void {
+    const surface = SURFACE_MATERIALS[material];
+
     // Create particle system for impact
-    const particleCount = 20; // Slightly more particles for better effect
+    const particleCount = surface.impactParticles;
 
     // Create individual particle velocities and initial positions
     const particleVelocities: THREE.Vector3[] = [];
@@ -552,7 +883,7 @@ export class WeaponSystem extends NetworkedEntity {
 
     // Physics parameters
     const gravity = 9.8; // Gravity constant
-    const initialSpeed = 2.0; // Initial outward velocity
+    const initialSpeed = surface.impactSpeed; // Initial outward velocity
     const lifetime = 1.0; // Longer lifetime in seconds
 
     // Create geometry for particle system
@@ -561,6 +892,7 @@ export class WeaponSystem extends NetworkedEntity {
     const colors = new Float32Array(particleCount * 3);
     const sizes = new Float32Array(particleCount);
     const color = new THREE.Color();
+    const baseColor = new THREE.Color(surface.impactColor);
 
     // Initialize particles
     for (let i = 0; i < particleCount; i++) {
@@ -584,19 +916,18 @@ export class WeaponSystem extends NetworkedEntity {
       positions[i * 3 + 1] = initialPosition.y;
       positions[i * 3 + 2] = initialPosition.z;
 
-      // Calculate initial velocity - outward and upward
-      const initialVelocity = new THREE.Vector3(
-        Math.cos(angle) * initialSpeed * (0.5 + Math.random()),
-        initialSpeed * (0.5 + Math.random()), // Upward component
-        Math.sin(angle) * initialSpeed * (0.5 + Math.random())
-      );
+      // Calculate initial velocity - away from the surface, scattered
+      const initialVelocity = new THREE.Vector3()
+        .randomDirection()
+        .add(normal)
+        .normalize()
+        .multiplyScalar(initialSpeed * (0.5 + Math.random()));
 
       // Store velocity
       particleVelocities.push(initialVelocity);
 
-      // Yellow/orange/red spark colors
-      const hue = 0.05 + Math.random() * 0.1; // Narrower range of yellow-orange-red
-      color.setHSL(hue, 1.0, 0.5 + Math.random() * 0.5);
+      // Shades of the surface's color
+      color.copy(baseColor).offsetHSL(0, 0, (Math.random() - 0.5) * 0.2);
 
       colors[i * 3] = color.r;
       colors[i * 3 + 1] = color.g;
@@ -618,7 +949,8 @@ export class WeaponSystem extends NetworkedEntity {
       vertexColors: true,
       transparent: true,
       opacity: 1.0,
-      blending: THREE.AdditiveBlending,
+      // Sparks glow, debris doesn't
+      blending: surface.sparks ? THREE.AdditiveBlending : THREE.NormalBlending,
     });
 
     // Create particle system and add to scene
@@ -704,11 +1036,13 @@ export class WeaponSystem extends NetworkedEntity {
       return;
     }
 
-    // Start reloading
+    // Start reloading, which takes the scope off the eye and ends any burst
     currentWeapon.isReloading = true;
+    this.shotsThisPull = 0;
     currentWeapon.reloadStartTime = performance.now();
+    this.updateScope();
 
-    this.emit<WeaponEvent>(GAME_EVENTS.WEAPON.RELOAD, {
+    this.emit(GAME_EVENTS.WEAPON.RELOAD, {
       weaponType: currentWeapon.name,
       action: "reload",
       data: {
@@ -755,6 +1089,7 @@ export class WeaponSystem extends NetworkedEntity {
 
     // End reloading state
     currentWeapon.isReloading = false;
+    this.updateScope();
   }
 
   // Check if weapon is reloading
@@ -776,29 +1111,43 @@ export class WeaponSystem extends NetworkedEntity {
 
   // Switch to previous weapon
   public previousWeapon() {
-    const prevIndex =
-      (this.currentWeaponIndex - 1 + this.weapons.length) % this.weapons.length;
-    this.switchToWeapon(prevIndex);
+    const slots = this.getSlots();
+    const current = slots.indexOf(this.getCurrentWeaponIndex());
+    this.switchToWeapon(slots[(current - 1 + slots.length) % slots.length]);
   }
 
   // Switch to next weapon
   public nextWeapon() {
-    const nextIndex = (this.currentWeaponIndex + 1) % this.weapons.length;
-    this.switchToWeapon(nextIndex);
+    const slots = this.getSlots();
+    const current = slots.indexOf(this.getCurrentWeaponIndex());
+    this.switchToWeapon(slots[(current + 1) % slots.length]);
   }
 
-  // Switch to specific weapon by index
+  /**
+   * Every slot in the order weapons are cycled through, the knife last
+   */
+  private getSlots(): number[] {
+    return [...this.weapons.keys(), MELEE_SLOT];
+  }
+
+  // Switch to specific weapon by index, or to the knife in MELEE_SLOT
   public switchToWeapon(index: number) {
+    const toKnife = index === MELEE_SLOT;
     if (
-      index >= 0 &&
-      index < this.weapons.length &&
-      index !== this.currentWeaponIndex
+      (toKnife || (index >= 0 && index < this.weapons.length)) &&
+      index !== this.getCurrentWeaponIndex()
     ) {
       // Remove current weapon from scene
       this.scene.remove(this.getCurrentWeapon().model);
 
+      // A burst or spray doesn't carry over to the next weapon
+      this.shotsThisPull = 0;
+
       // Update current weapon index
-      this.currentWeaponIndex = index;
+      this.holdingKnife = toKnife;
+      if (!toKnife) {
+        this.currentWeaponIndex = index;
+      }
 
       // Get the new current weapon
       const newWeapon = this.getCurrentWeapon();
@@ -812,7 +1161,7 @@ export class WeaponSystem extends NetworkedEntity {
       }
 
       // Emit weapon switch event
-      this.emit<WeaponEvent>(GAME_EVENTS.WEAPON.SWITCH, {
+      this.emit(GAME_EVENTS.WEAPON.SWITCH, {
         weaponType: newWeapon.name,
         action: "switch",
         data: {
@@ -820,12 +1169,56 @@ export class WeaponSystem extends NetworkedEntity {
           totalAmmo: newWeapon.totalBullets,
         },
       });
+
+      this.updateScope();
     }
   }
 
   // Get the current weapon
+  /**
+   * Where a shot would go: from the gun barrel, the way the player faces
+   */
+  public getAimRay(): THREE.Ray {
+    // Get gun barrel position (front of the gun)
+    const barrelPosition = new THREE.Vector3();
+    // Get world position of the gun
+    this.getCurrentWeapon().model.getWorldPosition(barrelPosition);
+
+    // Offset to the barrel tip
+    const model = this.getCurrentWeapon().model;
+    const barrelTip = new THREE.Vector3(0, 0, -(model.userData.muzzle ?? 0));
+    barrelTip.applyQuaternion(model.quaternion);
+    barrelPosition.add(barrelTip);
+
+    // Get direction based on player rotation, kicked by recoil
+    const direction = new THREE.Vector3(0, 0, -1);
+    direction.applyQuaternion(this.player.quaternion);
+    direction.applyAxisAngle(
+      new THREE.Vector3(0, 1, 0),
+      THREE.MathUtils.degToRad(this.kick)
+    );
+
+    return new THREE.Ray(barrelPosition, direction);
+  }
+
+  /**
+   * How far shots reach
+   */
+  public getRange(): number {
+    return this.getCurrentWeapon().range;
+  }
+
   public getCurrentWeapon(): Weapon {
-    return this.weapons[this.currentWeaponIndex];
+    return this.holdingKnife
+      ? this.knife
+      : this.weapons[this.currentWeaponIndex];
+  }
+
+  /**
+   * Whether the player holds the knife rather than a gun
+   */
+  public isHoldingKnife(): boolean {
+    return this.holdingKnife;
   }
 
   // Get all weapons in inventory
@@ -833,15 +1226,15 @@ export class WeaponSystem extends NetworkedEntity {
     return this.weapons;
   }
 
-  // Get current weapon index
+  // Get current weapon index, MELEE_SLOT while holding the knife
   public getCurrentWeaponIndex(): number {
-    return this.currentWeaponIndex;
+    return this.holdingKnife ? MELEE_SLOT : this.currentWeaponIndex;
   }
 
   // Drop the current weapon
   public dropCurrentWeapon(): Weapon | null {
-    // Cannot drop if there's only one weapon left
-    if (this.weapons.length <= 1) {
+    // Cannot drop if there's only one weapon left, nor the knife
+    if (this.weapons.length <= 1 || this.holdingKnife) {
       return null;
     }
 
@@ -903,15 +1296,27 @@ export class WeaponSystem extends NetworkedEntity {
     // Instead of removing the weapon from inventory, replace it with an empty slot
     const emptyWeapon: Weapon = {
       name: "Empty",
+      attachments: [],
       model: new THREE.Group(), // Empty group
       bulletsInMagazine: 0,
       totalBullets: 0,
       maxMagazineSize: 0,
       fireRate: 0,
+      fireMode: "semi",
+      burst: null,
+      recoil: NO_RECOIL,
       isReloading: false,
       reloadTime: 0,
       reloadStartTime: 0,
       lastShotTime: 0,
+      damage: 0,
+      falloff: { start: 0, end: 0, minDamage: 0 },
+      spread: 0,
+      pellets: 0,
+      bulletSpeed: 0,
+      range: 0,
+      scope: null,
+      concealsFlash: false,
     };
 
     // Replace the current weapon with the empty slot
@@ -919,6 +1324,7 @@ export class WeaponSystem extends NetworkedEntity {
 
     // Try to switch to a non-empty weapon if possible
     this.switchToNonEmptyWeapon();
+    this.updateScope();
 
     // Return the dropped weapon info
     return droppedWeapon;
@@ -934,7 +1340,8 @@ export class WeaponSystem extends NetworkedEntity {
       }
     }
 
-    // If we get here, there are no non-empty weapons, so keep the current (empty) one
+    // With no weapons left, fight with the knife
+    this.switchToWeapon(MELEE_SLOT);
   }
 
   // Get ammo info for HUD
@@ -945,6 +1352,7 @@ export class WeaponSystem extends NetworkedEntity {
       total: currentWeapon.totalBullets,
       isReloading: currentWeapon.isReloading,
       isEmpty: currentWeapon.name === "Empty",
+      isMelee: this.holdingKnife,
     };
   }
 
@@ -965,60 +1373,30 @@ export class WeaponSystem extends NetworkedEntity {
       // We found an empty slot, replace it with the new weapon
 
       // Create a new model for the weapon based on its name
-      let newModel: THREE.Group;
-      switch (weapon.name) {
-        case "Pistol":
-          newModel = this.createPistol();
-          break;
-        case "Assault Rifle":
-          newModel = this.createRifle();
-          break;
-        case "Shotgun":
-          newModel = this.createShotgun();
-          break;
-        default:
-          // If we don't recognize the weapon type, create a default model
-          newModel = new THREE.Group();
-          console.warn(`Unknown weapon type: ${weapon.name}`);
-      }
-
-      // Update the weapon with the new model
-      weapon.model = newModel;
+      weapon.model = this.createModelFor(weapon);
 
       // Replace the empty slot with the new weapon
       this.weapons[emptySlotIndex] = weapon;
 
       // If this is the current weapon, add it to the scene
-      if (emptySlotIndex === this.currentWeaponIndex) {
+      if (this.holdingKnife) {
+        // Draw the first weapon picked up after fighting with the knife alone
+        if (this.weapons.filter((w) => w.name !== "Empty").length === 1) {
+          this.switchToWeapon(emptySlotIndex);
+        }
+      } else if (emptySlotIndex === this.currentWeaponIndex) {
         this.scene.add(weapon.model);
         this.updateWeaponPosition(false);
+        this.updateScope();
       }
 
       return true;
     }
 
-    // If we don't have an empty slot but have fewer than 3 weapons, add it
-    if (this.weapons.length < 3) {
+    // If we don't have an empty slot but have room for another, add it
+    if (this.weapons.length < INVENTORY_SIZE) {
       // Create a new model for the weapon based on its name
-      let newModel: THREE.Group;
-      switch (weapon.name) {
-        case "Pistol":
-          newModel = this.createPistol();
-          break;
-        case "Assault Rifle":
-          newModel = this.createRifle();
-          break;
-        case "Shotgun":
-          newModel = this.createShotgun();
-          break;
-        default:
-          // If we don't recognize the weapon type, create a default model
-          newModel = new THREE.Group();
-          console.warn(`Unknown weapon type: ${weapon.name}`);
-      }
-
-      // Update the weapon with the new model
-      weapon.model = newModel;
+      weapon.model = this.createModelFor(weapon);
 
       // Add the weapon to the inventory
       this.weapons.push(weapon);
@@ -1030,6 +1408,17 @@ export class WeaponSystem extends NetworkedEntity {
     return false;
   }
 
+  /**
+   * Take the held weapon and the laser sight out of the scene, when the
+   * player leaves
+   */
+  public dispose(): void {
+    this.scene.remove(this.getCurrentWeapon().model);
+    this.scene.remove(this.laser);
+    this.laser.geometry.dispose();
+    this.laser.material.dispose();
+  }
+
   /**
    * Set the pickup manager
    */
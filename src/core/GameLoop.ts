@@ -3,6 +3,15 @@ import { IsometricControls } from "../components/IsometricControls";
 import { HUD } from "../components/HUD";
 import { PickupManager } from "../components/PickupManager";
 import { RemotePlayerManager } from "../components/RemotePlayerManager";
+import type { FlagManager } from "../components/FlagManager";
+import type { GrenadeManager } from "../components/GrenadeManager";
+import type {
+  NameplateManager,
+  NameplateTarget,
+} from "../components/Nameplates";
+import { TeamRoster } from "../components/TeamRoster";
+import { DecalManager } from "../components/DecalManager";
+import { LobbyClient } from "../api/lobby";
 
 // Define window augmentation for impact animations
 type ImpactAnimationFn = (delta: number) => void;
@@ -25,6 +34,9 @@ export class GameLoop {
   private player: THREE.Mesh;
   private lastFrameTime: number;
   private decorationCubes: THREE.Mesh[] = [];
+  private nameplates?: NameplateManager;
+  private flags?: FlagManager;
+  private grenades?: GrenadeManager;
 
   constructor(
     scene: THREE.Scene,
@@ -49,6 +61,27 @@ export class GameLoop {
     this.lastFrameTime = performance.now();
   }
 
+  /**
+   * Set the nameplates to keep over the players
+   */
+  public setNameplates(nameplates: NameplateManager): void {
+    this.nameplates = nameplates;
+  }
+
+  /**
+   * Set the capture-the-flag flags to keep with their carriers
+   */
+  public setFlags(flags: FlagManager): void {
+    this.flags = flags;
+  }
+
+  /**
+   * Set the grenades to fly and set off
+   */
+  public setGrenades(grenades: GrenadeManager): void {
+    this.grenades = grenades;
+  }
+
   /**
    * Start the animation loop
    */
@@ -107,7 +140,7 @@ export class GameLoop {
         // Apply damage to player (20 damage per second while in contact with car)
         const playerController = this.controls.getPlayerController();
         if (playerController) {
-          playerController.takeDamage(20 * delta);
+          playerController.takeDamage(20 * delta, { id: "car", name: "Car" });
         }
 
         break;
@@ -123,11 +156,29 @@ export class GameLoop {
     // Update remote players
     this.remotePlayerManager.update(delta);
 
+    // Fly thrown grenades and set them off
+    if (this.grenades) {
+      this.grenades.update(delta);
+    }
+
+    // Keep carried flags with their carriers
+    if (this.flags) {
+      this.flags.update();
+    }
+
+    // Update nameplates over the players
+    if (this.nameplates) {
+      this.nameplates.update(this.getNameplateTargets(), delta);
+    }
+
     // Update HUD
     if (this.hud) {
       this.hud.update();
     }
 
+    // Fade out old bullet marks
+    DecalManager.forScene(this.scene).update(delta);
+
     // Update bullet impact animations
     if (window.__impactAnimations && window.__impactAnimations.length > 0) {
       // Create a copy of the array to prevent issues if animations modify the array
@@ -140,4 +191,28 @@ export class GameLoop {
     // Render the scene
     this.renderer.render(this.scene, this.camera);
   };
+
+  /**
+   * Every remote player, plus the local player when the nameplates are
+   * asked to show them
+   */
+  private getNameplateTargets(): Map<string, NameplateTarget> {
+    const targets = this.remotePlayerManager.getNameplateTargets();
+
+    if (this.nameplates?.isShowingLocalPlayer()) {
+      const health = this.controls.getHealth();
+      const { profile, userId } = LobbyClient.getInstance().getState();
+      targets.set("local", {
+        object: this.player,
+        name: profile.name,
+        health: health.current,
+        maxHealth: health.max,
+        isDead: health.isDead,
+        weaponName: this.controls.getCurrentWeaponName(),
+        teamColor: TeamRoster.getInstance().getTeamColor(userId) ?? undefined,
+      });
+    }
+
+    return targets;
+  }
 }
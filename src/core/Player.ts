@@ -1,12 +1,19 @@
 import * as THREE from "three";
 
+/**
+ * The player's color outside team modes
+ */
+const DEFAULT_COLOR = 0xffaa00; // Orange-yellow
+
 export class Player {
   private playerMesh: THREE.Mesh;
 
   constructor(scene: THREE.Scene) {
     // Create a player object
     const playerGeometry = new THREE.BoxGeometry(1, 2, 1); // A bit taller than wide
-    const playerMaterial = new THREE.MeshStandardMaterial({ color: 0xffaa00 }); // Orange-yellow color
+    const playerMaterial = new THREE.MeshStandardMaterial({
+      color: DEFAULT_COLOR,
+    });
     this.playerMesh = new THREE.Mesh(playerGeometry, playerMaterial);
     this.playerMesh.position.set(0, 1, 0); // Position at origin, 1 unit above ground (half player height)
     this.playerMesh.castShadow = true;
@@ -24,6 +31,15 @@ export class Player {
     return this.playerMesh;
   }
 
+  /**
+   * Set the player's color, e.g. their team's, or go back to the default
+   * @param color New color, or null for the default
+   */
+  public setColor(color: THREE.ColorRepresentation | null): void {
+    const material = this.playerMesh.material as THREE.MeshStandardMaterial;
+    material.color.set(color ?? DEFAULT_COLOR);
+  }
+
   /**
    * Set player position
    * @param position New position vector
@@ -1,4 +1,6 @@
 import * as THREE from "three";
+import { SPAWN_POINTS } from "./spawnPoints";
+import type { SpawnPoint } from "./spawnPoints";
 
 export interface PositionData {
   position: THREE.Vector3;
@@ -22,6 +24,9 @@ export class MapLayout {
     { position: new THREE.Vector3(15, 0, -15) },
   ];
 
+  // Spawn points, shared with the server
+  public static readonly SPAWN_POINTS: SpawnPoint[] = SPAWN_POINTS;
+
   // Shop position
   public static readonly SHOP_POSITION: THREE.Vector3 = new THREE.Vector3(
     0,
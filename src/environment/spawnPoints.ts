@@ -0,0 +1,98 @@
+import type { TeamId } from "../events/types";
+
+type Point = { x: number; y: number; z: number };
+
+/**
+ * A place players come into the map. Shared with the server, so plain
+ * data only.
+ */
+export interface SpawnPoint {
+  position: Point;
+  team?: TeamId; // Only players of this team spawn here, in team modes
+}
+
+/**
+ * Team spawns sit around each base at either end of the map, and
+ * free-for-all spawns around the edge
+ */
+export const SPAWN_POINTS: SpawnPoint[] = [
+  { position: { x: -32, y: 1, z: -4 }, team: "red" },
+  { position: { x: -32, y: 1, z: 4 }, team: "red" },
+  { position: { x: -28, y: 1, z: -6 }, team: "red" },
+  { position: { x: -28, y: 1, z: 6 }, team: "red" },
+  { position: { x: 32, y: 1, z: -4 }, team: "blue" },
+  { position: { x: 32, y: 1, z: 4 }, team: "blue" },
+  { position: { x: 28, y: 1, z: -6 }, team: "blue" },
+  { position: { x: 28, y: 1, z: 6 }, team: "blue" },
+  { position: { x: -30, y: 1, z: -30 } },
+  { position: { x: 0, y: 1, z: -32 } },
+  { position: { x: 30, y: 1, z: -30 } },
+  { position: { x: 32, y: 1, z: 0 } },
+  { position: { x: 30, y: 1, z: 30 } },
+  { position: { x: 0, y: 1, z: 32 } },
+  { position: { x: -30, y: 1, z: 30 } },
+  { position: { x: -32, y: 1, z: 0 } },
+];
+
+/**
+ * Enemies further away than this (units) don't make a spawn any less safe
+ */
+const SAFE_DISTANCE = 25;
+
+/**
+ * Score lost for each enemy that can see a spawn
+ */
+const SEEN_PENALTY = 10;
+
+/**
+ * Tells whether an enemy standing at one point can see another
+ */
+export type SightCheck = (from: Point, to: Point) => boolean;
+
+/**
+ * How safe a spawn is: the further the nearest enemy, the better, and
+ * worse for every enemy with a line of sight to it
+ */
+export function scoreSpawnPoint(
+  point: SpawnPoint,
+  enemies: Point[],
+  canSee?: SightCheck
+): number {
+  let nearest = SAFE_DISTANCE;
+  let seenBy = 0;
+  for (const enemy of enemies) {
+    nearest = Math.min(nearest, distance(point.position, enemy));
+    if (canSee?.(enemy, point.position)) seenBy++;
+  }
+  return nearest - seenBy * SEEN_PENALTY;
+}
+
+/**
+ * The safest of some spawn points. Equally safe ones (e.g. with no
+ * enemies around) are picked at random, so players don't all come in at
+ * the same spot.
+ */
+export function pickSpawnPoint(
+  points: SpawnPoint[],
+  enemies: Point[],
+  canSee?: SightCheck
+): SpawnPoint {
+  let best: SpawnPoint[] = [];
+  let bestScore = -Infinity;
+
+  for (const point of points) {
+    const score = scoreSpawnPoint(point, enemies, canSee);
+    if (score > bestScore) {
+      best = [point];
+      bestScore = score;
+    } else if (score === bestScore) {
+      best.push(point);
+    }
+  }
+
+  return best[Math.floor(Math.random() * best.length)] ?? SPAWN_POINTS[0];
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+}
@@ -1,11 +1,18 @@
+import type { FriendlyFire, GameModeId, TeamId } from "./types";
+
 export const GAME_EVENTS = {
   USER: {
     CONNECTED: "user:connected",
     DISCONNECTED: "user:disconnected",
+    WELCOME: "user:welcome",
   },
   PLAYER: {
     POSITION: "player:position",
     STATUS: "player:status",
+    HEALTH: "player:health",
+    INPUT: "player:input",
+    INPUT_ACK: "player:input-ack",
+    STATE: "player:state", // Binary, see stateCodec.ts
   },
   WEAPON: {
     SHOOT: "weapon:shoot",
@@ -13,10 +20,127 @@ export const GAME_EVENTS = {
     SWITCH: "weapon:switch",
     PICKUP: "weapon:pickup",
     DROP: "weapon:drop",
+    AIM: "weapon:aim",
   },
   COMBAT: {
     HIT: "combat:hit",
     DAMAGE: "combat:damage",
     KILL: "combat:kill",
+    MELEE: "combat:melee",
   },
+  GRENADE: {
+    THROW: "grenade:throw",
+    EXPLODE: "grenade:explode",
+  },
+  MATCH: {
+    SCOREBOARD: "match:scoreboard",
+    STATE: "match:state",
+    END: "match:end",
+  },
+  LOBBY: {
+    ROOMS: "lobby:rooms",
+    ROOM: "lobby:room",
+    PROFILE: "lobby:profile",
+    LOADOUT: "lobby:loadout",
+    CREATE: "lobby:create",
+    JOIN: "lobby:join",
+    LEAVE: "lobby:leave",
+    READY: "lobby:ready",
+    ERROR: "lobby:error",
+  },
+} as const;
+
+/**
+ * Limits for names and rooms, checked on both ends
+ */
+export const LOBBY = {
+  maxNameLength: 16,
+  maxRoomNameLength: 24,
+  minRoomSize: 2,
+  maxRoomSize: 16,
+  defaultRoomSize: 8,
+  countdownSeconds: 5,
+} as const;
+
+/**
+ * Respawning: how long the dead wait, and how long a fresh spawn can't be
+ * hurt (unless they fire first)
+ */
+export const SPAWN = {
+  respawnDelaySeconds: 3,
+  protectionSeconds: 3,
+} as const;
+
+/**
+ * Health pickups only exist on the client that finds them, so the server
+ * can only hold the heals it is told about to these limits
+ */
+export const HEALTH_PICKUP = {
+  minHeal: 10,
+  maxHeal: 50,
+  intervalSeconds: 1, // Fewest seconds between one player's heals
+} as const;
+
+/**
+ * Game modes a room can play. A match ends when someone reaches the score
+ * limit or the time runs out, whichever comes first.
+ */
+export const GAME_MODES: Record<
+  GameModeId,
+  { name: string; teams: boolean; scoreLimit: number; timeLimitSeconds: number }
+> = {
+  deathmatch: {
+    name: "Deathmatch",
+    teams: false,
+    scoreLimit: 20,
+    timeLimitSeconds: 600,
+  },
+  "team-deathmatch": {
+    name: "Team Deathmatch",
+    teams: true,
+    scoreLimit: 50,
+    timeLimitSeconds: 600,
+  },
+  "capture-the-flag": {
+    name: "Capture the Flag",
+    teams: true,
+    scoreLimit: 3,
+    timeLimitSeconds: 900,
+  },
+};
+
+export const DEFAULT_GAME_MODE: GameModeId = "deathmatch";
+
+/**
+ * Friendly fire rules, and the part of the damage teammates take
+ */
+export const FRIENDLY_FIRE: Record<
+  FriendlyFire,
+  { name: string; damageScale: number }
+> = {
+  off: { name: "Off", damageScale: 0 },
+  reduced: { name: "Reduced", damageScale: 0.5 },
+  full: { name: "Full", damageScale: 1 },
+};
+
+export const DEFAULT_FRIENDLY_FIRE: FriendlyFire = "off";
+
+/**
+ * Teams in team modes
+ */
+export const TEAMS: Record<TeamId, { name: string; color: string }> = {
+  red: { name: "Red", color: "#e6194b" },
+  blue: { name: "Blue", color: "#4363d8" },
+};
+
+/**
+ * Movement limits shared by the client simulation and the server's checks
+ */
+export const MOVEMENT = {
+  speed: 10,
+  crouchSpeed: 5,
+  runSpeed: 20,
+  jumpStrength: 5,
+  gravity: 30,
+  maxFrameDelta: 0.25, // Longest frame (s) a single input may cover
 } as const;
@@ -1,10 +1,21 @@
+import { ConnectionMonitor } from "../api/connection";
 import socket from "../api/socket";
+import { encodeBatch } from "./protocol";
+import type { GameEventName, OutgoingEvent } from "./protocol";
 import type { BaseEvent } from "./types";
 
+interface BufferedEvent {
+  event: string;
+  data: BaseEvent;
+  session: number; // Connection session the event was emitted in
+}
+
 export class EventEmitter {
   private static instance: EventEmitter;
-  private eventBuffer: { event: string; data: BaseEvent }[] = [];
+  private eventBuffer: BufferedEvent[] = [];
   private readonly bufferInterval = 100; // 100ms buffer interval
+  private connection = ConnectionMonitor.getInstance();
+  private roomId: string | null = null; // Match we're playing in, if any
 
   private constructor() {
     this.startBuffering();
@@ -24,6 +35,17 @@ export class EventEmitter {
   private flushBuffer(): void {
     if (this.eventBuffer.length === 0) return;
 
+    // Events from an older session mean nothing to the server we have now.
+    // Sending while offline would only queue them in socket.io until then.
+    const session = this.connection.getSession();
+    if (!this.connection.isConnected()) {
+      this.eventBuffer = [];
+      return;
+    }
+    this.eventBuffer = this.eventBuffer.filter(
+      (entry) => entry.session === session
+    );
+
     // Group similar events
     const groupedEvents = this.eventBuffer.reduce((acc, curr) => {
       if (!acc[curr.event]) {
@@ -33,25 +55,42 @@ export class EventEmitter {
       return acc;
     }, {} as Record<string, BaseEvent[]>);
 
-    // Emit grouped events
+    // Emit grouped events, always as a batch
     for (const [eventName, events] of Object.entries(groupedEvents)) {
-      socket.emit(eventName, events.length === 1 ? events[0] : events);
+      socket.emit(eventName, encodeBatch(events));
     }
 
     // Clear buffer
     this.eventBuffer = [];
   }
 
-  public emit<T extends Omit<BaseEvent, "timestamp">>(
-    eventName: string,
-    data: T
+  /**
+   * Scope every event to a match from now on. Without one, nobody is
+   * playing with us and game events are dropped.
+   */
+  public setRoom(roomId: string | null): void {
+    if (roomId === this.roomId) return;
+
+    // Whatever is still buffered was meant for the previous match
+    this.roomId = roomId;
+    this.eventBuffer = [];
+  }
+
+  public emit<K extends GameEventName>(
+    eventName: K,
+    data: OutgoingEvent<K>
   ): void {
+    // Nobody is listening while we're offline or outside a match
+    if (!this.connection.isConnected() || !this.roomId) return;
+
     this.eventBuffer.push({
       event: eventName,
       data: {
         ...data,
         timestamp: Date.now(),
+        roomId: this.roomId,
       },
+      session: this.connection.getSession(),
     });
   }
 }
@@ -0,0 +1,123 @@
+import socket from "../api/socket";
+import { decodeBatch, decodeRemoteBatch } from "./protocol";
+import type { DecodedBatch, GameEventMap, GameEventName } from "./protocol";
+import type { BaseEvent, RemoteEvent } from "./types";
+
+/**
+ * Receives events from the server, validates them against the protocol and
+ * hands listeners one typed event at a time, however they were batched
+ */
+export class EventListener {
+  private static instance: EventListener;
+  private roomId: string | null = null; // Room whose events we accept
+
+  private constructor() {}
+
+  public static getInstance(): EventListener {
+    if (!EventListener.instance) {
+      EventListener.instance = new EventListener();
+    }
+    return EventListener.instance;
+  }
+
+  /**
+   * Only accept events scoped to this room (or to no room at all) from now
+   * on, so nothing from a room we left reaches the game
+   */
+  public setRoom(roomId: string | null): void {
+    this.roomId = roomId;
+  }
+
+  /**
+   * Listen for events the server sends on its own behalf
+   */
+  public on<K extends GameEventName>(
+    eventName: K,
+    handler: (event: GameEventMap[K]) => void
+  ): void {
+    socket.on(eventName as string, (payload: unknown) => {
+      this.dispatch(eventName, decodeBatch(eventName, payload), handler);
+    });
+  }
+
+  /**
+   * Listen for events the server relays from other users
+   */
+  public onRemote<K extends GameEventName>(
+    eventName: K,
+    handler: (event: RemoteEvent<GameEventMap[K]>) => void
+  ): void {
+    socket.on(eventName as string, (payload: unknown) => {
+      this.dispatch(eventName, decodeRemoteBatch(eventName, payload), handler);
+    });
+  }
+
+  /**
+   * Listen for binary packets. Whether the handler could make sense of a
+   * packet is sent back to the server as its acknowledgement.
+   */
+  public onBinary(
+    eventName: string,
+    handler: (bytes: Uint8Array) => boolean
+  ): void {
+    socket.on(eventName, (payload: unknown, ack?: (ok: boolean) => void) => {
+      let ok = false;
+      if (payload instanceof ArrayBuffer) {
+        ok = this.handleBinary(eventName, new Uint8Array(payload), handler);
+      } else if (ArrayBuffer.isView(payload)) {
+        const bytes = new Uint8Array(
+          payload.buffer,
+          payload.byteOffset,
+          payload.byteLength
+        );
+        ok = this.handleBinary(eventName, bytes, handler);
+      } else {
+        console.warn(`[protocol] Dropped non-binary ${eventName}`);
+      }
+      ack?.(ok);
+    });
+  }
+
+  private handleBinary(
+    eventName: string,
+    bytes: Uint8Array,
+    handler: (bytes: Uint8Array) => boolean
+  ): boolean {
+    try {
+      if (handler(bytes)) return true;
+      console.warn(`[protocol] Could not decode ${eventName} packet`);
+    } catch (error) {
+      console.error(`[protocol] Listener for ${eventName} failed:`, error);
+    }
+    return false;
+  }
+
+  /**
+   * Report malformed events and pass the rest on. A listener that throws
+   * doesn't stop the remaining events from being handled.
+   */
+  private dispatch<T extends BaseEvent>(
+    eventName: string,
+    batch: DecodedBatch<T>,
+    handler: (event: T) => void
+  ): void {
+    for (const error of batch.errors) {
+      console.warn(`[protocol] Dropped ${error}`);
+    }
+
+    for (const event of batch.events) {
+      if (event.roomId && event.roomId !== this.roomId) {
+        console.warn(
+          `[protocol] Dropped ${eventName} from stale room ${event.roomId}`
+        );
+        continue;
+      }
+
+      try {
+        handler(event);
+      } catch (error) {
+        console.error(`[protocol] Listener for ${eventName} failed:`, error);
+      }
+    }
+  }
+}
@@ -1,5 +1,5 @@
 import { EventEmitter } from "./eventEmitter";
-import type { BaseEvent } from "./types";
+import type { GameEventName, OutgoingEvent } from "./protocol";
 
 export abstract class NetworkedEntity {
   protected eventEmitter: EventEmitter;
@@ -12,9 +12,9 @@ export abstract class NetworkedEntity {
   /**
    * Emit an event only if we're not currently handling a remote event
    */
-  protected emit<T extends BaseEvent>(
-    eventName: string,
-    data: Omit<T, "timestamp">
+  protected emit<K extends GameEventName>(
+    eventName: K,
+    data: OutgoingEvent<K>
   ): void {
     if (!this.isHandlingRemoteEvent) {
       this.eventEmitter.emit(eventName, data);
@@ -0,0 +1,249 @@
+import { GAME_EVENTS } from "./constants";
+import type {
+  BaseEvent,
+  CombatEvent,
+  GrenadeExplodeEvent,
+  GrenadeThrowEvent,
+  LobbyCreateEvent,
+  LobbyErrorEvent,
+  LobbyJoinEvent,
+  LobbyLeaveEvent,
+  LobbyLoadoutEvent,
+  LobbyProfileEvent,
+  LobbyReadyEvent,
+  LobbyRoomEvent,
+  LobbyRoomsEvent,
+  MatchEndEvent,
+  MatchStateEvent,
+  MeleeSwingEvent,
+  PlayerHealthEvent,
+  PlayerInputAckEvent,
+  PlayerInputEvent,
+  PlayerPositionEvent,
+  PlayerStatusEvent,
+  RemoteEvent,
+  ScoreboardEvent,
+  UserConnectionEvent,
+  UserWelcomeEvent,
+  WeaponEvent,
+} from "./types";
+import {
+  isNonEmptyString,
+  isRecord,
+  parseCombatEvent,
+  parseGrenadeExplode,
+  parseGrenadeThrow,
+  parseLobbyCreate,
+  parseLobbyError,
+  parseLobbyJoin,
+  parseLobbyLeave,
+  parseLobbyLoadout,
+  parseLobbyProfile,
+  parseLobbyReady,
+  parseLobbyRoom,
+  parseLobbyRooms,
+  parseMatchEnd,
+  parseMatchState,
+  parseMeleeSwing,
+  parsePlayerHealth,
+  parsePlayerInput,
+  parsePlayerInputAck,
+  parsePlayerPosition,
+  parsePlayerStatus,
+  parseScoreboard,
+  parseUserConnection,
+  parseUserWelcome,
+  parseWeaponEvent,
+} from "./validation";
+
+/**
+ * Bump whenever an event's shape changes. Clients and servers on different
+ * versions refuse to talk to each other.
+ */
+export const PROTOCOL_VERSION = 15;
+
+/**
+ * How the server streams player state: compact binary deltas on
+ * player:state, or readable JSON on player:position for debugging
+ */
+export type StateEncoding = "binary" | "json";
+
+/**
+ * Sent by the client when connecting (as socket.io auth data)
+ */
+export interface ProtocolHandshake {
+  protocolVersion: number;
+  stateEncoding?: StateEncoding; // Binary unless asked otherwise
+}
+
+/**
+ * The one event type carried by each GAME_EVENTS name
+ */
+export interface GameEventMap {
+  [GAME_EVENTS.USER.CONNECTED]: UserConnectionEvent;
+  [GAME_EVENTS.USER.DISCONNECTED]: UserConnectionEvent;
+  [GAME_EVENTS.USER.WELCOME]: UserWelcomeEvent;
+  [GAME_EVENTS.PLAYER.POSITION]: PlayerPositionEvent;
+  [GAME_EVENTS.PLAYER.STATUS]: PlayerStatusEvent;
+  [GAME_EVENTS.PLAYER.HEALTH]: PlayerHealthEvent;
+  [GAME_EVENTS.PLAYER.INPUT]: PlayerInputEvent;
+  [GAME_EVENTS.PLAYER.INPUT_ACK]: PlayerInputAckEvent;
+  [GAME_EVENTS.WEAPON.SHOOT]: WeaponEvent;
+  [GAME_EVENTS.WEAPON.RELOAD]: WeaponEvent;
+  [GAME_EVENTS.WEAPON.SWITCH]: WeaponEvent;
+  [GAME_EVENTS.WEAPON.PICKUP]: WeaponEvent;
+  [GAME_EVENTS.WEAPON.DROP]: WeaponEvent;
+  [GAME_EVENTS.WEAPON.AIM]: WeaponEvent;
+  [GAME_EVENTS.COMBAT.HIT]: CombatEvent;
+  [GAME_EVENTS.COMBAT.DAMAGE]: CombatEvent;
+  [GAME_EVENTS.COMBAT.KILL]: CombatEvent;
+  [GAME_EVENTS.COMBAT.MELEE]: MeleeSwingEvent;
+  [GAME_EVENTS.GRENADE.THROW]: GrenadeThrowEvent;
+  [GAME_EVENTS.GRENADE.EXPLODE]: GrenadeExplodeEvent;
+  [GAME_EVENTS.MATCH.SCOREBOARD]: ScoreboardEvent;
+  [GAME_EVENTS.MATCH.STATE]: MatchStateEvent;
+  [GAME_EVENTS.MATCH.END]: MatchEndEvent;
+  [GAME_EVENTS.LOBBY.ROOMS]: LobbyRoomsEvent;
+  [GAME_EVENTS.LOBBY.ROOM]: LobbyRoomEvent;
+  [GAME_EVENTS.LOBBY.PROFILE]: LobbyProfileEvent;
+  [GAME_EVENTS.LOBBY.LOADOUT]: LobbyLoadoutEvent;
+  [GAME_EVENTS.LOBBY.CREATE]: LobbyCreateEvent;
+  [GAME_EVENTS.LOBBY.JOIN]: LobbyJoinEvent;
+  [GAME_EVENTS.LOBBY.LEAVE]: LobbyLeaveEvent;
+  [GAME_EVENTS.LOBBY.READY]: LobbyReadyEvent;
+  [GAME_EVENTS.LOBBY.ERROR]: LobbyErrorEvent;
+}
+
+export type GameEventName = keyof GameEventMap;
+
+/**
+ * Event data as passed to an emitter, which stamps the time and room itself
+ */
+export type OutgoingEvent<K extends GameEventName> = Omit<
+  GameEventMap[K],
+  "timestamp" | "roomId"
+>;
+
+type Validator<T extends BaseEvent> = (payload: unknown) => T | null;
+
+const EVENT_VALIDATORS: { [K in GameEventName]: Validator<GameEventMap[K]> } = {
+  [GAME_EVENTS.USER.CONNECTED]: parseUserConnection,
+  [GAME_EVENTS.USER.DISCONNECTED]: parseUserConnection,
+  [GAME_EVENTS.USER.WELCOME]: parseUserWelcome,
+  [GAME_EVENTS.PLAYER.POSITION]: parsePlayerPosition,
+  [GAME_EVENTS.PLAYER.STATUS]: parsePlayerStatus,
+  [GAME_EVENTS.PLAYER.HEALTH]: parsePlayerHealth,
+  [GAME_EVENTS.PLAYER.INPUT]: parsePlayerInput,
+  [GAME_EVENTS.PLAYER.INPUT_ACK]: parsePlayerInputAck,
+  [GAME_EVENTS.WEAPON.SHOOT]: parseWeaponEvent,
+  [GAME_EVENTS.WEAPON.RELOAD]: parseWeaponEvent,
+  [GAME_EVENTS.WEAPON.SWITCH]: parseWeaponEvent,
+  [GAME_EVENTS.WEAPON.PICKUP]: parseWeaponEvent,
+  [GAME_EVENTS.WEAPON.DROP]: parseWeaponEvent,
+  [GAME_EVENTS.WEAPON.AIM]: parseWeaponEvent,
+  [GAME_EVENTS.COMBAT.HIT]: parseCombatEvent,
+  [GAME_EVENTS.COMBAT.DAMAGE]: parseCombatEvent,
+  [GAME_EVENTS.COMBAT.KILL]: parseCombatEvent,
+  [GAME_EVENTS.COMBAT.MELEE]: parseMeleeSwing,
+  [GAME_EVENTS.GRENADE.THROW]: parseGrenadeThrow,
+  [GAME_EVENTS.GRENADE.EXPLODE]: parseGrenadeExplode,
+  [GAME_EVENTS.MATCH.SCOREBOARD]: parseScoreboard,
+  [GAME_EVENTS.MATCH.STATE]: parseMatchState,
+  [GAME_EVENTS.MATCH.END]: parseMatchEnd,
+  [GAME_EVENTS.LOBBY.ROOMS]: parseLobbyRooms,
+  [GAME_EVENTS.LOBBY.ROOM]: parseLobbyRoom,
+  [GAME_EVENTS.LOBBY.PROFILE]: parseLobbyProfile,
+  [GAME_EVENTS.LOBBY.LOADOUT]: parseLobbyLoadout,
+  [GAME_EVENTS.LOBBY.CREATE]: parseLobbyCreate,
+  [GAME_EVENTS.LOBBY.JOIN]: parseLobbyJoin,
+  [GAME_EVENTS.LOBBY.LEAVE]: parseLobbyLeave,
+  [GAME_EVENTS.LOBBY.READY]: parseLobbyReady,
+  [GAME_EVENTS.LOBBY.ERROR]: parseLobbyError,
+};
+
+/**
+ * Result of decoding a packet: every valid event, plus a reason for
+ * each one that was dropped
+ */
+export interface DecodedBatch<T> {
+  events: T[];
+  errors: string[];
+}
+
+/**
+ * Packets always carry an array of events (a batch), even for one event
+ */
+export function encodeBatch<T extends BaseEvent>(events: T | T[]): T[] {
+  return Array.isArray(events) ? events : [events];
+}
+
+/**
+ * Validate every event in a packet. A lone object is accepted as a
+ * batch of one, so older senders keep working.
+ */
+export function decodeBatch<K extends GameEventName>(
+  eventName: K,
+  payload: unknown
+): DecodedBatch<GameEventMap[K]> {
+  const validate = getValidator(eventName);
+  return decodeItems(eventName, payload, (item) => validate?.(item) ?? null);
+}
+
+/**
+ * Validate a packet of events relayed by the server on behalf of other
+ * users. Each event must also carry the sender's userId.
+ */
+export function decodeRemoteBatch<K extends GameEventName>(
+  eventName: K,
+  payload: unknown
+): DecodedBatch<RemoteEvent<GameEventMap[K]>> {
+  const validate = getValidator(eventName);
+  return decodeItems(eventName, payload, (item) => {
+    const event = validate?.(item);
+    const userId = isRecord(item) ? item.userId : undefined;
+    if (!event || !isNonEmptyString(userId)) return null;
+    return { ...event, userId };
+  });
+}
+
+/**
+ * Get the validator for an event. The room an event is scoped to is kept
+ * on top of whatever the event's own parser keeps.
+ */
+function getValidator<K extends GameEventName>(
+  eventName: K
+): Validator<GameEventMap[K]> | undefined {
+  const validate = EVENT_VALIDATORS[eventName] as
+    Validator<GameEventMap[K]> | undefined;
+  if (!validate) return undefined;
+
+  return (payload) => {
+    const event = validate(payload);
+    if (event && isRecord(payload) && isNonEmptyString(payload.roomId)) {
+      event.roomId = payload.roomId;
+    }
+    return event;
+  };
+}
+
+function decodeItems<T>(
+  eventName: string,
+  payload: unknown,
+  parse: (item: unknown) => T | null
+): DecodedBatch<T> {
+  const result: DecodedBatch<T> = { events: [], errors: [] };
+
+  const items = Array.isArray(payload) ? payload : [payload];
+  items.forEach((item, index) => {
+    const event = parse(item);
+    if (event) {
+      result.events.push(event);
+    } else {
+      result.errors.push(
+        `malformed ${eventName} at index ${index}: ${JSON.stringify(item)}`
+      );
+    }
+  });
+
+  return result;
+}
@@ -0,0 +1,278 @@
+import type { PlayerPositionEvent } from "./types";
+
+/**
+ * Binary encoding for the player state the server streams several times a
+ * second. Values are quantized, and each packet only carries the fields that
+ * changed since a baseline packet the client has acknowledged.
+ * Shared by the client and the server, so it must not depend on three.js.
+ *
+ * Packet layout (big-endian):
+ *   uint16 seq, uint16 baseline seq (0 = none), uint16 entry count
+ *   per entry: uint16 netId, uint8 flags,
+ *     timestamp: float64 if FULL, else int32 ms since the baseline's,
+ *     x/y/z: int16 each (absolute if FULL, else delta; only if flagged),
+ *     rotation: uint16 (if flagged), weapon index: uint8 (if flagged)
+ */
+
+const POSITION_SCALE = 100; // Steps per unit (1cm)
+const ROTATION_STEPS = 65536; // Steps per full turn
+
+const HEADER_BYTES = 6;
+const MAX_SEQ = 65535;
+
+const FLAG_FULL = 0x01; // No baseline: every field is present and absolute
+const FLAG_X = 0x02;
+const FLAG_Y = 0x04;
+const FLAG_Z = 0x08;
+const FLAG_ROTATION = 0x10;
+const FLAG_WEAPON = 0x20;
+const FLAG_CROUCHING = 0x40; // The value itself, always present
+
+const AXES = [
+  ["x", FLAG_X],
+  ["y", FLAG_Y],
+  ["z", FLAG_Z],
+] as const;
+
+/**
+ * Player state rounded to the precision it is sent with
+ */
+export interface QuantizedState {
+  x: number; // Position in centimeters
+  y: number;
+  z: number;
+  rotation: number; // Fraction of a turn, in 1/65536 steps
+  crouching: boolean;
+  weaponIndex: number;
+  timestamp: number; // Sender's clock (ms)
+}
+
+/**
+ * Every player's state as known by both ends after a packet
+ */
+export type StateWorld = ReadonlyMap<number, QuantizedState>;
+
+/**
+ * A decoded packet. States only holds the players it carried.
+ */
+export interface StatePacket {
+  seq: number;
+  baselineSeq: number;
+  states: Map<number, QuantizedState>;
+}
+
+function clampInt16(value: number): number {
+  return Math.max(-32768, Math.min(32767, value));
+}
+
+/**
+ * Round a player's state to the encoding's precision
+ */
+export function quantizeState(event: PlayerPositionEvent): QuantizedState {
+  const turn = 2 * Math.PI;
+  const rotation = ((event.rotation % turn) + turn) % turn;
+
+  return {
+    x: clampInt16(Math.round(event.position.x * POSITION_SCALE)),
+    y: clampInt16(Math.round(event.position.y * POSITION_SCALE)),
+    z: clampInt16(Math.round(event.position.z * POSITION_SCALE)),
+    rotation: Math.round((rotation / turn) * ROTATION_STEPS) % ROTATION_STEPS,
+    crouching: event.crouching,
+    weaponIndex: Math.max(0, Math.min(255, Math.round(event.weaponIndex))),
+    timestamp: Math.round(event.timestamp),
+  };
+}
+
+/**
+ * Turn a quantized state back into an event
+ */
+export function dequantizeState(state: QuantizedState): PlayerPositionEvent {
+  return {
+    position: {
+      x: state.x / POSITION_SCALE,
+      y: state.y / POSITION_SCALE,
+      z: state.z / POSITION_SCALE,
+    },
+    rotation: (state.rotation / ROTATION_STEPS) * 2 * Math.PI,
+    crouching: state.crouching,
+    weaponIndex: state.weaponIndex,
+    timestamp: state.timestamp,
+  };
+}
+
+/**
+ * Whether two states look the same, ignoring when they were taken
+ */
+export function isSameState(a: QuantizedState, b: QuantizedState): boolean {
+  return (
+    a.x === b.x &&
+    a.y === b.y &&
+    a.z === b.z &&
+    a.rotation === b.rotation &&
+    a.crouching === b.crouching &&
+    a.weaponIndex === b.weaponIndex
+  );
+}
+
+/**
+ * Sequence numbers count 1..65535 and wrap, leaving 0 for "no baseline"
+ */
+export function nextStateSeq(seq: number): number {
+  return seq >= MAX_SEQ ? 1 : seq + 1;
+}
+
+/**
+ * Encode states as a delta against the baseline world the receiver
+ * acknowledged (or in full when there is none)
+ */
+export function encodeStatePacket(
+  seq: number,
+  baselineSeq: number,
+  baseline: StateWorld,
+  states: ReadonlyMap<number, QuantizedState>
+): Uint8Array {
+  // Worst case is a full entry for everyone
+  const view = new DataView(new ArrayBuffer(HEADER_BYTES + states.size * 20));
+  view.setUint16(0, seq);
+  view.setUint16(2, baselineSeq);
+  view.setUint16(4, states.size);
+
+  let offset = HEADER_BYTES;
+  for (const [netId, state] of states) {
+    const base = baseline.get(netId);
+
+    let flags = state.crouching ? FLAG_CROUCHING : 0;
+    if (!base) {
+      flags |= FLAG_FULL;
+    } else {
+      if (state.x !== base.x) flags |= FLAG_X;
+      if (state.y !== base.y) flags |= FLAG_Y;
+      if (state.z !== base.z) flags |= FLAG_Z;
+      if (state.rotation !== base.rotation) flags |= FLAG_ROTATION;
+      if (state.weaponIndex !== base.weaponIndex) flags |= FLAG_WEAPON;
+    }
+
+    view.setUint16(offset, netId);
+    view.setUint8(offset + 2, flags);
+    offset += 3;
+
+    if (!base) {
+      view.setFloat64(offset, state.timestamp);
+      view.setInt16(offset + 8, state.x);
+      view.setInt16(offset + 10, state.y);
+      view.setInt16(offset + 12, state.z);
+      view.setUint16(offset + 14, state.rotation);
+      view.setUint8(offset + 16, state.weaponIndex);
+      offset += 17;
+      continue;
+    }
+
+    view.setInt32(offset, state.timestamp - base.timestamp);
+    offset += 4;
+    for (const [axis, flag] of AXES) {
+      if (flags & flag) {
+        view.setInt16(offset, state[axis] - base[axis]);
+        offset += 2;
+      }
+    }
+    if (flags & FLAG_ROTATION) {
+      view.setUint16(offset, state.rotation);
+      offset += 2;
+    }
+    if (flags & FLAG_WEAPON) {
+      view.setUint8(offset, state.weaponIndex);
+      offset += 1;
+    }
+  }
+
+  return new Uint8Array(view.buffer, 0, offset);
+}
+
+/**
+ * Decode a packet against the baseline world it names
+ * @returns Null if the packet is malformed or its baseline is unknown
+ */
+export function decodeStatePacket(
+  bytes: Uint8Array,
+  getBaseline: (seq: number) => StateWorld | undefined
+): StatePacket | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  try {
+    const seq = view.getUint16(0);
+    const baselineSeq = view.getUint16(2);
+    const count = view.getUint16(4);
+    if (seq === 0) return null;
+
+    const baseline = baselineSeq === 0 ? new Map() : getBaseline(baselineSeq);
+    if (!baseline) return null;
+
+    const states = new Map<number, QuantizedState>();
+    let offset = HEADER_BYTES;
+    for (let i = 0; i < count; i++) {
+      const netId = view.getUint16(offset);
+      const flags = view.getUint8(offset + 2);
+      const crouching = (flags & FLAG_CROUCHING) !== 0;
+      offset += 3;
+
+      if (flags & FLAG_FULL) {
+        states.set(netId, {
+          timestamp: view.getFloat64(offset),
+          x: view.getInt16(offset + 8),
+          y: view.getInt16(offset + 10),
+          z: view.getInt16(offset + 12),
+          rotation: view.getUint16(offset + 14),
+          weaponIndex: view.getUint8(offset + 16),
+          crouching,
+        });
+        offset += 17;
+        continue;
+      }
+
+      const base = baseline.get(netId);
+      if (!base) return null;
+
+      const state: QuantizedState = {
+        ...base,
+        crouching,
+        timestamp: base.timestamp + view.getInt32(offset),
+      };
+      offset += 4;
+      for (const [axis, flag] of AXES) {
+        if (flags & flag) {
+          state[axis] = base[axis] + view.getInt16(offset);
+          offset += 2;
+        }
+      }
+      if (flags & FLAG_ROTATION) {
+        state.rotation = view.getUint16(offset);
+        offset += 2;
+      }
+      if (flags & FLAG_WEAPON) {
+        state.weaponIndex = view.getUint8(offset);
+        offset += 1;
+      }
+      states.set(netId, state);
+    }
+
+    if (offset !== bytes.byteLength) return null;
+    return { seq, baselineSeq, states };
+  } catch {
+    // Truncated packet
+    return null;
+  }
+}
+
+/**
+ * The world after a packet: its baseline with the packet's states applied
+ */
+export function applyStates(
+  baseline: StateWorld,
+  states: ReadonlyMap<number, QuantizedState>
+): Map<number, QuantizedState> {
+  const world = new Map(baseline);
+  for (const [netId, state] of states) {
+    world.set(netId, state);
+  }
+  return world;
+}
@@ -0,0 +1,64 @@
+import { applyStates, decodeStatePacket } from "./stateCodec";
+import type { QuantizedState, StateWorld } from "./stateCodec";
+
+/**
+ * Most recent packets kept as possible baselines for the next ones
+ */
+const MAX_WORLDS = 64;
+
+/**
+ * Client end of the binary state stream. Rebuilds each packet's states
+ * from the baseline packet it was encoded against.
+ */
+export class StateReceiver {
+  private worlds: { seq: number; world: StateWorld }[] = [];
+
+  /**
+   * Decode a packet
+   * @returns The states it carried, or null if it couldn't be decoded
+   */
+  public receive(bytes: Uint8Array): Map<number, QuantizedState> | null {
+    const packet = decodeStatePacket(bytes, (seq) => this.getWorld(seq));
+    if (!packet) return null;
+
+    const baseline = this.getWorld(packet.baselineSeq) ?? new Map();
+    this.worlds.push({
+      seq: packet.seq,
+      world: applyStates(baseline, packet.states),
+    });
+    if (this.worlds.length > MAX_WORLDS) {
+      this.worlds.shift();
+    }
+
+    return packet.states;
+  }
+
+  /**
+   * Stop tracking a player who left
+   */
+  public forget(netId: number): void {
+    this.worlds = this.worlds.map(({ seq, world }) => {
+      const remaining = new Map(world);
+      remaining.delete(netId);
+      return { seq, world: remaining };
+    });
+  }
+
+  /**
+   * Forget every packet, e.g. when the connection drops
+   */
+  public reset(): void {
+    this.worlds = [];
+  }
+
+  /**
+   * Find the world after a packet. Newest first, since sequence numbers
+   * wrap and restart when the server sees us as a new connection.
+   */
+  private getWorld(seq: number): StateWorld | undefined {
+    for (let i = this.worlds.length - 1; i >= 0; i--) {
+      if (this.worlds[i].seq === seq) return this.worlds[i].world;
+    }
+    return undefined;
+  }
+}
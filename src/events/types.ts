@@ -1,7 +1,38 @@
+import type { SurfaceMaterial } from "../weapons/surfaceMaterials";
+
 export interface BaseEvent {
   timestamp: number;
+  roomId?: string; // Room the event belongs to (lobby events have none)
+}
+
+/**
+ * How a player chose to look
+ */
+export interface PlayerProfile {
+  name: string;
+  color: string; // CSS hex color, e.g. "#ff8800"
+}
+
+/**
+ * A weapon a player carries, and the attachments (ids from weapons.json)
+ * fitted to it
+ */
+export interface WeaponLoadout {
+  weapon: string;
+  attachments: string[];
+}
+
+/**
+ * The weapons a player spawns with
+ */
+export interface Loadout {
+  primary: WeaponLoadout;
+  secondary: WeaponLoadout;
 }
 
+/**
+ * A player's frequently changing state, as streamed by the server
+ */
 export interface PlayerPositionEvent extends BaseEvent {
   position: {
     x: number;
@@ -9,14 +40,17 @@ export interface PlayerPositionEvent extends BaseEvent {
     z: number;
   };
   rotation: number;
+  crouching: boolean;
+  weaponIndex: number; // Slot of the held weapon in the inventory
 }
 
 export interface WeaponEvent extends BaseEvent {
   weaponType: string;
-  action: "shoot" | "reload" | "switch" | "pickup" | "drop";
+  action: "shoot" | "reload" | "switch" | "pickup" | "drop" | "aim";
   data?: {
     ammo?: number;
     totalAmmo?: number;
+    aiming?: boolean; // Down the scope, showing a laser sight to others
     position?: {
       x: number;
       y: number;
@@ -35,7 +69,12 @@ export interface CombatEvent extends BaseEvent {
   sourceId: string;
   targetId: string;
   damage?: number;
-  weaponType?: string;
+  health?: number;
+  weaponType?: string; // That fired the claimed hit, or dealt the damage
+  headshot?: boolean; // The hit landed on the head
+  wallbang?: boolean; // The bullet went through cover first
+  backstab?: boolean; // A knife struck the target from behind
+  penetrated?: SurfaceMaterial[]; // That cover, in the order it was hit
   position?: {
     x: number;
     y: number;
@@ -43,6 +82,57 @@ export interface CombatEvent extends BaseEvent {
   };
 }
 
+/**
+ * A knife swing, with the player the attacker saw it strike, if any. The
+ * server checks the hit, deals its damage as combat:damage events and
+ * passes the swing on for everyone else to see.
+ */
+export interface MeleeSwingEvent extends BaseEvent {
+  targetId: string | null;
+  position: {
+    x: number;
+    y: number;
+    z: number;
+  }; // Where the attacker swung from
+  direction: {
+    x: number;
+    y: number;
+    z: number;
+  }; // The way the attacker swung
+}
+
+/**
+ * A frag grenade leaving a player's hand. Everyone simulates its flight.
+ */
+export interface GrenadeThrowEvent extends BaseEvent {
+  grenadeId: number; // Counts up per thrower
+  position: {
+    x: number;
+    y: number;
+    z: number;
+  };
+  velocity: {
+    x: number;
+    y: number;
+    z: number;
+  };
+}
+
+/**
+ * A grenade going off. The thrower claims the players the blast reached
+ * past cover; the server checks the claim, deals the damage as
+ * combat:damage events and passes the explosion on.
+ */
+export interface GrenadeExplodeEvent extends BaseEvent {
+  grenadeId: number;
+  position: {
+    x: number;
+    y: number;
+    z: number;
+  };
+  targetIds: string[];
+}
+
 export interface PlayerStatusEvent extends BaseEvent {
   status: "dead" | "alive";
   position?: {
@@ -50,6 +140,258 @@ export interface PlayerStatusEvent extends BaseEvent {
     y: number;
     z: number;
   };
+  loadout?: Loadout; // What a respawning player comes back with
+}
+
+/**
+ * One frame of local player input, tagged with a sequence number so the
+ * server can acknowledge it. Carries the position the client predicted.
+ */
+export interface PlayerInputEvent extends BaseEvent {
+  seq: number;
+  delta: number; // Frame duration in seconds
+  move: {
+    x: number;
+    z: number;
+  };
+  running: boolean;
+  crouching: boolean;
+  jumping: boolean;
+  position: {
+    x: number;
+    y: number;
+    z: number;
+  };
+  rotation: number;
+}
+
+/**
+ * Server acknowledgement of the last input it processed, with the
+ * authoritative position after that input
+ */
+export interface PlayerInputAckEvent extends BaseEvent {
+  seq: number;
+  position: {
+    x: number;
+    y: number;
+    z: number;
+  };
+  corrected: boolean;
+}
+
+/**
+ * Health changes the server can't see for itself (pickups, getting run over)
+ */
+export interface PlayerHealthEvent extends BaseEvent {
+  amount: number; // Health gained from a pickup, or lost to the environment
+  health?: number; // Health after the change, filled in by the server
+  reason: "heal" | "environment";
+}
+
+/**
+ * A player joining or leaving the match in our room
+ */
+export interface UserConnectionEvent extends BaseEvent, PlayerProfile {
+  userId: string;
+  netId: number; // Short id standing in for userId in binary packets
+  message: string;
+  loadout: Loadout;
+}
+
+export interface PlayerSnapshot extends PlayerProfile {
+  userId: string;
+  netId: number;
+  position: {
+    x: number;
+    y: number;
+    z: number;
+  };
+  rotation: number;
+  health: number;
+  isDead: boolean;
+  weaponType: string;
+  loadout: Loadout; // What they spawned with
 }
 
+/**
+ * Everything a client needs to (re)build the game. Sent on connecting
+ * (with no room and nobody else), when a match starts or is joined, and
+ * after leaving one.
+ */
+export interface UserWelcomeEvent extends BaseEvent {
+  userId: string;
+  self: PlayerSnapshot; // Where and how the server has us start
+  players: PlayerSnapshot[];
+}
+
+/**
+ * One player's line on the scoreboard
+ */
+export interface PlayerStats extends PlayerProfile {
+  userId: string;
+  kills: number;
+  deaths: number;
+  assists: number; // Damaged a player someone else then killed
+  damageDealt: number;
+  damageTaken: number;
+  shotsFired: number; // Bullets, so a shotgun blast counts each pellet
+  shotsHit: number;
+  score: number;
+}
+
+/**
+ * Everyone's stats in the current match, best score first
+ */
+export interface ScoreboardEvent extends BaseEvent {
+  players: PlayerStats[];
+}
+
+export type GameModeId = "deathmatch" | "team-deathmatch" | "capture-the-flag";
+
+export type TeamId = "red" | "blue";
+
+/**
+ * Whether shots hurt teammates in team modes: not at all, by part of the
+ * damage, or fully
+ */
+export type FriendlyFire = "off" | "reduced" | "full";
+
+/**
+ * A player's standing in the match, by the rules of its mode
+ */
+export interface MatchPlayer {
+  userId: string;
+  name: string;
+  score: number; // Kills, or flags captured in capture the flag
+  team?: TeamId; // Only in team modes
+}
+
+export interface TeamScore {
+  id: TeamId;
+  score: number;
+}
+
+/**
+ * A capture-the-flag flag: at its base, carried, or dropped where its
+ * carrier fell
+ */
+export interface FlagState {
+  team: TeamId; // Team the flag belongs to
+  position: {
+    x: number;
+    y: number;
+    z: number;
+  };
+  carrierId: string | null;
+  atBase: boolean;
+}
+
+/**
+ * How the match is going, sent when it starts and whenever it changes.
+ * Clients count the time down themselves in between.
+ */
+export interface MatchStateEvent extends BaseEvent {
+  mode: GameModeId;
+  scoreLimit: number;
+  timeLeftMs: number;
+  players: MatchPlayer[];
+  teams: TeamScore[]; // Empty in free-for-all modes
+  flags: FlagState[]; // Only in capture the flag
+}
+
+export type MatchWinner =
+  { type: "player"; userId: string } | { type: "team"; team: TeamId };
+
+/**
+ * Final results, sent when the match ends
+ */
+export interface MatchEndEvent extends BaseEvent {
+  mode: GameModeId;
+  reason: "score" | "time"; // Score limit reached, or time ran out
+  winner: MatchWinner | null; // Null for a draw
+  players: MatchPlayer[];
+  teams: TeamScore[];
+  stats: PlayerStats[];
+}
+
+/**
+ * Set the name and color other players see
+ */
+export interface LobbyProfileEvent extends BaseEvent, PlayerProfile {}
+
+/**
+ * Pick the weapons to spawn with next time
+ */
+export interface LobbyLoadoutEvent extends BaseEvent {
+  loadout: Loadout;
+}
+
+export interface LobbyCreateEvent extends BaseEvent {
+  name: string;
+  maxPlayers: number;
+  mode: GameModeId;
+  friendlyFire: FriendlyFire;
+}
+
+export interface LobbyJoinEvent extends BaseEvent {
+  id: string; // Room to join
+}
+
+export type LobbyLeaveEvent = BaseEvent;
+
+export interface LobbyReadyEvent extends BaseEvent {
+  ready: boolean;
+}
+
+export type RoomPhase = "waiting" | "countdown" | "playing";
+
+/**
+ * A room as listed in the lobby
+ */
+export interface RoomSummary {
+  id: string;
+  name: string;
+  playerCount: number;
+  maxPlayers: number;
+  mode: GameModeId;
+  friendlyFire: FriendlyFire;
+  phase: RoomPhase;
+}
+
+export interface RoomMember extends PlayerProfile {
+  userId: string;
+  ready: boolean;
+}
+
+/**
+ * A room as seen by the players in it
+ */
+export interface RoomDetails extends RoomSummary {
+  members: RoomMember[];
+  countdownMs?: number; // Time left before the match starts
+}
+
+export interface LobbyRoomsEvent extends BaseEvent {
+  rooms: RoomSummary[];
+}
+
+/**
+ * The room we are in, sent whenever it changes (null after leaving)
+ */
+export interface LobbyRoomEvent extends BaseEvent {
+  room: RoomDetails | null;
+}
+
+/**
+ * A lobby request the server turned down
+ */
+export interface LobbyErrorEvent extends BaseEvent {
+  message: string;
+}
+
+/**
+ * An event relayed by the server, tagged with the id of the user who sent it
+ */
+export type RemoteEvent<T extends BaseEvent> = T & { userId: string };
+
 // Add more event interfaces as needed
@@ -0,0 +1,820 @@
+import { FRIENDLY_FIRE, GAME_MODES, LOBBY, TEAMS } from "./constants";
+import type {
+  CombatEvent,
+  FlagState,
+  FriendlyFire,
+  GameModeId,
+  GrenadeExplodeEvent,
+  GrenadeThrowEvent,
+  Loadout,
+  LobbyCreateEvent,
+  LobbyErrorEvent,
+  LobbyJoinEvent,
+  LobbyLeaveEvent,
+  LobbyLoadoutEvent,
+  LobbyProfileEvent,
+  LobbyReadyEvent,
+  LobbyRoomEvent,
+  LobbyRoomsEvent,
+  MatchEndEvent,
+  MatchPlayer,
+  MatchStateEvent,
+  MatchWinner,
+  MeleeSwingEvent,
+  PlayerHealthEvent,
+  PlayerInputAckEvent,
+  PlayerInputEvent,
+  PlayerPositionEvent,
+  PlayerProfile,
+  PlayerSnapshot,
+  PlayerStats,
+  PlayerStatusEvent,
+  RoomDetails,
+  RoomMember,
+  RoomPhase,
+  RoomSummary,
+  ScoreboardEvent,
+  TeamId,
+  TeamScore,
+  UserConnectionEvent,
+  UserWelcomeEvent,
+  WeaponEvent,
+  WeaponLoadout,
+} from "./types";
+import {
+  MAX_PENETRATIONS,
+  isSurfaceMaterial,
+} from "../weapons/surfaceMaterials";
+
+/**
+ * Runtime checks for payloads received over the network. Each parser returns
+ * a clean copy of the event, or null if the payload doesn't match its type.
+ * Shared by the client and the server, so it must not depend on three.js.
+ */
+
+type Vector3Like = { x: number; y: number; z: number };
+
+const WEAPON_ACTIONS = ["shoot", "reload", "switch", "pickup", "drop", "aim"];
+const COMBAT_TYPES = ["hit", "damage", "kill"];
+const ROOM_PHASES = ["waiting", "countdown", "playing"];
+const MATCH_END_REASONS = ["score", "time"];
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isBoolean(value: unknown): value is boolean {
+  return typeof value === "boolean";
+}
+
+export function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value !== "";
+}
+
+/**
+ * Check that a value is a non-negative integer (ids and indices)
+ */
+function isIndex(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+/**
+ * Check that a value is a vector with finite components
+ */
+export function isVector3(value: unknown): value is Vector3Like {
+  return (
+    isRecord(value) &&
+    isFiniteNumber(value.x) &&
+    isFiniteNumber(value.y) &&
+    isFiniteNumber(value.z)
+  );
+}
+
+function copyVector3(value: Vector3Like): Vector3Like {
+  return { x: value.x, y: value.y, z: value.z };
+}
+
+/**
+ * Check that a value is a trimmed, non-empty name no longer than maxLength
+ */
+export function isName(value: unknown, maxLength: number): value is string {
+  return (
+    isNonEmptyString(value) &&
+    value === value.trim() &&
+    value.length <= maxLength
+  );
+}
+
+/**
+ * Check that a value is a "#rrggbb" color
+ */
+export function isColor(value: unknown): value is string {
+  return typeof value === "string" && COLOR_PATTERN.test(value);
+}
+
+export function isGameMode(value: unknown): value is GameModeId {
+  return typeof value === "string" && Object.keys(GAME_MODES).includes(value);
+}
+
+export function isFriendlyFire(value: unknown): value is FriendlyFire {
+  return (
+    typeof value === "string" && Object.keys(FRIENDLY_FIRE).includes(value)
+  );
+}
+
+function isTeam(value: unknown): value is TeamId {
+  return typeof value === "string" && Object.keys(TEAMS).includes(value);
+}
+
+function parseProfile(payload: Record<string, unknown>): PlayerProfile | null {
+  if (!isName(payload.name, LOBBY.maxNameLength)) return null;
+  if (!isColor(payload.color)) return null;
+  return { name: payload.name, color: payload.color };
+}
+
+/**
+ * Check a loadout's shape. Whether its weapons and attachments exist is up
+ * to weapons.json (see isLoadoutAllowed).
+ */
+export function parseLoadout(payload: unknown): Loadout | null {
+  if (!isRecord(payload)) return null;
+
+  const primary = parseWeaponLoadout(payload.primary);
+  const secondary = parseWeaponLoadout(payload.secondary);
+  if (!primary || !secondary) return null;
+
+  return { primary, secondary };
+}
+
+function parseWeaponLoadout(payload: unknown): WeaponLoadout | null {
+  if (!isRecord(payload)) return null;
+  if (!isNonEmptyString(payload.weapon)) return null;
+  if (
+    !Array.isArray(payload.attachments) ||
+    !payload.attachments.every(isNonEmptyString)
+  ) {
+    return null;
+  }
+
+  return { weapon: payload.weapon, attachments: [...payload.attachments] };
+}
+
+/**
+ * Events without a valid timestamp are treated as happening now
+ */
+function parseTimestamp(payload: Record<string, unknown>): number {
+  return isFiniteNumber(payload.timestamp) ? payload.timestamp : Date.now();
+}
+
+export function parsePlayerPosition(
+  payload: unknown
+): PlayerPositionEvent | null {
+  if (!isRecord(payload)) return null;
+  if (!isVector3(payload.position) || !isFiniteNumber(payload.rotation)) {
+    return null;
+  }
+  if (!isBoolean(payload.crouching) || !isIndex(payload.weaponIndex)) {
+    return null;
+  }
+
+  return {
+    position: copyVector3(payload.position),
+    rotation: payload.rotation,
+    crouching: payload.crouching,
+    weaponIndex: payload.weaponIndex,
+    timestamp: parseTimestamp(payload),
+  };
+}
+
+export function parsePlayerStatus(payload: unknown): PlayerStatusEvent | null {
+  if (!isRecord(payload)) return null;
+  if (payload.status !== "dead" && payload.status !== "alive") return null;
+  if (payload.position !== undefined && !isVector3(payload.position)) {
+    return null;
+  }
+
+  const loadout =
+    payload.loadout === undefined ? undefined : parseLoadout(payload.loadout);
+  if (loadout === null) return null;
+
+  return {
+    status: payload.status,
+    position: payload.position ? copyVector3(payload.position) : undefined,
+    loadout,
+    timestamp: parseTimestamp(payload),
+  };
+}
+
+export function parsePlayerHealth(payload: unknown): PlayerHealthEvent | null {
+  if (!isRecord(payload)) return null;
+  if (!isFiniteNumber(payload.amount) || payload.amount <= 0) return null;
+  if (payload.health !== undefined && !isFiniteNumber(payload.health)) {
+    return null;
+  }
+  if (payload.reason !== "heal" && payload.reason !== "environment") {
+    return null;
+  }
+
+  return {
+    amount: payload.amount,
+    health: payload.health,
+    reason: payload.reason,
+    timestamp: parseTimestamp(payload),
+  };
+}
+
+/**
+ * Parse one frame of movement input. The predicted position is only checked
+ * for shape here; the server decides whether it is reachable.
+ */
+export function parsePlayerInput(payload: unknown): PlayerInputEvent | null {
+  if (!isRecord(payload)) return null;
+  if (!Number.isSafeInteger(payload.seq) || (payload.seq as number) <= 0) {
+    return null;
+  }
+  if (!isFiniteNumber(payload.delta) || payload.delta < 0) return null;
+  if (
+    !isRecord(payload.move) ||
+    !isFiniteNumber(payload.move.x) ||
+    !isFiniteNumber(payload.move.z)
+  ) {
+    return null;
+  }
+  if (
+    !isBoolean(payload.running) ||
+    !isBoolean(payload.crouching) ||
+    !isBoolean(payload.jumping)
+  ) {
+    return null;
+  }
+  if (!isVector3(payload.position) || !isFiniteNumber(payload.rotation)) {
+    return null;
+  }
+
+  return {
+    seq: payload.seq as number,
+    delta: payload.delta,
+    move: { x: payload.move.x, z: payload.move.z },
+    running: payload.running,
+    crouching: payload.crouching,
+    jumping: payload.jumping,
+    position: copyVector3(payload.position),
+    rotation: payload.rotation,
+    timestamp: parseTimestamp(payload),
+  };
+}
+
+export function parsePlayerInputAck(
+  payload: unknown
+): PlayerInputAckEvent | null {
+  if (!isRecord(payload)) return null;
+  if (!Number.isSafeInteger(payload.seq)) return null;
+  if (!isVector3(payload.position) || !isBoolean(payload.corrected)) {
+    return null;
+  }
+
+  return {
+    seq: payload.seq as number,
+    position: copyVector3(payload.position),
+    corrected: payload.corrected,
+    timestamp: parseTimestamp(payload),
+  };
+}
+
+export function parseWeaponEvent(payload: unknown): WeaponEvent | null {
+  if (!isRecord(payload)) return null;
+  if (typeof payload.weaponType !== "string") return null;
+  if (
+    typeof payload.action !== "string" ||
+    !WEAPON_ACTIONS.includes(payload.action)
+  ) {
+    return null;
+  }
+
+  const event: WeaponEvent = {
+    weaponType: payload.weaponType,
+    action: payload.action as WeaponEvent["action"],
+    timestamp: parseTimestamp(payload),
+  };
+
+  if (payload.data !== undefined) {
+    if (!isRecord(payload.data)) return null;
+    const { ammo, totalAmmo, aiming, position, direction } = payload.data;
+    if (ammo !== undefined && !isFiniteNumber(ammo)) return null;
+    if (totalAmmo !== undefined && !isFiniteNumber(totalAmmo)) return null;
+    if (aiming !== undefined && !isBoolean(aiming)) return null;
+    if (position !== undefined && !isVector3(position)) return null;
+    if (direction !== undefined && !isVector3(direction)) return null;
+
+    event.data = {
+      ammo,
+      totalAmmo,
+      aiming,
+      position: position && copyVector3(position),
+      direction: direction && copyVector3(direction),
+    };
+  }
+
+  return event;
+}
+
+/**
+ * Parse a hit claim, damage or kill. The server never trusts a claim's
+ * sourceId; it always uses the sender instead.
+ */
+export function parseCombatEvent(payload: unknown): CombatEvent | null {
+  if (!isRecord(payload)) return null;
+  if (
+    typeof payload.type !== "string" ||
+    !COMBAT_TYPES.includes(payload.type)
+  ) {
+    return null;
+  }
+  if (!isNonEmptyString(payload.sourceId)) return null;
+  if (!isNonEmptyString(payload.targetId)) return null;
+  if (payload.damage !== undefined && !isFiniteNumber(payload.damage)) {
+    return null;
+  }
+  if (payload.health !== undefined && !isFiniteNumber(payload.health)) {
+    return null;
+  }
+  if (
+    payload.weaponType !== undefined &&
+    typeof payload.weaponType !== "string"
+  ) {
+    return null;
+  }
+  if (payload.headshot !== undefined && !isBoolean(payload.headshot)) {
+    return null;
+  }
+  if (payload.wallbang !== undefined && !isBoolean(payload.wallbang)) {
+    return null;
+  }
+  if (payload.backstab !== undefined && !isBoolean(payload.backstab)) {
+    return null;
+  }
+  if (
+    payload.penetrated !== undefined &&
+    (!Array.isArray(payload.penetrated) ||
+      payload.penetrated.length > MAX_PENETRATIONS ||
+      !payload.penetrated.every(isSurfaceMaterial))
+  ) {
+    return null;
+  }
+  if (payload.position !== undefined && !isVector3(payload.position)) {
+    return null;
+  }
+
+  return {
+    type: payload.type as CombatEvent["type"],
+    sourceId: payload.sourceId,
+    targetId: payload.targetId,
+    damage: payload.damage,
+    health: payload.health,
+    weaponType: payload.weaponType,
+    headshot: payload.headshot,
+    wallbang: payload.wallbang,
+    backstab: payload.backstab,
+    penetrated: payload.penetrated ? [...payload.penetrated] : undefined,
+    position: payload.position ? copyVector3(payload.position) : undefined,
+    timestamp: parseTimestamp(payload),
+  };
+}
+
+export function parseMeleeSwing(payload: unknown): MeleeSwingEvent | null {
+  if (!isRecord(payload)) return null;
+  if (payload.targetId !== null && !isNonEmptyString(payload.targetId)) {
+    return null;
+  }
+  if (!isVector3(payload.position) || !isVector3(payload.direction)) {
+    return null;
+  }
+
+  return {
+    targetId: payload.targetId,
+    position: copyVector3(payload.position),
+    direction: copyVector3(payload.direction),
+    timestamp: parseTimestamp(payload),
+  };
+}
+
+export function parseGrenadeThrow(payload: unknown): GrenadeThrowEvent | null {
+  if (!isRecord(payload) || !isIndex(payload.grenadeId)) return null;
+  if (!isVector3(payload.position) || !isVector3(payload.velocity)) {
+    return null;
+  }
+
+  return {
+    grenadeId: payload.grenadeId,
+    position: copyVector3(payload.position),
+    velocity: copyVector3(payload.velocity),
+    timestamp: parseTimestamp(payload),
+  };
+}
+
+export function parseGrenadeExplode(
+  payload: unknown
+): GrenadeExplodeEvent | null {
+  if (!isRecord(payload) || !isIndex(payload.grenadeId)) return null;
+  if (!isVector3(payload.position)) return null;
+  if (
+    !Array.isArray(payload.targetIds) ||
+    payload.targetIds.length > LOBBY.maxRoomSize ||
+    !payload.targetIds.every(isNonEmptyString)
+  ) {
+    return null;
+  }
+
+  return {
+    grenadeId: payload.grenadeId,
+    position: copyVector3(payload.position),
+    targetIds: [...payload.targetIds],
+    timestamp: parseTimestamp(payload),
+  };
+}
+
+export function parseUserConnection(
+  payload: unknown
+): UserConnectionEvent | null {
+  if (!isRecord(payload)) return null;
+  if (!isNonEmptyString(payload.userId)) return null;
+  if (!isIndex(payload.netId)) return null;
+  if (typeof payload.message !== "string") return null;
+
+  const profile = parseProfile(payload);
+  if (!profile) return null;
+  const loadout = parseLoadout(payload.loadout);
+  if (!loadout) return null;
+
+  return {
+    userId: payload.userId,
+    netId: payload.netId,
+    ...profile,
+    message: payload.message,
+    loadout,
+    timestamp: parseTimestamp(payload),
+  };
+}
+
+function parsePlayerSnapshot(payload: unknown): PlayerSnapshot | null {
+  if (!isRecord(payload)) return null;
+  if (!isNonEmptyString(payload.userId)) return null;
+  if (!isIndex(payload.netId)) return null;
+  if (!isVector3(payload.position) || !isFiniteNumber(payload.rotation)) {
+    return null;
+  }
+  if (!isFiniteNumber(payload.health) || !isBoolean(payload.isDead)) {
+    return null;
+  }
+  if (typeof payload.weaponType !== "string") return null;
+
+  const profile = parseProfile(payload);
+  if (!profile) return null;
+  const loadout = parseLoadout(payload.loadout);
+  if (!loadout) return null;
+
+  return {
+    userId: payload.userId,
+    netId: payload.netId,
+    ...profile,
+    position: copyVector3(payload.position),
+    rotation: payload.rotation,
+    health: payload.health,
+    isDead: payload.isDead,
+    weaponType: payload.weaponType,
+    loadout,
+  };
+}
+
+export function parseUserWelcome(payload: unknown): UserWelcomeEvent | null {
+  if (!isRecord(payload)) return null;
+  if (!isNonEmptyString(payload.userId)) return null;
+  if (!Array.isArray(payload.players)) return null;
+
+  const self = parsePlayerSnapshot(payload.self);
+  if (!self) return null;
+
+  const players: PlayerSnapshot[] = [];
+  for (const snapshot of payload.players) {
+    const player = parsePlayerSnapshot(snapshot);
+    if (!player) return null;
+    players.push(player);
+  }
+
+  return {
+    userId: payload.userId,
+    self,
+    players,
+    timestamp: parseTimestamp(payload),
+  };
+}
+
+const STAT_FIELDS = [
+  "kills",
+  "deaths",
+  "assists",
+  "damageDealt",
+  "damageTaken",
+  "shotsFired",
+  "shotsHit",
+  "score",
+] as const;
+
+function parsePlayerStats(payload: unknown): PlayerStats | null {
+  if (!isRecord(payload) || !isNonEmptyString(payload.userId)) return null;
+
+  const profile = parseProfile(payload);
+  if (!profile) return null;
+
+  const stats = { userId: payload.userId, ...profile } as PlayerStats;
+  for (const field of STAT_FIELDS) {
+    const value = payload[field];
+    if (!isFiniteNumber(value)) return null;
+    stats[field] = value;
+  }
+  return stats;
+}
+
+export function parseScoreboard(payload: unknown): ScoreboardEvent | null {
+  if (!isRecord(payload) || !Array.isArray(payload.players)) return null;
+
+  const players: PlayerStats[] = [];
+  for (const item of payload.players) {
+    const stats = parsePlayerStats(item);
+    if (!stats) return null;
+    players.push(stats);
+  }
+
+  return { players, timestamp: parseTimestamp(payload) };
+}
+
+function parseMatchPlayer(payload: unknown): MatchPlayer | null {
+  if (!isRecord(payload) || !isNonEmptyString(payload.userId)) return null;
+  if (!isName(payload.name, LOBBY.maxNameLength)) return null;
+  if (!isFiniteNumber(payload.score)) return null;
+  if (payload.team !== undefined && !isTeam(payload.team)) return null;
+
+  return {
+    userId: payload.userId,
+    name: payload.name,
+    score: payload.score,
+    team: payload.team,
+  };
+}
+
+function parseTeamScore(payload: unknown): TeamScore | null {
+  if (!isRecord(payload) || !isTeam(payload.id)) return null;
+  if (!isFiniteNumber(payload.score)) return null;
+
+  return { id: payload.id, score: payload.score };
+}
+
+function parseFlag(payload: unknown): FlagState | null {
+  if (!isRecord(payload) || !isTeam(payload.team)) return null;
+  if (!isVector3(payload.position) || !isBoolean(payload.atBase)) return null;
+  if (payload.carrierId !== null && !isNonEmptyString(payload.carrierId)) {
+    return null;
+  }
+
+  return {
+    team: payload.team,
+    position: copyVector3(payload.position),
+    carrierId: payload.carrierId,
+    atBase: payload.atBase,
+  };
+}
+
+function parseMatchWinner(payload: unknown): MatchWinner | null {
+  if (!isRecord(payload)) return null;
+  if (payload.type === "player" && isNonEmptyString(payload.userId)) {
+    return { type: "player", userId: payload.userId };
+  }
+  if (payload.type === "team" && isTeam(payload.team)) {
+    return { type: "team", team: payload.team };
+  }
+  return null;
+}
+
+/**
+ * Parse every item of an array, or return null if any item is invalid
+ */
+function parseEach<T>(
+  value: unknown,
+  parse: (item: unknown) => T | null
+): T[] | null {
+  if (!Array.isArray(value)) return null;
+
+  const items: T[] = [];
+  for (const item of value) {
+    const parsed = parse(item);
+    if (!parsed) return null;
+    items.push(parsed);
+  }
+  return items;
+}
+
+export function parseMatchState(payload: unknown): MatchStateEvent | null {
+  if (!isRecord(payload) || !isGameMode(payload.mode)) return null;
+  if (!isFiniteNumber(payload.scoreLimit)) return null;
+  if (!isFiniteNumber(payload.timeLeftMs)) return null;
+
+  const players = parseEach(payload.players, parseMatchPlayer);
+  const teams = parseEach(payload.teams, parseTeamScore);
+  const flags = parseEach(payload.flags, parseFlag);
+  if (!players || !teams || !flags) return null;
+
+  return {
+    mode: payload.mode,
+    scoreLimit: payload.scoreLimit,
+    timeLeftMs: payload.timeLeftMs,
+    players,
+    teams,
+    flags,
+    timestamp: parseTimestamp(payload),
+  };
+}
+
+export function parseMatchEnd(payload: unknown): MatchEndEvent | null {
+  if (!isRecord(payload) || !isGameMode(payload.mode)) return null;
+  if (
+    typeof payload.reason !== "string" ||
+    !MATCH_END_REASONS.includes(payload.reason)
+  ) {
+    return null;
+  }
+
+  const winner =
+    payload.winner === null ? null : parseMatchWinner(payload.winner);
+  if (payload.winner !== null && !winner) return null;
+
+  const players = parseEach(payload.players, parseMatchPlayer);
+  const teams = parseEach(payload.teams, parseTeamScore);
+  const stats = parseEach(payload.stats, parsePlayerStats);
+  if (!players || !teams || !stats) return null;
+
+  return {
+    mode: payload.mode,
+    reason: payload.reason as MatchEndEvent["reason"],
+    winner,
+    players,
+    teams,
+    stats,
+    timestamp: parseTimestamp(payload),
+  };
+}
+
+export function parseLobbyProfile(payload: unknown): LobbyProfileEvent | null {
+  if (!isRecord(payload)) return null;
+
+  const profile = parseProfile(payload);
+  if (!profile) return null;
+
+  return { ...profile, timestamp: parseTimestamp(payload) };
+}
+
+export function parseLobbyLoadout(payload: unknown): LobbyLoadoutEvent | null {
+  if (!isRecord(payload)) return null;
+
+  const loadout = parseLoadout(payload.loadout);
+  if (!loadout) return null;
+
+  return { loadout, timestamp: parseTimestamp(payload) };
+}
+
+export function parseLobbyCreate(payload: unknown): LobbyCreateEvent | null {
+  if (!isRecord(payload)) return null;
+  if (!isName(payload.name, LOBBY.maxRoomNameLength)) return null;
+  if (
+    !Number.isInteger(payload.maxPlayers) ||
+    (payload.maxPlayers as number) < LOBBY.minRoomSize ||
+    (payload.maxPlayers as number) > LOBBY.maxRoomSize
+  ) {
+    return null;
+  }
+  if (!isGameMode(payload.mode)) return null;
+  if (!isFriendlyFire(payload.friendlyFire)) return null;
+
+  return {
+    name: payload.name,
+    maxPlayers: payload.maxPlayers as number,
+    mode: payload.mode,
+    friendlyFire: payload.friendlyFire,
+    timestamp: parseTimestamp(payload),
+  };
+}
+
+export function parseLobbyJoin(payload: unknown): LobbyJoinEvent | null {
+  if (!isRecord(payload)) return null;
+  if (!isNonEmptyString(payload.id)) return null;
+
+  return { id: payload.id, timestamp: parseTimestamp(payload) };
+}
+
+export function parseLobbyLeave(payload: unknown): LobbyLeaveEvent | null {
+  if (!isRecord(payload)) return null;
+
+  return { timestamp: parseTimestamp(payload) };
+}
+
+export function parseLobbyReady(payload: unknown): LobbyReadyEvent | null {
+  if (!isRecord(payload)) return null;
+  if (!isBoolean(payload.ready)) return null;
+
+  return { ready: payload.ready, timestamp: parseTimestamp(payload) };
+}
+
+function parseRoomSummary(payload: unknown): RoomSummary | null {
+  if (!isRecord(payload)) return null;
+  if (!isNonEmptyString(payload.id) || typeof payload.name !== "string") {
+    return null;
+  }
+  if (!isIndex(payload.playerCount) || !isIndex(payload.maxPlayers)) {
+    return null;
+  }
+  if (
+    typeof payload.phase !== "string" ||
+    !ROOM_PHASES.includes(payload.phase)
+  ) {
+    return null;
+  }
+  if (!isGameMode(payload.mode)) return null;
+  if (!isFriendlyFire(payload.friendlyFire)) return null;
+
+  return {
+    id: payload.id,
+    name: payload.name,
+    playerCount: payload.playerCount,
+    maxPlayers: payload.maxPlayers,
+    mode: payload.mode,
+    friendlyFire: payload.friendlyFire,
+    phase: payload.phase as RoomPhase,
+  };
+}
+
+function parseRoomMember(payload: unknown): RoomMember | null {
+  if (!isRecord(payload)) return null;
+  if (!isNonEmptyString(payload.userId) || !isBoolean(payload.ready)) {
+    return null;
+  }
+
+  const profile = parseProfile(payload);
+  if (!profile) return null;
+
+  return { userId: payload.userId, ...profile, ready: payload.ready };
+}
+
+function parseRoomDetails(payload: unknown): RoomDetails | null {
+  const summary = parseRoomSummary(payload);
+  if (!summary || !isRecord(payload) || !Array.isArray(payload.members)) {
+    return null;
+  }
+  if (
+    payload.countdownMs !== undefined &&
+    !isFiniteNumber(payload.countdownMs)
+  ) {
+    return null;
+  }
+
+  const members: RoomMember[] = [];
+  for (const item of payload.members) {
+    const member = parseRoomMember(item);
+    if (!member) return null;
+    members.push(member);
+  }
+
+  return { ...summary, members, countdownMs: payload.countdownMs };
+}
+
+export function parseLobbyRooms(payload: unknown): LobbyRoomsEvent | null {
+  if (!isRecord(payload) || !Array.isArray(payload.rooms)) return null;
+
+  const rooms: RoomSummary[] = [];
+  for (const item of payload.rooms) {
+    const room = parseRoomSummary(item);
+    if (!room) return null;
+    rooms.push(room);
+  }
+
+  return { rooms, timestamp: parseTimestamp(payload) };
+}
+
+export function parseLobbyRoom(payload: unknown): LobbyRoomEvent | null {
+  if (!isRecord(payload)) return null;
+
+  const room = payload.room === null ? null : parseRoomDetails(payload.room);
+  if (payload.room !== null && !room) return null;
+
+  return { room, timestamp: parseTimestamp(payload) };
+}
+
+export function parseLobbyError(payload: unknown): LobbyErrorEvent | null {
+  if (!isRecord(payload)) return null;
+  if (typeof payload.message !== "string") return null;
+
+  return { message: payload.message, timestamp: parseTimestamp(payload) };
+}
@@ -2,11 +2,20 @@ import "./style.css";
 import * as THREE from "three";
 import { IsometricControls } from "./components/IsometricControls";
 import { HUD } from "./components/HUD";
+import { FlagManager } from "./components/FlagManager";
+import { GrenadeManager } from "./components/GrenadeManager";
+import { LoadoutScreen } from "./components/LoadoutScreen";
+import { LobbyScreen } from "./components/LobbyScreen";
+import { MatchHud } from "./components/MatchHud";
+import { NameplateManager } from "./components/Nameplates";
 import { PickupManager } from "./components/PickupManager";
 
 import { RemotePlayerManager } from "./components/RemotePlayerManager";
+import { SpawnSelector } from "./components/SpawnSelector";
+import { TeamRoster } from "./components/TeamRoster";
 import { EventEmitter } from "./events/eventEmitter";
-import { GAME_EVENTS } from "./events/constants";
+import { ConnectionMonitor } from "./api/connection";
+import { LobbyClient } from "./api/lobby";
 import { GameScene } from "./core/Scene";
 import { Ground } from "./core/Ground";
 import { Player } from "./core/Player";
@@ -38,6 +47,15 @@ const hud = new HUD(document.body, controls);
 // Store HUD reference in scene.userData
 scene.userData.hud = hud;
 
+// Show the lobby until a match has us playing
+new LobbyScreen(document.body);
+
+// Pick the weapons and attachments to spawn with
+new LoadoutScreen(document.body);
+
+// Show the match's mode, time and scores, and its results when it ends
+new MatchHud(document.body);
+
 // Initialize RemotePlayerManager
 const remotePlayerManager = new RemotePlayerManager(scene, hud);
 
@@ -47,6 +65,9 @@ controls.updateCollisionSystem(remotePlayerManager);
 // Set collision detector for RemotePlayerManager
 remotePlayerManager.setCollisionDetector(controls.getCollisionSystem());
 
+// Let server damage reach the local player
+remotePlayerManager.setLocalPlayerController(controls.getPlayerController());
+
 // Initialize pickup manager
 const pickupManager = new PickupManager(
   scene,
@@ -59,6 +80,18 @@ const pickupManager = new PickupManager(
 // Set pickup manager in controls
 controls.setPickupManager(pickupManager);
 
+// Show the connection state. What we know about other players goes stale
+// when the connection drops; the server's welcome rebuilds it on reconnect.
+ConnectionMonitor.getInstance().onChange((status) => {
+  hud.setConnectionStatus(status);
+
+  if (status.state !== "connected") {
+    remotePlayerManager.clearPlayers();
+  } else if (status.session > 1) {
+    pickupManager.clear();
+  }
+});
+
 // Build the environment
 const environmentBuilder = new EnvironmentBuilder(scene, controls);
 environmentBuilder.buildEnvironment();
@@ -103,28 +136,60 @@ const gameLoop = new GameLoop(
   decorationCubes
 );
 
+// Show names, health and weapons over the players, faded behind obstacles
+const nameplates = new NameplateManager(document.body, camera, hud);
+nameplates.setLineOfSightChecker(controls.getCollisionSystem());
+gameLoop.setNameplates(nameplates);
+
+// While waiting to respawn the view watches the local player's body from
+// outside, so it gets a plate of its own like everyone else's
+document.addEventListener("player-death", () =>
+  nameplates.setShowLocalPlayer(true)
+);
+document.addEventListener("player-resurrect", () =>
+  nameplates.setShowLocalPlayer(false)
+);
+
+// Show capture-the-flag flags, carried ones on their carrier's back
+const flags = new FlagManager(scene, (userId) =>
+  userId === LobbyClient.getInstance().getState().userId
+    ? player
+    : remotePlayerManager.getPlayerObject(userId)
+);
+gameLoop.setFlags(flags);
+
+// Throw grenades, and see everyone else's go off
+const grenades = new GrenadeManager(
+  scene,
+  controls.getCollisionSystem(),
+  remotePlayerManager,
+  controls.getPlayerController(),
+  player
+);
+controls.getPlayerController().setGrenadeManager(grenades);
+gameLoop.setGrenades(grenades);
+
+// Respawn at the safest spawn point, away from enemies and out of sight
+controls
+  .getPlayerController()
+  .setSpawnSelector(
+    new SpawnSelector(controls.getCollisionSystem(), () =>
+      remotePlayerManager.getEnemyPositions()
+    )
+  );
+
+// Wear our team's color in team modes
+TeamRoster.getInstance().onChange((roster) =>
+  playerSystem.setColor(
+    roster.getTeamColor(LobbyClient.getInstance().getState().userId)
+  )
+);
+
 // Start the game loop
 gameLoop.start();
 
-// Setup event emission for player position
+// Setup event emission (player movement is sent as input frames)
 const eventEmitter = EventEmitter.getInstance();
 
 // Store EventEmitter in scene.userData for access elsewhere
 scene.userData.eventEmitter = eventEmitter;
-
-setInterval(() => {
-  // Get player controller
-  const playerController = controls.getPlayerController();
-
-  // Only emit position updates if the player is alive
-  if (playerController && !playerController.getHealth().isDead) {
-    eventEmitter.emit(GAME_EVENTS.PLAYER.POSITION, {
-      position: {
-        x: player.position.x,
-        y: player.position.y,
-        z: player.position.z,
-      },
-      rotation: player.rotation.y,
-    });
-  }
-}, 100);
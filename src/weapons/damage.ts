@@ -0,0 +1,59 @@
+import type { DamageFalloff } from "./weaponDefinitions";
+
+/**
+ * How much a hit hurts: the weapon's damage, less with distance, scaled by
+ * the part of the body it lands on. Shared by the client and the server,
+ * so it must not depend on three.js.
+ */
+
+export type HitZone = "head" | "torso" | "legs";
+
+export interface HitZoneBounds {
+  bottom: number; // Fractions of the player's height, from the feet up
+  top: number;
+  multiplier: number; // Damage scale for hits here
+}
+
+export const HIT_ZONES: Record<HitZone, HitZoneBounds> = {
+  head: { bottom: 0.8, top: 1, multiplier: 2 },
+  torso: { bottom: 0.45, top: 0.8, multiplier: 1 },
+  legs: { bottom: 0, top: 0.45, multiplier: 0.75 },
+};
+
+/**
+ * The body zone at a height on a player, as a fraction of their height
+ * from the feet up. Hits just outside the hitbox count as the nearest zone.
+ */
+export function getHitZone(heightFraction: number): HitZone {
+  if (heightFraction >= HIT_ZONES.head.bottom) return "head";
+  if (heightFraction >= HIT_ZONES.torso.bottom) return "torso";
+  return "legs";
+}
+
+/**
+ * Damage left after a bullet travelled some distance
+ */
+export function getFalloffDamage(
+  damage: number,
+  falloff: DamageFalloff,
+  distance: number
+): number {
+  if (distance <= falloff.start) return damage;
+  if (distance >= falloff.end) return falloff.minDamage;
+
+  const t = (distance - falloff.start) / (falloff.end - falloff.start);
+  return damage + (falloff.minDamage - damage) * t;
+}
+
+/**
+ * Damage of one pellet from a weapon after travelling some distance, on a
+ * body zone if it hit a player
+ */
+export function getHitDamage(
+  weapon: { damage: number; falloff: DamageFalloff },
+  distance: number,
+  zone?: HitZone
+): number {
+  const damage = getFalloffDamage(weapon.damage, weapon.falloff, distance);
+  return zone ? damage * HIT_ZONES[zone].multiplier : damage;
+}
@@ -0,0 +1,48 @@
+import { getFalloffDamage } from "./damage";
+import type { DamageFalloff } from "./weaponDefinitions";
+
+/**
+ * Frag grenades: how they fly, when they go off and what the blast does.
+ * Shared by the client and the server, so it must not depend on three.js.
+ */
+
+export const GRENADE = {
+  name: "Grenade", // Shown in the kill feed
+  carried: 2, // Grenades per life
+  throwInterval: 1, // Seconds between throws
+  fuseSeconds: 2.5,
+  maxThrowSpeed: 20, // Units per second, enough to land about 20 units away
+  gravity: 20,
+  bounce: 0.45, // Share of its speed a grenade keeps bouncing off something
+  rollingFriction: 4, // Speed lost per second rolling along the ground, as a rate
+  radius: 0.15,
+  blastRadius: 6,
+  damage: 110, // At the center of the blast
+  knockback: 14, // Speed (units/s) players are pushed away at the center
+  knockbackDecay: 28, // Knockback speed lost per second
+} as const;
+
+/**
+ * Blast damage falls off from the center to the edge of the blast
+ */
+const BLAST_FALLOFF: DamageFalloff = {
+  start: 1,
+  end: GRENADE.blastRadius,
+  minDamage: 15,
+};
+
+/**
+ * Damage a blast does to a player this far from its center
+ */
+export function getBlastDamage(distance: number): number {
+  if (distance > GRENADE.blastRadius) return 0;
+  return getFalloffDamage(GRENADE.damage, BLAST_FALLOFF, distance);
+}
+
+/**
+ * Speed a blast pushes a player away with, this far from its center
+ */
+export function getBlastKnockback(distance: number): number {
+  if (distance >= GRENADE.blastRadius) return 0;
+  return GRENADE.knockback * (1 - distance / GRENADE.blastRadius);
+}
@@ -0,0 +1,126 @@
+import type { Loadout, WeaponLoadout } from "../events/types";
+import {
+  getAttachmentDefinition,
+  getWeaponDefinition,
+} from "./weaponDefinitions";
+import type { WeaponDefinition, WeaponSlot } from "./weaponDefinitions";
+
+/**
+ * Loadouts: the primary and secondary weapon a player spawns with, and the
+ * attachments fitted to them. Shared by the client and the server, so it
+ * must not depend on three.js.
+ */
+
+/**
+ * A weapon as it is carried, with its attachments' effects on its stats
+ * and model already applied
+ */
+export interface FittedWeaponDefinition extends WeaponDefinition {
+  fitted: string[]; // Ids of the attachments fitted to it
+  concealsFlash: boolean;
+}
+
+/**
+ * Fit attachments to a weapon. Attachments it doesn't take are left off.
+ */
+export function fitAttachments(
+  definition: WeaponDefinition,
+  attachmentIds: string[]
+): FittedWeaponDefinition {
+  const weapon: FittedWeaponDefinition = {
+    ...definition,
+    falloff: { ...definition.falloff },
+    recoil: { ...definition.recoil },
+    model: { ...definition.model, parts: [...definition.model.parts] },
+    fitted: definition.attachments.filter((id) => attachmentIds.includes(id)),
+    concealsFlash: false,
+  };
+
+  for (const id of weapon.fitted) {
+    const attachment = getAttachmentDefinition(id);
+    if (!attachment) continue;
+
+    const {
+      magazineScale = 1,
+      reloadTimeScale = 1,
+      damageScale = 1,
+      rangeScale = 1,
+      spreadScale = 1,
+      recoilScale = 1,
+    } = attachment;
+
+    weapon.magazineSize = Math.max(
+      1,
+      Math.round(weapon.magazineSize * magazineScale)
+    );
+    weapon.reloadTime *= reloadTimeScale;
+    weapon.damage *= damageScale;
+    weapon.falloff.minDamage *= damageScale;
+    weapon.range *= rangeScale;
+    weapon.spread *= spreadScale;
+    weapon.recoil.pattern = weapon.recoil.pattern.map(
+      (step) => step * recoilScale
+    );
+    weapon.recoil.bloom *= recoilScale;
+    weapon.recoil.maxBloom *= recoilScale;
+    weapon.concealsFlash ||= attachment.concealsFlash === true;
+
+    if (weapon.scope) {
+      weapon.scope = {
+        ...weapon.scope,
+        hipSpread: weapon.scope.hipSpread * spreadScale,
+      };
+    } else if (attachment.scope) {
+      // A fitted scope aims no tighter than the hip, but sees further
+      weapon.scope = { ...attachment.scope, hipSpread: weapon.spread };
+    }
+
+    // Muzzle parts go ahead of the barrel, and lengthen it
+    const { muzzle } = weapon.model;
+    const ahead = attachment.mount === "muzzle" ? muzzle : 0;
+    for (const part of attachment.model.parts) {
+      const [x, y, z] = part.position;
+      weapon.model.parts.push({ ...part, position: [x, y, z - ahead] });
+    }
+    weapon.model.muzzle = muzzle + attachment.model.muzzle;
+  }
+
+  return weapon;
+}
+
+/**
+ * Whether a loadout is one players may pick: a weapon for each slot that
+ * fits it, with attachments that weapon takes, each fitted once
+ */
+export function isLoadoutAllowed(loadout: Loadout): boolean {
+  return (
+    isWeaponLoadoutAllowed(loadout.primary, "primary") &&
+    isWeaponLoadoutAllowed(loadout.secondary, "secondary")
+  );
+}
+
+function isWeaponLoadoutAllowed(
+  { weapon, attachments }: WeaponLoadout,
+  slot: WeaponSlot
+): boolean {
+  const definition = getWeaponDefinition(weapon);
+  return (
+    definition !== null &&
+    definition.slot === slot &&
+    new Set(attachments).size === attachments.length &&
+    attachments.every((id) => definition.attachments.includes(id))
+  );
+}
+
+/**
+ * The weapons a loadout carries, primary first, with their attachments
+ * fitted. Unknown weapons are left out.
+ */
+export function getLoadoutWeapons(loadout: Loadout): FittedWeaponDefinition[] {
+  return [loadout.primary, loadout.secondary].flatMap(
+    ({ weapon, attachments }) => {
+      const definition = getWeaponDefinition(weapon);
+      return definition ? [fitAttachments(definition, attachments)] : [];
+    }
+  );
+}
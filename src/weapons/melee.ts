@@ -0,0 +1,80 @@
+/**
+ * The knife every player carries in a slot of its own: how far it reaches,
+ * how hard it hits and what counts as a stab in the back. Shared by the
+ * client and the server, so it must not depend on three.js.
+ */
+
+type Point = { x: number; y: number; z: number };
+
+export const KNIFE = {
+  name: "Knife", // Shown in the kill feed
+  range: 2, // From the attacker's center to the target's
+  coneAngle: 50, // Degrees either side of the aim a swing reaches
+  damage: 45,
+  backstabScale: 2.5, // Damage scale striking a target from behind
+  backstabAngle: 70, // Degrees a target may face away from the swing's line
+  swingInterval: 0.6, // Seconds between swings
+  swingSeconds: 0.25, // How long the swing animation lasts
+} as const;
+
+/**
+ * Inventory slot of the knife, after the four weapon slots
+ */
+export const MELEE_SLOT = 4;
+
+/**
+ * The way a player with this rotation (radians around the vertical) faces
+ */
+export function getFacing(rotation: number): { x: number; z: number } {
+  return { x: -Math.sin(rotation), z: -Math.cos(rotation) };
+}
+
+/**
+ * Whether a swing along an aim reaches a target: close enough, and within
+ * the cone either side of the aim
+ * @param tolerance Extra reach (units) to absorb jitter
+ */
+export function isInMeleeReach(
+  attacker: Point,
+  target: Point,
+  aim: { x: number; z: number },
+  tolerance = 0
+): boolean {
+  const dx = target.x - attacker.x;
+  const dz = target.z - attacker.z;
+  const distance = Math.hypot(dx, dz);
+  if (distance > KNIFE.range + tolerance) return false;
+  if (distance === 0) return true;
+
+  const aimLength = Math.hypot(aim.x, aim.z);
+  if (aimLength === 0) return false;
+
+  const cos = (dx * aim.x + dz * aim.z) / (distance * aimLength);
+  return cos >= Math.cos((KNIFE.coneAngle * Math.PI) / 180);
+}
+
+/**
+ * Whether a knife from an attacker strikes a target in the back: the
+ * target faces roughly the way the attacker swings at them
+ */
+export function isBackstab(
+  attacker: Point,
+  target: Point,
+  targetRotation: number
+): boolean {
+  const dx = target.x - attacker.x;
+  const dz = target.z - attacker.z;
+  const distance = Math.hypot(dx, dz);
+  if (distance === 0) return false;
+
+  const facing = getFacing(targetRotation);
+  const cos = (dx * facing.x + dz * facing.z) / distance;
+  return cos >= Math.cos((KNIFE.backstabAngle * Math.PI) / 180);
+}
+
+/**
+ * Damage a knife strike does
+ */
+export function getMeleeDamage(backstab: boolean): number {
+  return Math.round(KNIFE.damage * (backstab ? KNIFE.backstabScale : 1));
+}
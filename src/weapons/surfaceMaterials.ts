@@ -0,0 +1,149 @@
+/**
+ * What the things bullets hit are made of. A material decides how an
+ * impact looks and whether bullets pass through or glance off. Shared by the client and
+ * the server, so it must not depend on three.js.
+ */
+
+export type SurfaceMaterial =
+  "wood" | "timber" | "metal" | "foliage" | "concrete" | "flesh";
+
+export const SURFACE_MATERIAL_NAMES: SurfaceMaterial[] = [
+  "wood",
+  "timber",
+  "metal",
+  "foliage",
+  "concrete",
+  "flesh",
+];
+
+export interface SurfaceMaterialProperties {
+  penetration: number; // Thickest piece (units) a bullet passes through
+  damageScale: number; // Share of damage a bullet keeps after passing through
+  impactColor: number; // Of the particles thrown up where bullets strike
+  impactParticles: number;
+  impactSpeed: number; // How fast particles fly off the surface
+  sparks: boolean; // Particles glow rather than fall like debris
+  decalColor: number | null; // Of the marks bullets leave, null for none
+  ricochetAngle: number; // Degrees from the surface under which bullets glance off
+}
+
+export const SURFACE_MATERIALS: Record<
+  SurfaceMaterial,
+  SurfaceMaterialProperties
+> = {
+  wood: {
+    penetration: 1.2,
+    damageScale: 0.6,
+    impactColor: 0x8b5a2b,
+    impactParticles: 14,
+    impactSpeed: 1.5,
+    sparks: false,
+    decalColor: 0x3b2412,
+    ricochetAngle: 0,
+  },
+  // Solid wood, like tree trunks: looks like wood but stops bullets
+  timber: {
+    penetration: 0,
+    damageScale: 0,
+    impactColor: 0x8b5a2b,
+    impactParticles: 14,
+    impactSpeed: 1.5,
+    sparks: false,
+    decalColor: 0x3b2412,
+    ricochetAngle: 0,
+  },
+  metal: {
+    penetration: 0,
+    damageScale: 0,
+    impactColor: 0xffaa33,
+    impactParticles: 20,
+    impactSpeed: 2.5,
+    sparks: true,
+    decalColor: 0x2b2b2b,
+    ricochetAngle: 25,
+  },
+  foliage: {
+    penetration: 3,
+    damageScale: 0.85,
+    impactColor: 0x3a7d2c,
+    impactParticles: 10,
+    impactSpeed: 0.8,
+    sparks: false,
+    decalColor: null,
+    ricochetAngle: 0,
+  },
+  concrete: {
+    penetration: 0,
+    damageScale: 0,
+    impactColor: 0xa8a39a,
+    impactParticles: 16,
+    impactSpeed: 1.8,
+    sparks: false,
+    decalColor: 0x4a4844,
+    ricochetAngle: 0,
+  },
+  flesh: {
+    penetration: 0,
+    damageScale: 0,
+    impactColor: 0x9e1010,
+    impactParticles: 12,
+    impactSpeed: 1.2,
+    sparks: false,
+    decalColor: null,
+    ricochetAngle: 0,
+  },
+};
+
+/**
+ * Most pieces of cover one bullet passes through before it stops
+ */
+export const MAX_PENETRATIONS = 3;
+
+/**
+ * Most times one bullet glances off a surface
+ */
+export const MAX_RICOCHETS = 1;
+
+/**
+ * Share of damage a bullet keeps after glancing off a surface
+ */
+export const RICOCHET_DAMAGE_SCALE = 0.5;
+
+export function isSurfaceMaterial(value: unknown): value is SurfaceMaterial {
+  return SURFACE_MATERIAL_NAMES.includes(value as SurfaceMaterial);
+}
+
+/**
+ * Whether a bullet passes through a piece of a material this thick
+ */
+export function canPenetrate(
+  material: SurfaceMaterial,
+  thickness: number
+): boolean {
+  const { penetration } = SURFACE_MATERIALS[material];
+  return penetration > 0 && thickness <= penetration;
+}
+
+/**
+ * Whether a bullet glances off a material when striking it at this angle
+ * (degrees) from the surface
+ */
+export function canRicochet(
+  material: SurfaceMaterial,
+  grazingAngle: number
+): boolean {
+  return grazingAngle < SURFACE_MATERIALS[material].ricochetAngle;
+}
+
+/**
+ * Share of damage a bullet keeps after passing through cover of these
+ * materials, in order
+ */
+export function getPenetrationDamageScale(
+  materials: SurfaceMaterial[]
+): number {
+  return materials.reduce(
+    (scale, material) => scale * SURFACE_MATERIALS[material].damageScale,
+    1
+  );
+}
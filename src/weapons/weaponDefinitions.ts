@@ -0,0 +1,501 @@
+import type { Loadout, WeaponLoadout } from "../events/types";
+import {
+  isFiniteNumber,
+  isNonEmptyString,
+  isRecord,
+} from "../events/validation";
+import weaponData from "./weapons.json";
+
+/**
+ * Weapon archetypes, defined in weapons.json so new weapons need no code.
+ * Shared by the client and the server, so it must not depend on three.js.
+ */
+
+type Vector3Tuple = [number, number, number];
+
+/**
+ * How damage drops with the distance a bullet travelled: full damage up to
+ * start, then linearly down to minDamage at end and beyond (units)
+ */
+export interface DamageFalloff {
+  start: number;
+  end: number;
+  minDamage: number;
+}
+
+/**
+ * One piece of a procedural weapon model. Cylinders lie along the gun,
+ * like barrels and scopes.
+ */
+export type WeaponPartDefinition = (
+  | { shape: "box"; size: Vector3Tuple }
+  | { shape: "cylinder"; radius: number; length: number }
+) & {
+  position: Vector3Tuple;
+  rotation?: Vector3Tuple; // Degrees around x, y and z
+  color: string; // "#rrggbb"
+};
+
+export interface WeaponModelDefinition {
+  muzzle: number; // How far ahead of the model's origin shots come out
+  parts: WeaponPartDefinition[];
+}
+
+/**
+ * Aiming down a scope: the view moves ahead of the player and pulls back,
+ * and shots are only accurate while scoped
+ */
+export interface WeaponScopeDefinition {
+  lookAhead: number; // How far ahead along the aim the view moves (units)
+  zoomOut: number; // How much further back the camera pulls, as a share
+  hipSpread: number; // Spread (degrees) of shots fired without the scope
+}
+
+/**
+ * How a weapon fires while the trigger is held: once per click, a few
+ * shots per click, or for as long as it is held
+ */
+export type FireMode = "semi" | "burst" | "auto";
+
+export interface WeaponBurstDefinition {
+  shots: number; // Shots per click
+  delay: number; // Seconds after a burst before the next can start
+}
+
+/**
+ * How firing throws off the aim. Each shot of a spray kicks the aim by the
+ * next step of the pattern and blooms the spread, and both recover while
+ * the weapon rests.
+ */
+export interface WeaponRecoilDefinition {
+  pattern: number[]; // Degrees each shot kicks the aim anticlockwise, repeating
+  bloom: number; // Degrees each shot adds to the spread
+  maxBloom: number; // The most that firing can add to the spread
+  recovery: number; // Degrees of kick and bloom recovered per second
+}
+
+/**
+ * Which of a loadout's two weapons a weapon can be
+ */
+export type WeaponSlot = "primary" | "secondary";
+
+/**
+ * A part fitted to weapons that changes their stats and adds to their
+ * model. Scales are 1 when left out.
+ */
+export interface AttachmentDefinition {
+  id: string; // How weapons and loadouts refer to it
+  name: string; // Shown on the loadout screen
+  mount: "muzzle" | "body"; // Muzzle parts are placed ahead of the barrel
+  magazineScale?: number;
+  reloadTimeScale?: number;
+  damageScale?: number;
+  rangeScale?: number;
+  spreadScale?: number;
+  recoilScale?: number; // Of both the kick and the bloom
+  concealsFlash?: boolean; // Hides the muzzle flash
+  scope?: { lookAhead: number; zoomOut: number }; // For weapons without one
+  model: WeaponModelDefinition; // Its muzzle lengthens the barrel
+}
+
+export interface WeaponDefinition {
+  name: string; // Shown in the HUD and sent over the network
+  type: string; // Ammo pickups refill weapons by type
+  slot: WeaponSlot;
+  attachments: string[]; // Ids of the attachments it takes
+  magazineSize: number;
+  startingAmmo: number; // Spare bullets, on top of a full magazine
+  fireRate: number; // Seconds between shots
+  fireMode: FireMode;
+  burst?: WeaponBurstDefinition; // Required for burst weapons
+  recoil: WeaponRecoilDefinition;
+  reloadTime: number; // Seconds
+  damage: number; // Per pellet
+  falloff: DamageFalloff;
+  spread: number; // Degrees shots stray either side of the aim, at rest
+  pellets: number; // Bullets per shot
+  bulletSpeed: number; // Units per second
+  range: number; // How far bullets fly
+  scope?: WeaponScopeDefinition; // Weapons without one can't aim down scope
+  model: WeaponModelDefinition;
+}
+
+export interface WeaponConfig {
+  defaultLoadout: Loadout; // What players carry until they pick their own
+  attachments: AttachmentDefinition[];
+  weapons: WeaponDefinition[];
+}
+
+const PART_SHAPES = ["box", "cylinder"];
+const FIRE_MODES: FireMode[] = ["semi", "burst", "auto"];
+const WEAPON_SLOTS: WeaponSlot[] = ["primary", "secondary"];
+const ATTACHMENT_MOUNTS = ["muzzle", "body"];
+const ATTACHMENT_SCALES = [
+  "magazineScale",
+  "reloadTimeScale",
+  "damageScale",
+  "rangeScale",
+  "spreadScale",
+  "recoilScale",
+] as const;
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Check a weapon config against the schema above, so a typo in
+ * weapons.json fails loudly at startup instead of as odd behavior in game
+ */
+export function parseWeaponConfig(data: unknown): WeaponConfig {
+  if (!isRecord(data)) fail("weapons.json", "must be an object");
+  if (!Array.isArray(data.weapons) || data.weapons.length === 0) {
+    fail("weapons", "must be a non-empty array");
+  }
+  if (!Array.isArray(data.attachments)) {
+    fail("attachments", "must be an array");
+  }
+
+  const attachments = data.attachments.map((entry, index) =>
+    parseAttachment(entry, `attachments[${index}]`)
+  );
+  const ids = new Set<string>();
+  for (const { id } of attachments) {
+    if (ids.has(id)) fail("attachments", `has two attachments with id "${id}"`);
+    ids.add(id);
+  }
+
+  const weapons = data.weapons.map((entry, index) =>
+    parseWeaponDefinition(entry, `weapons[${index}]`)
+  );
+
+  const names = new Set<string>();
+  weapons.forEach(({ name, attachments: fits }, index) => {
+    if (names.has(name)) fail("weapons", `has two weapons named "${name}"`);
+    names.add(name);
+    for (const id of fits) {
+      if (!ids.has(id)) {
+        fail(`weapons[${index}].attachments`, `has unknown attachment "${id}"`);
+      }
+    }
+  });
+
+  const defaultLoadout = data.defaultLoadout;
+  if (!isRecord(defaultLoadout)) fail("defaultLoadout", "must be an object");
+  const loadout: Loadout = {
+    primary: parseLoadoutWeapon(weapons, defaultLoadout, "primary"),
+    secondary: parseLoadoutWeapon(weapons, defaultLoadout, "secondary"),
+  };
+
+  return { defaultLoadout: loadout, attachments, weapons };
+}
+
+/**
+ * One weapon of the default loadout, which must fit its slot and take its
+ * attachments
+ */
+function parseLoadoutWeapon(
+  weapons: WeaponDefinition[],
+  data: Record<string, unknown>,
+  slot: WeaponSlot
+): WeaponLoadout {
+  const path = `defaultLoadout.${slot}`;
+  const entry = data[slot];
+  if (!isRecord(entry)) fail(path, "must be an object");
+
+  const weapon = weapons.find((definition) => definition.name === entry.weapon);
+  if (!weapon || weapon.slot !== slot) {
+    fail(`${path}.weapon`, `must name one of the ${slot} weapons`);
+  }
+
+  const attachments = entry.attachments;
+  if (
+    !Array.isArray(attachments) ||
+    !attachments.every((id) => weapon.attachments.includes(id))
+  ) {
+    fail(`${path}.attachments`, `must be attachments the ${weapon.name} takes`);
+  }
+
+  return { weapon: weapon.name, attachments: [...attachments] };
+}
+
+function parseWeaponDefinition(data: unknown, path: string): WeaponDefinition {
+  if (!isRecord(data)) fail(path, "must be an object");
+
+  const falloff = data.falloff;
+  if (!isRecord(falloff)) fail(`${path}.falloff`, "must be an object");
+  if (!FIRE_MODES.includes(data.fireMode as FireMode)) {
+    fail(`${path}.fireMode`, `must be one of ${FIRE_MODES.join(", ")}`);
+  }
+  if (!WEAPON_SLOTS.includes(data.slot as WeaponSlot)) {
+    fail(`${path}.slot`, `must be one of ${WEAPON_SLOTS.join(", ")}`);
+  }
+  if (
+    !Array.isArray(data.attachments) ||
+    !data.attachments.every(isNonEmptyString)
+  ) {
+    fail(`${path}.attachments`, "must be an array of attachment ids");
+  }
+
+  const definition: WeaponDefinition = {
+    name: requireString(data, "name", path),
+    type: requireString(data, "type", path),
+    slot: data.slot as WeaponSlot,
+    attachments: [...data.attachments],
+    magazineSize: requireInteger(data, "magazineSize", path, 1),
+    startingAmmo: requireInteger(data, "startingAmmo", path, 0),
+    fireRate: requireNumber(data, "fireRate", path, 0),
+    fireMode: data.fireMode as FireMode,
+    burst:
+      data.burst === undefined
+        ? undefined
+        : parseBurst(data.burst, `${path}.burst`),
+    recoil: parseRecoil(data.recoil, `${path}.recoil`),
+    reloadTime: requireNumber(data, "reloadTime", path, 0),
+    damage: requireNumber(data, "damage", path, 0),
+    falloff: {
+      start: requireNumber(falloff, "start", `${path}.falloff`, 0),
+      end: requireNumber(falloff, "end", `${path}.falloff`, 0),
+      minDamage: requireNumber(falloff, "minDamage", `${path}.falloff`, 0),
+    },
+    spread: requireNumber(data, "spread", path, 0),
+    pellets: requireInteger(data, "pellets", path, 1),
+    bulletSpeed: requirePositive(data, "bulletSpeed", path),
+    range: requirePositive(data, "range", path),
+    scope:
+      data.scope === undefined
+        ? undefined
+        : parseScope(data.scope, `${path}.scope`),
+    model: parseModel(data.model, `${path}.model`),
+  };
+
+  if (definition.falloff.end < definition.falloff.start) {
+    fail(`${path}.falloff.end`, "must not be less than start");
+  }
+  if (definition.falloff.minDamage > definition.damage) {
+    fail(`${path}.falloff.minDamage`, "must not be more than damage");
+  }
+  if (definition.fireMode === "burst" && !definition.burst) {
+    fail(`${path}.burst`, "is required for burst weapons");
+  }
+
+  return definition;
+}
+
+function parseScope(data: unknown, path: string): WeaponScopeDefinition {
+  if (!isRecord(data)) fail(path, "must be an object");
+
+  return {
+    lookAhead: requireNumber(data, "lookAhead", path, 0),
+    zoomOut: requireNumber(data, "zoomOut", path, 0),
+    hipSpread: requireNumber(data, "hipSpread", path, 0),
+  };
+}
+
+function parseAttachment(data: unknown, path: string): AttachmentDefinition {
+  if (!isRecord(data)) fail(path, "must be an object");
+  if (!ATTACHMENT_MOUNTS.includes(data.mount as string)) {
+    fail(`${path}.mount`, `must be one of ${ATTACHMENT_MOUNTS.join(", ")}`);
+  }
+  if (
+    data.concealsFlash !== undefined &&
+    typeof data.concealsFlash !== "boolean"
+  ) {
+    fail(`${path}.concealsFlash`, "must be true or false");
+  }
+
+  const attachment: AttachmentDefinition = {
+    id: requireString(data, "id", path),
+    name: requireString(data, "name", path),
+    mount: data.mount as AttachmentDefinition["mount"],
+    concealsFlash: data.concealsFlash,
+    model: parseModel(data.model, `${path}.model`),
+  };
+
+  for (const key of ATTACHMENT_SCALES) {
+    if (data[key] !== undefined) {
+      attachment[key] = requirePositive(data, key, path);
+    }
+  }
+
+  if (data.scope !== undefined) {
+    const scope = data.scope;
+    if (!isRecord(scope)) fail(`${path}.scope`, "must be an object");
+    attachment.scope = {
+      lookAhead: requireNumber(scope, "lookAhead", `${path}.scope`, 0),
+      zoomOut: requireNumber(scope, "zoomOut", `${path}.scope`, 0),
+    };
+  }
+
+  return attachment;
+}
+
+function parseBurst(data: unknown, path: string): WeaponBurstDefinition {
+  if (!isRecord(data)) fail(path, "must be an object");
+
+  return {
+    shots: requireInteger(data, "shots", path, 2),
+    delay: requireNumber(data, "delay", path, 0),
+  };
+}
+
+function parseRecoil(data: unknown, path: string): WeaponRecoilDefinition {
+  if (!isRecord(data)) fail(path, "must be an object");
+  if (!Array.isArray(data.pattern) || !data.pattern.every(isFiniteNumber)) {
+    fail(`${path}.pattern`, "must be an array of numbers");
+  }
+
+  return {
+    pattern: data.pattern,
+    bloom: requireNumber(data, "bloom", path, 0),
+    maxBloom: requireNumber(data, "maxBloom", path, 0),
+    recovery: requirePositive(data, "recovery", path),
+  };
+}
+
+function parseModel(data: unknown, path: string): WeaponModelDefinition {
+  if (!isRecord(data)) fail(path, "must be an object");
+  if (!Array.isArray(data.parts)) fail(`${path}.parts`, "must be an array");
+
+  return {
+    muzzle: requireNumber(data, "muzzle", path),
+    parts: data.parts.map((part, index) =>
+      parsePart(part, `${path}.parts[${index}]`)
+    ),
+  };
+}
+
+function parsePart(data: unknown, path: string): WeaponPartDefinition {
+  if (!isRecord(data)) fail(path, "must be an object");
+  if (!PART_SHAPES.includes(data.shape as string)) {
+    fail(`${path}.shape`, `must be one of ${PART_SHAPES.join(", ")}`);
+  }
+  if (typeof data.color !== "string" || !COLOR_PATTERN.test(data.color)) {
+    fail(`${path}.color`, 'must be a "#rrggbb" color');
+  }
+
+  const common = {
+    position: requireTuple(data, "position", path),
+    rotation:
+      data.rotation === undefined
+        ? undefined
+        : requireTuple(data, "rotation", path),
+    color: data.color,
+  };
+
+  if (data.shape === "box") {
+    return { shape: "box", size: requireTuple(data, "size", path), ...common };
+  }
+  return {
+    shape: "cylinder",
+    radius: requirePositive(data, "radius", path),
+    length: requirePositive(data, "length", path),
+    ...common,
+  };
+}
+
+function requireString(
+  data: Record<string, unknown>,
+  key: string,
+  path: string
+): string {
+  const value = data[key];
+  if (!isNonEmptyString(value)) fail(`${path}.${key}`, "must be a string");
+  return value;
+}
+
+function requireNumber(
+  data: Record<string, unknown>,
+  key: string,
+  path: string,
+  min?: number
+): number {
+  const value = data[key];
+  if (!isFiniteNumber(value) || (min !== undefined && value < min)) {
+    fail(
+      `${path}.${key}`,
+      min === undefined
+        ? "must be a number"
+        : `must be a number, ${min} or more`
+    );
+  }
+  return value;
+}
+
+function requirePositive(
+  data: Record<string, unknown>,
+  key: string,
+  path: string
+): number {
+  const value = data[key];
+  if (!isFiniteNumber(value) || value <= 0) {
+    fail(`${path}.${key}`, "must be a positive number");
+  }
+  return value;
+}
+
+function requireInteger(
+  data: Record<string, unknown>,
+  key: string,
+  path: string,
+  min: number
+): number {
+  const value = data[key];
+  if (!Number.isInteger(value) || (value as number) < min) {
+    fail(`${path}.${key}`, `must be a whole number, ${min} or more`);
+  }
+  return value as number;
+}
+
+function requireTuple(
+  data: Record<string, unknown>,
+  key: string,
+  path: string
+): Vector3Tuple {
+  const value = data[key];
+  if (
+    !Array.isArray(value) ||
+    value.length !== 3 ||
+    !value.every(isFiniteNumber)
+  ) {
+    fail(`${path}.${key}`, "must be an array of three numbers");
+  }
+  return [value[0], value[1], value[2]];
+}
+
+function fail(path: string, message: string): never {
+  throw new Error(`Invalid weapon definition: ${path} ${message}`);
+}
+
+const WEAPON_CONFIG = parseWeaponConfig(weaponData);
+
+export const WEAPON_DEFINITIONS: WeaponDefinition[] = WEAPON_CONFIG.weapons;
+
+export const ATTACHMENT_DEFINITIONS: AttachmentDefinition[] =
+  WEAPON_CONFIG.attachments;
+
+export const DEFAULT_LOADOUT: Loadout = WEAPON_CONFIG.defaultLoadout;
+
+/**
+ * Get a weapon's definition by its name, or null for unknown weapons
+ */
+export function getWeaponDefinition(name: string): WeaponDefinition | null {
+  return WEAPON_DEFINITIONS.find((weapon) => weapon.name === name) ?? null;
+}
+
+/**
+ * Get an attachment's definition by its id, or null for unknown ones
+ */
+export function getAttachmentDefinition(
+  id: string
+): AttachmentDefinition | null {
+  return (
+    ATTACHMENT_DEFINITIONS.find((attachment) => attachment.id === id) ?? null
+  );
+}
+
+/**
+ * Get the first weapon of a type (e.g. "rifle"), or null if there is none
+ */
+export function getWeaponDefinitionByType(
+  type: string
+): WeaponDefinition | null {
+  return WEAPON_DEFINITIONS.find((weapon) => weapon.type === type) ?? null;
+}